@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,6 +11,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
+import { calculateTax, LINE_ITEM_CATEGORIES, NO_TAX_JURISDICTION, TaxJurisdiction, TaxSummary } from "@/lib/tax";
+import { deployInvoice, DeployedInvoice, InvoiceSubmission, newIdempotencyKey } from "@/lib/agent";
 import {
   Brain,
   Plus,
@@ -22,7 +24,8 @@ import {
   DollarSign,
   Calendar,
   Users,
-  Zap
+  Zap,
+  Receipt
 } from "lucide-react";
 
 interface LineItem {
@@ -31,24 +34,36 @@ interface LineItem {
   quantity: number;
   rate: number;
   amount: number;
+  category: string;
 }
 
 const CreateInvoice = () => {
   const [useAI, setUseAI] = useState(false);
   const [aiDescription, setAiDescription] = useState("");
   const [generating, setGenerating] = useState(false);
+  const [deploying, setDeploying] = useState(false);
+  const [deployment, setDeployment] = useState<{ invoice?: DeployedInvoice; error?: string }>({});
+  // Key of the last submission; reused while the form is unchanged so a retry can't deploy twice
+  const submission = useRef<{ key: string; payload: string } | null>(null);
+  const [tax, setTax] = useState<TaxSummary | null>(null);
+  const [taxError, setTaxError] = useState<string>();
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[]>([NO_TAX_JURISDICTION]);
   const [lineItems, setLineItems] = useState<LineItem[]>([
-    { id: "1", description: "", quantity: 1, rate: 0, amount: 0 }
+    { id: "1", description: "", quantity: 1, rate: 0, amount: 0, category: "service" }
   ]);
 
   const [invoiceData, setInvoiceData] = useState({
     clientName: "",
     clientEmail: "",
+    clientWallet: "",
     invoiceNumber: `INV-${new Date().getFullYear()}-${String(Date.now()).slice(-4)}`,
     dueDate: "",
     currency: "USDC",
     paymentTerms: "Net 30",
-    notes: ""
+    notes: "",
+    taxJurisdiction: "NONE",
+    clientTaxId: "",
+    taxExempt: false
   });
 
   const addLineItem = () => {
@@ -57,7 +72,8 @@ const CreateInvoice = () => {
       description: "",
       quantity: 1,
       rate: 0,
-      amount: 0
+      amount: 0,
+      category: "service"
     };
     setLineItems([...lineItems, newItem]);
   };
@@ -87,9 +103,9 @@ const CreateInvoice = () => {
     // Simulate AI generation
     setTimeout(() => {
       const generatedItems = [
-        { id: "ai-1", description: "Website Development - Frontend", quantity: 40, rate: 85, amount: 3400 },
-        { id: "ai-2", description: "Backend API Development", quantity: 25, rate: 95, amount: 2375 },
-        { id: "ai-3", description: "Database Design & Implementation", quantity: 15, rate: 90, amount: 1350 }
+        { id: "ai-1", description: "Website Development - Frontend", quantity: 40, rate: 85, amount: 3400, category: "development" },
+        { id: "ai-2", description: "Backend API Development", quantity: 25, rate: 95, amount: 2375, category: "development" },
+        { id: "ai-3", description: "Database Design & Implementation", quantity: 15, rate: 90, amount: 1350, category: "development" }
       ];
       
       setLineItems(generatedItems);
@@ -102,7 +118,80 @@ const CreateInvoice = () => {
     }, 2000);
   };
 
-  const totalAmount = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  // Without a wallet the agent resolves the client by name or email from the address book
+  const walletValid = /^0x[a-fA-F0-9]{40}$/.test(invoiceData.clientWallet);
+  const clientIdentified = walletValid || (!invoiceData.clientWallet && !!(invoiceData.clientName.trim() || invoiceData.clientEmail.trim()));
+
+  // The client's jurisdiction is derived from the tax ID's country prefix (e.g. DE123456789), if it has one
+  const taxOptions = useMemo(() => ({
+    jurisdiction: invoiceData.taxJurisdiction,
+    clientTaxId: invoiceData.clientTaxId.trim() || undefined,
+    exempt: invoiceData.taxExempt
+  }), [invoiceData.taxJurisdiction, invoiceData.clientTaxId, invoiceData.taxExempt]);
+
+  // The agent prices the invoice once the form has stopped changing for a moment
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      calculateTax(lineItems, taxOptions, invoiceData.currency)
+        .then(({ summary, jurisdictions }) => {
+          if (cancelled) return;
+          setTax(summary);
+          setJurisdictions(jurisdictions);
+          setTaxError(undefined);
+        })
+        .catch(error => {
+          if (cancelled) return;
+          setTax(null);
+          setTaxError(error instanceof Error ? error.message : String(error));
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [lineItems, taxOptions, invoiceData.currency]);
+
+  const deploy = async () => {
+    if (!tax) return;
+
+    const invoice: InvoiceSubmission = {
+      clientAddress: invoiceData.clientWallet,
+      amount: tax.subtotal.toFixed(2),
+      currency: invoiceData.currency,
+      description: lineItems.map(item => item.description).filter(Boolean).join(", ") || `Invoice ${invoiceData.invoiceNumber}`,
+      lineItems: lineItems.map(item => ({
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.rate,
+        total: item.amount,
+        category: item.category
+      })),
+      tax: taxOptions,
+      paymentTerms: { paymentWindow: parseInt(invoiceData.paymentTerms.replace("Net ", "")) || 30 },
+      dueDate: invoiceData.dueDate || undefined,
+      metadata: {
+        invoiceNumber: invoiceData.invoiceNumber,
+        notes: invoiceData.notes || undefined,
+        client: { name: invoiceData.clientName.trim() || undefined, email: invoiceData.clientEmail.trim() || undefined }
+      }
+    };
+
+    const payload = JSON.stringify(invoice);
+    if (submission.current?.payload !== payload) {
+      submission.current = { key: newIdempotencyKey(), payload };
+    }
+
+    setDeploying(true);
+    try {
+      setDeployment({ invoice: await deployInvoice(invoice, submission.current.key) });
+    } catch (error) {
+      setDeployment({ error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setDeploying(false);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -212,6 +301,19 @@ const CreateInvoice = () => {
                     />
                   </div>
                 </div>
+                <div>
+                  <Label htmlFor="client-wallet">Client Wallet Address</Label>
+                  <Input
+                    id="client-wallet"
+                    value={invoiceData.clientWallet}
+                    onChange={(e) => setInvoiceData(prev => ({ ...prev, clientWallet: e.target.value.trim() }))}
+                    placeholder="0x... (leave empty to use the address book entry for this client)"
+                    className="font-mono"
+                  />
+                  {invoiceData.clientWallet && !walletValid && (
+                    <p className="text-xs text-destructive mt-1">Enter a 0x address with 40 hex characters</p>
+                  )}
+                </div>
               </CardContent>
             </Card>
 
@@ -278,6 +380,52 @@ const CreateInvoice = () => {
               </CardContent>
             </Card>
 
+            {/* Tax */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Receipt className="w-5 h-5 mr-2" />
+                  Tax
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="tax-jurisdiction">Tax Jurisdiction</Label>
+                    <Select value={invoiceData.taxJurisdiction} onValueChange={(value) => setInvoiceData(prev => ({ ...prev, taxJurisdiction: value }))}>
+                      <SelectTrigger id="tax-jurisdiction">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {jurisdictions.map(jurisdiction => (
+                          <SelectItem key={jurisdiction.code} value={jurisdiction.code}>
+                            {jurisdiction.name}{jurisdiction.standardRateBps > 0 ? ` (${jurisdiction.taxName} ${jurisdiction.standardRateBps / 100}%)` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="client-tax-id">Client VAT / GST ID</Label>
+                    <Input
+                      id="client-tax-id"
+                      value={invoiceData.clientTaxId}
+                      onChange={(e) => setInvoiceData(prev => ({ ...prev, clientTaxId: e.target.value }))}
+                      placeholder="e.g. FR12345678901"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="tax-exempt">Client is tax-exempt</Label>
+                  <Switch
+                    id="tax-exempt"
+                    checked={invoiceData.taxExempt}
+                    onCheckedChange={(checked) => setInvoiceData(prev => ({ ...prev, taxExempt: checked }))}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Line Items */}
             <Card>
               <CardHeader>
@@ -305,7 +453,7 @@ const CreateInvoice = () => {
                       )}
                     </div>
                     
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                       <div className="md:col-span-2">
                         <Label htmlFor={`description-${item.id}`}>Description</Label>
                         <Input
@@ -337,6 +485,19 @@ const CreateInvoice = () => {
                           step="0.01"
                         />
                       </div>
+                      <div>
+                        <Label htmlFor={`category-${item.id}`}>Category</Label>
+                        <Select value={item.category} onValueChange={(value) => updateLineItem(item.id, 'category', value)}>
+                          <SelectTrigger id={`category-${item.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {LINE_ITEM_CATEGORIES.map(category => (
+                              <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                     </div>
                     
                     <div className="text-right">
@@ -375,17 +536,38 @@ const CreateInvoice = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Subtotal:</span>
-                    <span>${totalAmount.toFixed(2)}</span>
-                  </div>
-                  <Separator />
-                  <div className="flex justify-between text-lg font-semibold">
-                    <span>Total:</span>
-                    <span>${totalAmount.toFixed(2)} {invoiceData.currency}</span>
+                {tax ? (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span>Subtotal:</span>
+                      <span>${tax.subtotal.toFixed(2)}</span>
+                    </div>
+                    {tax.rates.filter(rate => rate.rateBps > 0).map(rate => (
+                      <div key={rate.rateBps} className="flex justify-between text-sm">
+                        <span>{tax.taxName} ({rate.rateBps / 100}%):</span>
+                        <span>${rate.tax.toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {tax.taxTotal === 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span>{tax.taxName}:</span>
+                        <span>$0.00</span>
+                      </div>
+                    )}
+                    {tax.note && (
+                      <p className="text-xs text-muted-foreground">{tax.note}</p>
+                    )}
+                    <Separator />
+                    <div className="flex justify-between text-lg font-semibold">
+                      <span>Total:</span>
+                      <span>${tax.total.toFixed(2)} {invoiceData.currency}</span>
+                    </div>
                   </div>
-                </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {taxError ? `Tax preview unavailable: ${taxError}` : "Calculating tax..."}
+                  </p>
+                )}
 
                 <div className="space-y-2 pt-4">
                   <div className="text-sm text-muted-foreground">Payment Terms:</div>
@@ -396,7 +578,7 @@ const CreateInvoice = () => {
                   <div className="text-sm text-muted-foreground">Smart Contract:</div>
                   <div className="flex items-center space-x-2">
                     <div className="w-2 h-2 bg-warning rounded-full"></div>
-                    <span className="text-sm">Ready to Deploy</span>
+                    <span className="text-sm">{clientIdentified ? "Ready to Deploy" : "Needs a client wallet or address book entry"}</span>
                   </div>
                 </div>
               </CardContent>
@@ -457,10 +639,24 @@ const CreateInvoice = () => {
 
             {/* Action Buttons */}
             <div className="space-y-3">
-              <Button className="w-full" size="lg" variant="gradient">
+              <Button
+                className="w-full"
+                size="lg"
+                variant="gradient"
+                onClick={deploy}
+                disabled={deploying || !clientIdentified || !tax || tax.total <= 0}
+              >
                 <Wallet className="w-4 h-4 mr-2" />
-                Deploy Smart Contract
+                {deploying ? "Deploying..." : "Deploy Smart Contract"}
               </Button>
+              {deployment.invoice && (
+                <p className="text-sm text-muted-foreground">
+                  {deployment.invoice.replayed ? "Already deployed as" : "Deployed as"} invoice #{deployment.invoice.id}
+                </p>
+              )}
+              {deployment.error && (
+                <p className="text-sm text-destructive">{deployment.error}</p>
+              )}
               <Button className="w-full" variant="outline">
                 Save as Draft
               </Button>
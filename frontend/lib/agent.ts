@@ -0,0 +1,91 @@
+// Talks to the Inva agent (DEPLOY_INVOICE and PREVIEW_TAX in inva-agent/plugins/invoice-plugin/invoicePlugin.ts)
+
+export interface InvoiceSubmission {
+  clientAddress: string;
+  amount: string;
+  currency: string;
+  description: string;
+  lineItems: Array<{ description: string; quantity: number; unitPrice: number; total: number; category: string }>;
+  tax: { jurisdiction: string; clientTaxId?: string; exempt: boolean };
+  paymentTerms: { paymentWindow: number };
+  dueDate?: string;
+  metadata: { invoiceNumber: string; notes?: string; client: { name?: string; email?: string } };
+}
+
+export interface TaxPreviewRequest {
+  currency: string;
+  lineItems: Array<{ description: string; quantity: number; unitPrice: number; total: number; category: string }>;
+  tax: InvoiceSubmission["tax"];
+}
+
+// The agent's tax breakdown (amounts are decimal strings) and the jurisdictions it supports
+export interface TaxPreview {
+  tax: {
+    taxName: string;
+    subtotal: string;
+    taxTotal: string;
+    total: string;
+    rates: Array<{ rateBps: number; net: string; tax: string }>;
+    reverseCharge: boolean;
+    note?: string;
+  };
+  jurisdictions: Array<{ code: string; name: string; taxName: string; standardRateBps: number }>;
+}
+
+export interface DeployedInvoice {
+  id: string;
+  txHash?: string;
+  replayed: boolean; // the agent had already deployed this submission
+}
+
+// The agent's message endpoint
+const AGENT_URL = process.env.NEXT_PUBLIC_AGENT_URL;
+
+export function newIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Sends the invoice for deployment. Resending with the same idempotency key (a retry after a
+ * network error, a second click) returns the invoice the first submission created.
+ */
+export async function deployInvoice(invoice: InvoiceSubmission, idempotencyKey: string): Promise<DeployedInvoice> {
+  const body = await sendToAgent(
+    "DEPLOY_INVOICE",
+    { text: "Deploy invoice", invoiceRequest: invoice, idempotencyKey },
+    { "Idempotency-Key": idempotencyKey }
+  );
+
+  return {
+    id: String(body.data?.invoice?.id),
+    txHash: body.data?.invoice?.txHash,
+    replayed: !!body.data?.replayed
+  };
+}
+
+/**
+ * Prices line items with the agent's tax engine, so the preview uses the same rates and rules
+ * as the invoice it deploys. Also returns the jurisdictions the agent supports.
+ */
+export async function previewTax(request: TaxPreviewRequest): Promise<TaxPreview> {
+  const body = await sendToAgent("PREVIEW_TAX", { text: "Preview tax", taxPreview: request });
+  return { tax: body.data.tax, jurisdictions: body.data.jurisdictions };
+}
+
+async function sendToAgent(action: string, message: object, headers: Record<string, string> = {}) {
+  if (!AGENT_URL) {
+    throw new Error("NEXT_PUBLIC_AGENT_URL is not configured");
+  }
+
+  const response = await fetch(AGENT_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(message)
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || body.action === `${action}_ERROR`) {
+    throw new Error(body.data?.error || body.text || `Agent responded with ${response.status}`);
+  }
+  return body;
+}
@@ -0,0 +1,56 @@
+// Tax previews are calculated by the agent (PREVIEW_TAX), so the rates, rounding and reverse-charge
+// rules shown here are the ones the deployed invoice will use
+import { previewTax, TaxPreview } from "@/lib/agent";
+
+export type TaxJurisdiction = TaxPreview["jurisdictions"][number];
+
+export interface TaxableItem {
+  amount: number;
+  category: string;
+}
+
+export interface TaxOptions {
+  jurisdiction: string;
+  clientTaxId?: string;
+  exempt: boolean;
+}
+
+export interface TaxSummary {
+  taxName: string;
+  subtotal: number;
+  rates: Array<{ rateBps: number; net: number; tax: number }>;
+  taxTotal: number;
+  total: number;
+  reverseCharge: boolean;
+  note?: string;
+}
+
+// Offered until the agent has listed its jurisdictions
+export const NO_TAX_JURISDICTION: TaxJurisdiction = { code: "NONE", name: "No tax", taxName: "Tax", standardRateBps: 0 };
+
+export const LINE_ITEM_CATEGORIES = ["development", "design", "consulting", "service", "license", "product", "books"];
+
+export async function calculateTax(
+  items: TaxableItem[],
+  options: TaxOptions,
+  currency: string = "USD"
+): Promise<{ summary: TaxSummary; jurisdictions: TaxJurisdiction[] }> {
+  const lineItems = items.map(item => {
+    const amount = Number.isFinite(item.amount) ? item.amount : 0;
+    return { description: "", quantity: 1, unitPrice: amount, total: amount, category: item.category };
+  });
+  const { tax, jurisdictions } = await previewTax({ currency, lineItems, tax: options });
+
+  return {
+    summary: {
+      taxName: tax.taxName,
+      subtotal: Number(tax.subtotal),
+      rates: tax.rates.map(rate => ({ rateBps: rate.rateBps, net: Number(rate.net), tax: Number(rate.tax) })),
+      taxTotal: Number(tax.taxTotal),
+      total: Number(tax.total),
+      reverseCharge: tax.reverseCharge,
+      note: tax.note
+    },
+    jurisdictions
+  };
+}
@@ -0,0 +1,197 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { ethers } from "ethers";
+import { randomBytes } from 'crypto';
+import { CURRENCY_DECIMALS } from '../../src/services/money.ts';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { normalizeJurisdiction } from './taxEngine.ts';
+import { Client, InvoiceRequest } from './types.ts';
+
+export const DEFAULT_CHAIN = 'sei-testnet';
+
+export type ClientInput = Omit<Client, 'id' | 'ownerId' | 'createdAt' | 'updatedAt'>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CHAIN_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+
+/**
+ * Per-provider address book, so invoices can name a client ("invoice Acme Corp for…")
+ * instead of pasting a wallet address every time.
+ */
+export default class ClientDirectory {
+  private store: RuntimeStore<Client>;
+
+  constructor(runtime: IAgentRuntime) {
+    this.store = new RuntimeStore<Client>(runtime, 'clients');
+  }
+
+  async list(ownerId: string): Promise<Client[]> {
+    const clients = await this.store.list(client => client.ownerId === ownerId);
+    return clients.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async add(ownerId: string, input: ClientInput): Promise<Client> {
+    const now = new Date().toISOString();
+    const client: Client = {
+      ...normalizeClient(input),
+      id: `client-${randomBytes(4).toString('hex')}`,
+      ownerId,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.assertValid(client);
+    await this.assertUnique(client);
+    return this.store.set(client.id, client);
+  }
+
+  async update(ownerId: string, query: string, changes: Partial<ClientInput>): Promise<Client> {
+    const existing = await this.lookup(ownerId, query);
+    if (!existing) {
+      throw new Error(`Client not found: ${query}`);
+    }
+
+    const client: Client = {
+      ...existing,
+      ...normalizeClient({ ...existing, ...changes }),
+      wallets: { ...existing.wallets, ...normalizeWallets(changes.wallets) },
+      defaultTerms: { ...existing.defaultTerms, ...changes.defaultTerms },
+      updatedAt: new Date().toISOString()
+    };
+
+    this.assertValid(client);
+    await this.assertUnique(client);
+    return this.store.set(client.id, client);
+  }
+
+  /**
+   * Finds a client by id, email or name (exact first, then a unique partial name match)
+   */
+  async lookup(ownerId: string, query: string): Promise<Client | undefined> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return undefined;
+
+    const clients = await this.list(ownerId);
+    const exact = clients.find(client =>
+      client.id === needle || client.email?.toLowerCase() === needle || client.name.toLowerCase() === needle
+    );
+    if (exact) return exact;
+
+    const partial = clients.filter(client => client.name.toLowerCase().includes(needle));
+    return partial.length === 1 ? partial[0] : undefined;
+  }
+
+  /**
+   * The client a free-text request mentions by name or email; the longest name wins ("Acme Labs" over "Acme")
+   */
+  async findMentioned(ownerId: string, text: string): Promise<Client | undefined> {
+    const haystack = text.toLowerCase();
+    const mentioned = (await this.list(ownerId)).filter(client =>
+      containsPhrase(haystack, client.name.toLowerCase()) ||
+      (!!client.email && haystack.includes(client.email.toLowerCase()))
+    );
+    return mentioned.sort((a, b) => b.name.length - a.name.length)[0];
+  }
+
+  private assertValid(client: Client) {
+    const errors = validateClient(client);
+    if (errors.length > 0) {
+      throw new Error(`Invalid client: ${errors.join(', ')}`);
+    }
+  }
+
+  private async assertUnique(client: Client) {
+    const clash = (await this.list(client.ownerId)).find(other =>
+      other.id !== client.id &&
+      (other.name.toLowerCase() === client.name.toLowerCase() ||
+        (!!client.email && other.email?.toLowerCase() === client.email.toLowerCase()))
+    );
+    if (clash) {
+      throw new Error(`A client named "${clash.name}" with that name or email already exists`);
+    }
+  }
+}
+
+export function walletFor(client: Client, chain: string = DEFAULT_CHAIN): string | undefined {
+  return client.wallets[chain];
+}
+
+/**
+ * Points a generated invoice at a client: their wallet, plus their default currency, terms and tax ID
+ */
+export function applyClientDefaults(request: InvoiceRequest, client: Client, chain: string = DEFAULT_CHAIN): InvoiceRequest {
+  const taxId = request.tax?.clientTaxId || client.taxId;
+  return {
+    ...request,
+    clientAddress: walletFor(client, chain) || request.clientAddress,
+    currency: client.defaultCurrency || request.currency,
+    paymentTerms: { ...request.paymentTerms, ...client.defaultTerms },
+    tax: taxId
+      ? { ...request.tax, clientTaxId: taxId, clientJurisdiction: request.tax?.clientJurisdiction || normalizeJurisdiction(taxId.slice(0, 2)) }
+      : request.tax,
+    metadata: { ...request.metadata, client: clientReference(client) }
+  };
+}
+
+// What an invoice records about its client besides the wallet
+export function clientReference(client: Client): { id: string; name: string; email?: string; billingAddress?: string } {
+  return { id: client.id, name: client.name, email: client.email, billingAddress: client.billingAddress };
+}
+
+export function validateClient(client: Partial<Client>): string[] {
+  const errors: string[] = [];
+
+  if (!client.name || client.name.trim().length === 0) {
+    errors.push("Client name is required");
+  }
+  if (client.email && !EMAIL_PATTERN.test(client.email)) {
+    errors.push(`Invalid email: ${client.email}`);
+  }
+
+  for (const [chain, address] of Object.entries(client.wallets || {})) {
+    if (!CHAIN_PATTERN.test(chain)) {
+      errors.push(`Invalid chain name: ${chain}`);
+    }
+    if (!ethers.isAddress(address) || address === ethers.ZeroAddress) {
+      errors.push(`Invalid wallet address for ${chain}: ${address}`);
+    }
+  }
+
+  if (client.defaultCurrency && !(client.defaultCurrency in CURRENCY_DECIMALS)) {
+    errors.push(`Unsupported currency: ${client.defaultCurrency}`);
+  }
+
+  const terms = client.defaultTerms;
+  if (terms?.paymentWindow !== undefined && (terms.paymentWindow < 1 || terms.paymentWindow > 90)) {
+    errors.push("Payment window must be between 1 and 90 days");
+  }
+  if (terms?.earlyPaymentDiscountBps !== undefined && (terms.earlyPaymentDiscountBps < 0 || terms.earlyPaymentDiscountBps > 1000)) {
+    errors.push("Early payment discount must be between 0% and 10%");
+  }
+
+  return errors;
+}
+
+function normalizeClient(input: ClientInput): ClientInput {
+  return {
+    ...input,
+    name: input.name?.trim(),
+    email: input.email?.trim().toLowerCase() || undefined,
+    wallets: normalizeWallets(input.wallets),
+    defaultCurrency: input.defaultCurrency?.toUpperCase() || undefined,
+    billingAddress: input.billingAddress?.trim() || undefined,
+    taxId: input.taxId?.trim().toUpperCase() || undefined
+  };
+}
+
+// Checksummed addresses, lowercase chain names
+function normalizeWallets(wallets: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(wallets).map(([chain, address]) => [
+    chain.trim().toLowerCase(),
+    ethers.isAddress(address) ? ethers.getAddress(address) : address
+  ]));
+}
+
+function containsPhrase(haystack: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`).test(haystack);
+}
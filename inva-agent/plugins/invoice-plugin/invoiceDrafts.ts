@@ -0,0 +1,235 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { ethers } from "ethers";
+import { createHash, randomBytes } from 'crypto';
+import { findAmount } from '../../src/services/money.ts';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { InvoiceRequest } from './types.ts';
+
+// deploying: a DEPLOY_INVOICE confirmation is in flight; guards against deploying twice
+export type DraftStatus = 'draft' | 'deploying' | 'deployed';
+
+export interface InvoiceDraft {
+  id: string;
+  ownerId: string;
+  status: DraftStatus;
+  request: InvoiceRequest;
+  revision: number; // bumped on every edit
+  idempotencyKey?: string; // the submission it was created from, so a retried submission finds it again
+  invoiceId?: string | number;
+  txHash?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  deployedAt?: string;
+}
+
+export interface DraftEdit {
+  amount?: string;
+  clientAddress?: string;
+  clientName?: string; // an address book entry; resolved to clientAddress before the edit is applied
+  currency?: string;
+  description?: string;
+  paymentWindow?: number;
+  earlyPaymentDiscountBps?: number;
+  requiresApproval?: boolean;
+}
+
+/**
+ * Generated invoices start here: persisted, editable drafts that only reach the
+ * blockchain once the provider explicitly confirms the deployment.
+ */
+export default class InvoiceDrafts {
+  private store: RuntimeStore<InvoiceDraft>;
+
+  constructor(runtime: IAgentRuntime) {
+    this.store = new RuntimeStore<InvoiceDraft>(runtime, 'invoice-drafts');
+  }
+
+  /**
+   * With an idempotency key the draft ID is derived from it, so repeating the submission returns
+   * the draft (and any deployment) the first one created instead of adding another
+   */
+  async create(ownerId: string, request: InvoiceRequest, idempotencyKey?: string): Promise<InvoiceDraft> {
+    const now = new Date().toISOString();
+    const draft: InvoiceDraft = {
+      id: idempotencyKey ? draftIdForKey(ownerId, idempotencyKey) : `draft-${randomBytes(4).toString('hex')}`,
+      ownerId,
+      status: 'draft',
+      request,
+      revision: 1,
+      idempotencyKey,
+      createdAt: now,
+      updatedAt: now
+    };
+    if (!idempotencyKey) {
+      return this.store.set(draft.id, draft);
+    }
+
+    const created = await this.store.update(draft.id, existing => existing ? undefined : draft);
+    return created || (await this.store.get(draft.id))!;
+  }
+
+  async get(ownerId: string, id: string): Promise<InvoiceDraft | undefined> {
+    const draft = await this.store.get(id);
+    return draft && draft.ownerId === ownerId ? draft : undefined;
+  }
+
+  async list(ownerId: string, status?: DraftStatus): Promise<InvoiceDraft[]> {
+    const drafts = await this.store.list(draft => draft.ownerId === ownerId && (!status || draft.status === status));
+    return drafts.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+  }
+
+  /**
+   * The draft a follow-up message refers to: the named one, or else the most recently touched open draft
+   */
+  async resolve(ownerId: string, id?: string): Promise<InvoiceDraft> {
+    const draft = id ? await this.get(ownerId, id) : (await this.list(ownerId, 'draft')).pop();
+    if (!draft) {
+      throw new Error(id ? `Draft not found: ${id}` : 'No open invoice draft. Generate an invoice first.');
+    }
+    return draft;
+  }
+
+  async edit(ownerId: string, id: string, edit: DraftEdit, metadata: Record<string, any> = {}): Promise<InvoiceDraft> {
+    return this.transition(ownerId, id, 'draft', draft => {
+      const edited = applyDraftEdit(draft.request, edit);
+      const request = { ...edited, metadata: { ...edited.metadata, ...metadata } };
+      return { ...draft, request, revision: draft.revision + 1 };
+    });
+  }
+
+  /**
+   * Claims a draft for deployment. Only one confirmation can win; the others see it as deploying.
+   */
+  async beginDeploy(ownerId: string, id: string): Promise<InvoiceDraft> {
+    return this.transition(ownerId, id, 'draft', draft => ({ ...draft, status: 'deploying', lastError: undefined }));
+  }
+
+  async completeDeploy(ownerId: string, id: string, invoice: { id: string | number; txHash?: string }): Promise<InvoiceDraft> {
+    return this.transition(ownerId, id, 'deploying', draft => ({
+      ...draft,
+      status: 'deployed',
+      invoiceId: invoice.id,
+      txHash: invoice.txHash,
+      deployedAt: new Date().toISOString()
+    }));
+  }
+
+  // Deployment failed: the draft goes back to being editable
+  async failDeploy(ownerId: string, id: string, reason: string): Promise<InvoiceDraft> {
+    return this.transition(ownerId, id, 'deploying', draft => ({ ...draft, status: 'draft', lastError: reason }));
+  }
+
+  private async transition(
+    ownerId: string,
+    id: string,
+    expected: DraftStatus,
+    change: (draft: InvoiceDraft) => InvoiceDraft
+  ): Promise<InvoiceDraft> {
+    let failure: Error | undefined;
+
+    const updated = await this.store.update(id, draft => {
+      if (!draft || draft.ownerId !== ownerId) {
+        failure = new Error(`Draft not found: ${id}`);
+        return undefined;
+      }
+      if (draft.status !== expected) {
+        failure = new Error(`Draft ${id} is ${draft.status}`);
+        return undefined;
+      }
+      return { ...change(draft), updatedAt: new Date().toISOString() };
+    });
+
+    if (!updated) {
+      throw failure || new Error(`Draft not found: ${id}`);
+    }
+    return updated;
+  }
+}
+
+function draftIdForKey(ownerId: string, idempotencyKey: string): string {
+  return `draft-${createHash('sha256').update(`${ownerId}|${idempotencyKey}`).digest('hex').slice(0, 8)}`;
+}
+
+export function applyDraftEdit(request: InvoiceRequest, edit: DraftEdit): InvoiceRequest {
+  const updated: InvoiceRequest = {
+    ...request,
+    paymentTerms: { ...request.paymentTerms },
+    metadata: { ...request.metadata }
+  };
+
+  if (edit.amount !== undefined) {
+    updated.amount = edit.amount;
+    // Extracted line items priced the old amount; let the template split the new one instead
+    updated.lineItems = undefined;
+    delete updated.metadata.lineItemExtraction;
+  }
+  if (edit.clientAddress !== undefined) {
+    updated.clientAddress = edit.clientAddress;
+    delete updated.metadata.client; // a new wallet no longer matches the address book entry
+  }
+  if (edit.currency !== undefined) updated.currency = edit.currency;
+  if (edit.description !== undefined) updated.description = edit.description;
+  if (edit.paymentWindow !== undefined) updated.paymentTerms!.paymentWindow = edit.paymentWindow;
+  if (edit.earlyPaymentDiscountBps !== undefined) updated.paymentTerms!.earlyPaymentDiscountBps = edit.earlyPaymentDiscountBps;
+  if (edit.requiresApproval !== undefined) updated.paymentTerms!.requiresApproval = edit.requiresApproval;
+
+  return updated;
+}
+
+/**
+ * Reads edits from follow-up messages, e.g. "change the amount to 4500", "set client to 0x…", "net 15", "no approval"
+ */
+export function parseDraftEdit(text: string): DraftEdit {
+  const edit: DraftEdit = {};
+
+  const amountMatch = text.match(/\b(?:amount|price|total)\s+(?:to|=|:|is)?\s*(\$?\s*[\d,]+(?:\.\d+)?)/i);
+  if (amountMatch) {
+    edit.amount = findAmount(amountMatch[1]) || undefined;
+  }
+
+  const clientMatch = text.match(/\b(?:client|recipient|bill to|address)\b[^0-9a-z]*(?:\w+\s+){0,2}?(0x[a-fA-F0-9]{40})/i);
+  if (clientMatch && ethers.isAddress(clientMatch[1])) {
+    edit.clientAddress = clientMatch[1];
+  } else {
+    const clientNameMatch = text.match(/\b(?:client|bill)\s+(?:to|is)\s+["']?([^"',.;]+?)["']?\s*(?=$|[,.;]|\s+and\b)/i);
+    if (clientNameMatch) edit.clientName = clientNameMatch[1].trim();
+  }
+
+  const currencyMatch = text.match(/\b(?:currency|pay(?:able)? in|bill in)\s+(?:to\s+)?(USDC|USDT|USD|SEI)\b/i);
+  if (currencyMatch) {
+    edit.currency = currencyMatch[1].toUpperCase();
+  }
+
+  const descriptionMatch = text.match(/\bdescription\s+(?:to\s+)?["']([^"']+)["']/i);
+  if (descriptionMatch) {
+    edit.description = descriptionMatch[1].trim();
+  }
+
+  const windowMatch = text.match(/\bnet\s*(\d{1,3})\b|\b(?:payment window|terms|due in)\s+(?:to\s+)?(\d{1,3})\s*days?\b/i);
+  if (windowMatch) {
+    edit.paymentWindow = parseInt(windowMatch[1] || windowMatch[2]);
+  }
+
+  if (/\bno (?:early[\s-]payment )?discount\b/i.test(text)) {
+    edit.earlyPaymentDiscountBps = 0;
+  } else {
+    const discountMatch = text.match(/\b(?:discount)\s+(?:to\s+)?(\d+(?:\.\d+)?)\s*%/i) || text.match(/(\d+(?:\.\d+)?)\s*%\s+(?:early[\s-]payment\s+)?discount/i);
+    if (discountMatch) {
+      edit.earlyPaymentDiscountBps = Math.round(parseFloat(discountMatch[1]) * 100);
+    }
+  }
+
+  if (/\b(?:no|without|don'?t require|remove)\s+(?:client\s+)?approval\b/i.test(text)) {
+    edit.requiresApproval = false;
+  } else if (/\b(?:require|requires|needs?|with)\s+(?:client\s+)?approval\b/i.test(text)) {
+    edit.requiresApproval = true;
+  }
+
+  return edit;
+}
+
+export function extractDraftId(text: string): string | undefined {
+  const match = text.match(/\b(draft-[a-f0-9]+)\b/i);
+  return match ? match[1].toLowerCase() : undefined;
+}
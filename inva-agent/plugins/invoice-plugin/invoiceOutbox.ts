@@ -0,0 +1,228 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { randomBytes } from 'crypto';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { InvoiceRequest } from './types.ts';
+
+// pending: waiting for its next attempt; submitting: an attempt is in flight
+export type OutboxStatus = 'pending' | 'submitting' | 'confirmed' | 'failed';
+
+// An invoice whose metadata is pinned and ready to go on-chain
+export interface PreparedInvoice {
+  request: InvoiceRequest;
+  ipfsData: any;
+  ipfsHash: string;
+}
+
+// Saved before a direct deploy sends its transaction, so a retry can find the invoice if it landed
+export interface SubmissionCheckpoint {
+  prepared: PreparedInvoice;
+  fromBlock: number;
+}
+
+export interface OutboxEntry {
+  id: string; // temporary ID handed out until the escrow assigns the real one
+  ownerId?: string;
+  request: InvoiceRequest;
+  prepared?: PreparedInvoice; // kept across attempts so every retry carries the same ipfsHash
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  fromBlock?: number; // where to start looking for an InvoiceCreated event from an earlier attempt
+  lastError?: string;
+  invoiceId?: string;
+  txHash?: string;
+  createdAt: string;
+  updatedAt: string;
+  confirmedAt?: string;
+}
+
+// What the outbox needs from InvoiceService
+export interface InvoiceDeployer {
+  prepareInvoice(request: InvoiceRequest): Promise<PreparedInvoice>;
+  submitInvoice(prepared: PreparedInvoice): Promise<any>;
+  findCreatedInvoice(ipfsHash: string, clientAddress: string, fromBlock: number): Promise<{ invoiceId: string; txHash: string } | null>;
+  getBlockNumber(): Promise<number>;
+}
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const STALE_SUBMIT_MS = 10 * 60 * 1000; // a submission this old was interrupted (e.g. by a restart)
+const LOOKBACK_BLOCKS = 2000; // covers the failed attempt made just before the invoice was queued
+
+/**
+ * Durable outbox for invoices that could not be created on-chain. Retries with exponential
+ * backoff; before every resubmission it checks whether an earlier attempt landed after all
+ * (matched by the pinned ipfsHash in InvoiceCreated), so an invoice is never created twice.
+ */
+export default class InvoiceOutbox {
+  private store: RuntimeStore<OutboxEntry>;
+  private deployer: InvoiceDeployer;
+  private running = false;
+
+  constructor(runtime: IAgentRuntime, deployer: InvoiceDeployer) {
+    this.store = new RuntimeStore<OutboxEntry>(runtime, 'invoice-outbox');
+    this.deployer = deployer;
+  }
+
+  async enqueue(request: InvoiceRequest, prepared: PreparedInvoice | undefined, error: string, ownerId?: string): Promise<OutboxEntry> {
+    const now = new Date();
+    const entry: OutboxEntry = {
+      id: `pending-${randomBytes(4).toString('hex')}`,
+      ownerId,
+      request,
+      prepared,
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: new Date(now.getTime() + backoff(1)).toISOString(),
+      fromBlock: await this.lookbackBlock(),
+      lastError: error,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+    return this.store.set(entry.id, entry);
+  }
+
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    return this.store.get(id);
+  }
+
+  async list(ownerId: string, statuses?: OutboxStatus[]): Promise<OutboxEntry[]> {
+    const entries = await this.store.list(entry =>
+      entry.ownerId === ownerId && (!statuses || statuses.includes(entry.status))
+    );
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Gives a failed (or waiting) entry another attempt right away
+   */
+  async retryNow(ownerId: string, id: string): Promise<OutboxEntry> {
+    const entry = await this.store.get(id);
+    if (!entry || entry.ownerId !== ownerId) {
+      throw new Error(`Queued invoice not found: ${id}`);
+    }
+    if (entry.status !== 'pending' && entry.status !== 'failed') {
+      throw new Error(`Invoice ${id} is ${entry.status}`);
+    }
+
+    const claimed = await this.claim(id, new Date(), true);
+    return claimed ? this.attempt(claimed) : (await this.store.get(id))!;
+  }
+
+  /**
+   * Attempts every entry whose backoff has elapsed. Safe to call repeatedly; runs never overlap.
+   */
+  async retryDue(now: Date = new Date()): Promise<OutboxEntry[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    const results: OutboxEntry[] = [];
+    try {
+      const due = await this.store.list(entry => isDue(entry, now));
+      for (const entry of due) {
+        const claimed = await this.claim(entry.id, now);
+        if (claimed) {
+          results.push(await this.attempt(claimed));
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return results;
+  }
+
+  // Moves an entry to submitting unless another run got there first
+  private async claim(id: string, now: Date, force: boolean = false): Promise<OutboxEntry | undefined> {
+    return this.store.update(id, entry => {
+      if (!entry || !(isDue(entry, now) || (force && (entry.status === 'pending' || entry.status === 'failed')))) {
+        return undefined;
+      }
+      return { ...entry, status: 'submitting', updatedAt: now.toISOString() };
+    });
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<OutboxEntry> {
+    const attempts = entry.attempts + 1;
+    let prepared = entry.prepared;
+    let fromBlock = entry.fromBlock;
+
+    try {
+      // An earlier attempt may have landed even though it reported an error
+      let existing: { invoiceId: string; txHash: string } | null = null;
+      if (prepared) {
+        fromBlock = fromBlock ?? await this.lookbackBlock();
+        if (fromBlock === undefined) {
+          throw new Error('Cannot reach the chain to check for an earlier submission');
+        }
+        existing = await this.deployer.findCreatedInvoice(prepared.ipfsHash, entry.request.clientAddress, fromBlock);
+      } else {
+        prepared = await this.deployer.prepareInvoice(entry.request);
+        fromBlock = fromBlock ?? await this.lookbackBlock();
+      }
+
+      let created = existing;
+      if (!created) {
+        // Persist the pinned metadata before sending, so a crash mid-submit can still be reconciled
+        await this.store.update(entry.id, current => current && { ...current, prepared, fromBlock });
+        const invoice = await this.deployer.submitInvoice(prepared);
+        created = { invoiceId: invoice.id, txHash: invoice.txHash };
+      }
+      console.log(`✅ Reconciled ${entry.id} → on-chain invoice ${created.invoiceId}`);
+
+      return this.save({
+        ...entry,
+        prepared,
+        fromBlock,
+        status: 'confirmed',
+        attempts,
+        invoiceId: String(created.invoiceId),
+        txHash: created.txHash,
+        nextAttemptAt: undefined,
+        lastError: undefined,
+        confirmedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      const failed = attempts >= MAX_ATTEMPTS;
+      console.error(`❌ Attempt ${attempts} for ${entry.id} failed${failed ? ', giving up' : ''}:`, error.message);
+
+      return this.save({
+        ...entry,
+        prepared,
+        fromBlock,
+        status: failed ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: failed ? undefined : new Date(Date.now() + backoff(attempts)).toISOString(),
+        lastError: error.message
+      });
+    }
+  }
+
+  private async lookbackBlock(): Promise<number | undefined> {
+    try {
+      return Math.max(0, await this.deployer.getBlockNumber() - LOOKBACK_BLOCKS);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async save(entry: OutboxEntry): Promise<OutboxEntry> {
+    return this.store.set(entry.id, { ...entry, updatedAt: new Date().toISOString() });
+  }
+}
+
+function isDue(entry: OutboxEntry, now: Date): boolean {
+  if (entry.status === 'pending') {
+    return !entry.nextAttemptAt || new Date(entry.nextAttemptAt) <= now;
+  }
+  return entry.status === 'submitting' && now.getTime() - new Date(entry.updatedAt).getTime() > STALE_SUBMIT_MS;
+}
+
+// 1m, 2m, 4m, … capped at an hour, with up to 10% jitter so queued invoices don't retry in lockstep
+function backoff(attempts: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
@@ -1,56 +1,38 @@
-import { Plugin, IAgentRuntime, Memory, Action, Evaluator, HandlerCallback } from "@elizaos/core";
+import { Plugin, IAgentRuntime, Memory, Action, Evaluator, HandlerCallback, Service } from "@elizaos/core";
 import { ethers } from "ethers";
 import BlockchainService from '../../src/services/blockchainService.ts';
 import contractData from '../../src/services/sei-testnet.json';
-
-interface InvoiceRequest {
-  clientAddress: string;
-  amount: string;
-  currency: string;
-  description: string;
-  paymentTerms?: {
-    paymentWindow?: number; // days
-    earlyPaymentDiscountBps?: number;
-    requiresApproval?: boolean;
-  };
-  dueDate?: string;
-  metadata?: any;
-}
-
-interface InvoiceTemplate {
-  id: string;
-  name: string;
-  description: string;
-  defaultTerms: PaymentTerms;
-  lineItems: LineItem[];
-  customFields: CustomField[];
-}
-
-interface LineItem {
-  description: string;
-  quantity: number;
-  unitPrice: number;
-  total: number;
-  category?: string;
-}
-
-interface CustomField {
-  name: string;
-  value: string;
-  type: 'text' | 'number' | 'date' | 'boolean';
-}
-
-interface PaymentTerms {
-  paymentWindow: number;
-  earlyPaymentDiscountBps: number;
-  requiresApproval: boolean;
-  currency: string;
-}
+import MetadataStore from '../../src/services/metadataStore.ts';
+import TokenRegistry from '../../src/services/tokenRegistry.ts';
+import ExchangeRates, { RateSnapshot } from '../../src/services/exchangeRates.ts';
+import { INVOICE_ESCROW_ABI } from '../../src/services/contractAbis.ts';
+import Money, { CURRENCY_DECIMALS, findAmount } from '../../src/services/money.ts';
+import { invoiceArbitrator } from '../../src/services/disputeRoles.ts';
+import IdempotencyStore, { IdempotentAttempt, EXPLICIT_KEY_TTL_MS, deriveInvoiceKey, idempotencyWindowMs, scopeIdempotencyKey } from '../../src/services/idempotencyStore.ts';
+import LineItemExtractor from './lineItemExtractor.ts';
+import TaxEngine, { TAX_JURISDICTIONS, TaxBreakdown, parseTaxContext } from './taxEngine.ts';
+import TemplateRegistry from './templateRegistry.ts';
+import RecurringScheduler, { Cadence, RecurringSchedule, RecurringScheduleInput, describeCadence } from './recurringSchedules.ts';
+import ClientDirectory, { ClientInput, DEFAULT_CHAIN, applyClientDefaults, clientReference, walletFor } from './clientDirectory.ts';
+import InvoiceOutbox, { OutboxEntry, PreparedInvoice, SubmissionCheckpoint } from './invoiceOutbox.ts';
+import InvoiceDrafts, { DraftEdit, InvoiceDraft, extractDraftId, parseDraftEdit } from './invoiceDrafts.ts';
+import MilestonePlanner, { MilestoneInput, MilestonePlan, MilestonePlanInput, calculateProgress } from './milestonePlans.ts';
+import { Client, CustomField, InvoiceRequest, InvoiceTemplate, LineItem, PaymentTerms, TaxPreviewRequest } from './types.ts';
 
 class InvoiceService {
   private runtime: IAgentRuntime;
-  private templates: Map<string, InvoiceTemplate> = new Map();
+  private templates: TemplateRegistry;
+  private lineItemExtractor: LineItemExtractor;
   private blockchainService: BlockchainService;
+  private metadataStore: MetadataStore;
+  private tokens: TokenRegistry;
+  private rates: ExchangeRates;
+  private taxEngine: TaxEngine;
+  private provider: ethers.JsonRpcProvider;
+  private escrow: ethers.Contract;
+  private clients: ClientDirectory;
+  private outbox: InvoiceOutbox;
+  private issued: IdempotencyStore<any, SubmissionCheckpoint>;
   
   constructor(runtime: IAgentRuntime) {
     this.runtime = runtime;
@@ -63,8 +45,21 @@ class InvoiceService {
       chainId: parseInt(process.env.CHAIN_ID || '1328')
     });
     
+    // Read-only view of the escrow for tracking invoice status and events
+    this.provider = new ethers.JsonRpcProvider(process.env.SEI_RPC_URL || 'https://evm-rpc-testnet.sei-apis.com');
+    this.escrow = new ethers.Contract(contractData.contracts.InvoiceEscrow, INVOICE_ESCROW_ABI, this.provider);
+    
+    this.metadataStore = MetadataStore.fromEnv();
+    this.tokens = TokenRegistry.shared();
+    this.rates = ExchangeRates.shared();
+    this.taxEngine = TaxEngine.fromEnv();
+    this.templates = new TemplateRegistry(runtime);
+    this.clients = new ClientDirectory(runtime);
+    this.outbox = new InvoiceOutbox(runtime, this);
+    this.issued = new IdempotencyStore<any, SubmissionCheckpoint>(runtime, 'invoices');
+    this.lineItemExtractor = new LineItemExtractor(runtime);
+    
     this.initializeService();
-    this.initializeDefaultTemplates();
   }
   
   async initializeService(): Promise<void> {
@@ -78,113 +73,23 @@ class InvoiceService {
 
   // Constructor moved above - this duplicate removed
 
-  private initializeDefaultTemplates() {
-    // Web Development Template
-    this.templates.set('web-dev', {
-      id: 'web-dev',
-      name: 'Web Development Services',
-      description: 'Template for web development projects',
-      defaultTerms: {
-        paymentWindow: 30,
-        earlyPaymentDiscountBps: 200, // 2%
-        requiresApproval: false,
-        currency: 'USD'
-      },
-      lineItems: [
-        {
-          description: 'Frontend Development',
-          quantity: 1,
-          unitPrice: 0,
-          total: 0,
-          category: 'development'
-        },
-        {
-          description: 'Backend Development',
-          quantity: 1,
-          unitPrice: 0,
-          total: 0,
-          category: 'development'
-        }
-      ],
-      customFields: [
-        { name: 'Project Name', value: '', type: 'text' },
-        { name: 'Completion Date', value: '', type: 'date' },
-        { name: 'Repository URL', value: '', type: 'text' }
-      ]
-    });
-
-    // Consulting Template
-    this.templates.set('consulting', {
-      id: 'consulting',
-      name: 'Consulting Services',
-      description: 'Template for consulting work',
-      defaultTerms: {
-        paymentWindow: 15,
-        earlyPaymentDiscountBps: 300, // 3%
-        requiresApproval: true,
-        currency: 'USD'
-      },
-      lineItems: [
-        {
-          description: 'Consulting Hours',
-          quantity: 0,
-          unitPrice: 150,
-          total: 0,
-          category: 'consulting'
-        }
-      ],
-      customFields: [
-        { name: 'Consultation Period', value: '', type: 'text' },
-        { name: 'Deliverables', value: '', type: 'text' }
-      ]
-    });
-
-    // Design Template
-    this.templates.set('design', {
-      id: 'design',
-      name: 'Design Services',
-      description: 'Template for design projects',
-      defaultTerms: {
-        paymentWindow: 21,
-        earlyPaymentDiscountBps: 250, // 2.5%
-        requiresApproval: false,
-        currency: 'USD'
-      },
-      lineItems: [
-        {
-          description: 'Design Concepts',
-          quantity: 1,
-          unitPrice: 0,
-          total: 0,
-          category: 'design'
-        },
-        {
-          description: 'Revisions',
-          quantity: 3,
-          unitPrice: 0,
-          total: 0,
-          category: 'design'
-        }
-      ],
-      customFields: [
-        { name: 'Design Type', value: '', type: 'text' },
-        { name: 'Brand Guidelines', value: '', type: 'text' }
-      ]
-    });
-  }
-
-  async generateInvoiceFromDescription(description: string): Promise<InvoiceRequest> {
+  async generateInvoiceFromDescription(description: string, ownerId?: string): Promise<InvoiceRequest> {
     try {
-      // Simple parsing logic - can be enhanced with better NLP
-      const amount = this.extractAmount(description);
-      const serviceType = this.detectServiceType(description);
-      const template = this.templates.get(serviceType) || this.templates.get('web-dev');
+      const serviceType = await this.selectTemplateId(description);
+      const template = await this.templates.get(serviceType) || await this.templates.get('web-dev');
+      const extraction = await this.lineItemExtractor.extract(description, template!.defaultTerms.currency);
       
-      return {
-        clientAddress: ethers.ZeroAddress, // Will be set later
-        amount: amount.toString(),
+      // Priced line items define the amount; otherwise fall back to a single stated figure
+      const hasLineItems = extraction.lineItems.length > 0;
+      const amount = hasLineItems ? extraction.subtotal : this.extractAmount(description);
+      
+      const request: InvoiceRequest = {
+        clientAddress: description.match(/0x[a-fA-F0-9]{40}/)?.[0] || ethers.ZeroAddress, // Usually set later on the draft
+        amount,
         currency: template!.defaultTerms.currency,
         description: description,
+        lineItems: hasLineItems ? extraction.lineItems : undefined,
+        tax: parseTaxContext(description),
         paymentTerms: {
           paymentWindow: template!.defaultTerms.paymentWindow,
           earlyPaymentDiscountBps: template!.defaultTerms.earlyPaymentDiscountBps,
@@ -193,29 +98,49 @@ class InvoiceService {
         metadata: {
           template: serviceType,
           generatedAt: Date.now(),
-          aiGenerated: true
+          aiGenerated: true,
+          lineItemExtraction: {
+            source: extraction.source,
+            statedTotal: extraction.statedTotal,
+            mismatch: extraction.mismatch
+          }
         }
       };
+      
+      // "Invoice Acme Corp for…": fill in the wallet and defaults from the provider's address book
+      const client = ownerId && request.clientAddress === ethers.ZeroAddress
+        ? await this.clients.findMentioned(ownerId, description)
+        : undefined;
+      return client ? applyClientDefaults(request, client) : request;
     } catch (error) {
       throw new Error(`Failed to generate invoice from description: ${error.message}`);
     }
   }
 
-  private extractAmount(description: string): number {
+  private extractAmount(description: string): string {
     // Extract amount from description
-    const amountRegex = /\$?(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/;
-    const match = description.match(amountRegex);
+    const amount = findAmount(description);
     
-    if (match) {
-      return parseFloat(match[1].replace(',', ''));
+    if (amount) {
+      return amount;
     }
     
     // Default amount based on service type
-    if (description.toLowerCase().includes('consulting')) return 1500;
-    if (description.toLowerCase().includes('design')) return 2500;
-    if (description.toLowerCase().includes('development')) return 5000;
+    if (description.toLowerCase().includes('consulting')) return '1500';
+    if (description.toLowerCase().includes('design')) return '2500';
+    if (description.toLowerCase().includes('development')) return '5000';
     
-    return 1000; // Default
+    return '1000'; // Default
+  }
+
+  private async selectTemplateId(description: string): Promise<string> {
+    // An explicitly named template ("using template retainer") wins over keyword detection
+    const explicit = description.match(/template\s+["']?([a-z0-9][a-z0-9-]+)/i);
+    if (explicit && await this.templates.get(explicit[1].toLowerCase())) {
+      return explicit[1].toLowerCase();
+    }
+
+    return this.detectServiceType(description);
   }
 
   private detectServiceType(description: string): string {
@@ -259,7 +184,7 @@ class InvoiceService {
       if (projectContext.urgency === 'high') {
         optimizedTerms.earlyPaymentDiscountBps += 100; // Extra incentive for urgent projects
       }
-      if (projectContext.amount > 10000) {
+      if (projectContext.amount && projectContext.amount.greaterThan(Money.parse(10000, projectContext.amount.currency))) {
         optimizedTerms.requiresApproval = true; // Large amounts require approval
       }
     }
@@ -267,127 +192,332 @@ class InvoiceService {
     return optimizedTerms;
   }
 
-  async createDetailedInvoice(request: InvoiceRequest): Promise<any> {
-    try {
-      console.log('📝 Creating blockchain invoice...', request);
-      
-      // Validate the request
-      const validation = await this.validateInvoiceData(request);
-      if (!validation.valid) {
-        throw new Error(`Invalid invoice data: ${validation.errors.join(', ')}`);
+  /**
+   * Deploys to the escrow when possible. If the chain is unavailable the invoice is queued in the
+   * outbox and returned as pending (temporary ID, onChain: false) until a retry lands it.
+   * Used by automated issuing (recurring schedules) where a failure must not block billing.
+   * Repeats of the same request (see invoiceIdempotencyKey) return the first invoice, flagged replayed.
+   */
+  async createDetailedInvoice(request: InvoiceRequest, ownerId?: string, idempotencyKey?: string): Promise<any> {
+    // Invalid data will not get better by retrying
+    const validation = await this.validateInvoiceData(request);
+    if (!validation.valid) {
+      throw new Error(`Invalid invoice data: ${validation.errors.join(', ')}`);
+    }
+    
+    const { key, ttlMs } = this.invoiceIdempotencyKey(request, ownerId, idempotencyKey);
+    const { result, replayed } = await this.issued.run(key, ttlMs, async () => {
+      let prepared: PreparedInvoice | undefined;
+      try {
+        prepared = await this.prepareInvoice(request);
+        return await this.submitInvoice(prepared);
+      } catch (error) {
+        console.error('❌ Error creating blockchain invoice:', error);
+        
+        console.log('📥 Queueing invoice for on-chain retry...');
+        const entry = await this.outbox.enqueue(request, prepared, error.message, ownerId);
+        return this.createPendingInvoice(entry);
       }
-      
-      const template = this.templates.get(request.metadata?.template || 'web-dev');
-      
-      // Prepare payment terms for blockchain
-      const paymentWindow = request.paymentTerms?.paymentWindow || 30;
-      const earlyPaymentDiscountBps = request.paymentTerms?.earlyPaymentDiscountBps || 200;
-      const requiresApproval = request.paymentTerms?.requiresApproval || false;
-      
-      // Calculate early payment deadline (half of payment window)
-      const earlyPaymentDeadline = Math.floor(Date.now() / 1000) + (paymentWindow * 24 * 60 * 60 / 2);
-      
-      // Get token address (default to zero address for native SEI)
-      const tokenAddress = request.currency === 'USDC' 
-        ? contractData.config.supportedTokens.USDC 
-        : ethers.ZeroAddress;
-      
-      // Create IPFS metadata
-      const ipfsData = {
-        title: `Invoice for ${request.description}`,
-        description: request.description,
-        amount: request.amount,
-        currency: request.currency,
-        clientAddress: request.clientAddress,
-        paymentTerms: {
-          paymentWindow,
-          earlyPaymentDiscountBps,
-          requiresApproval
-        },
-        lineItems: this.generateLineItems(request, template),
-        createdAt: new Date().toISOString(),
-        template: template?.name
-      };
-      
-      // For now, use a mock IPFS hash (in production, upload to IPFS)
-      const ipfsHash = `QmMock${Date.now()}`;
-      
-      // Create invoice on blockchain
-      const blockchainParams = {
-        clientAddress: request.clientAddress,
-        amount: request.amount,
-        token: tokenAddress,
-        paymentTerms: {
-          paymentWindow: paymentWindow,
-          earlyPaymentDiscountBps: earlyPaymentDiscountBps,
-          earlyPaymentDeadline: earlyPaymentDeadline,
-          requiresApproval: requiresApproval,
-          arbitrator: contractData.deployer // Use deployer as arbitrator
-        },
-        ipfsHash: ipfsHash
-      };
-      
-      console.log('🔗 Calling blockchain service...', blockchainParams);
-      const blockchainResult = await this.blockchainService.createInvoice(blockchainParams);
-      
-      const invoice = {
-        id: blockchainResult.invoiceId,
-        txHash: blockchainResult.txHash,
+    });
+    
+    return replayed ? this.replayInvoice(key, result) : result;
+  }
+  
+  // Everything deployInvoice would commit to, without pinning metadata or sending a transaction
+  async previewInvoice(request: InvoiceRequest): Promise<any> {
+    const template = await this.templates.get(request.metadata?.template || 'web-dev');
+    const paymentTerms = this.resolvePaymentTerms(request);
+    const lineItems = this.generateLineItems(request, template);
+    const tax = this.calculateTax(request, lineItems);
+    
+    return {
+      clientAddress: request.clientAddress,
+      amount: tax.total,
+      subtotal: tax.subtotal,
+      currency: request.currency,
+      description: request.description,
+      paymentTerms,
+      lineItems,
+      tax,
+      metadata: {
+        ...request.metadata,
+        template: template?.name,
+        dueDate: this.calculateDueDate(paymentTerms.paymentWindow)
+      },
+      validation: await this.validateInvoiceData(request),
+      onChain: false
+    };
+  }
+  
+  async deployInvoice(request: InvoiceRequest, ownerId?: string, idempotencyKey?: string): Promise<any> {
+    try {
+      const { key, ttlMs } = this.invoiceIdempotencyKey(request, ownerId, idempotencyKey);
+      const { result, replayed } = await this.issued.run(key, ttlMs, attempt => this.submitOnce(request, attempt));
+      return replayed ? this.replayInvoice(key, result) : result;
+    } catch (error) {
+      throw new Error(`Failed to deploy invoice: ${error.message}`);
+    }
+  }
+  
+  /**
+   * The key a creation is deduplicated under: the caller's own (scoped to the provider and kept for a day),
+   * or one derived from provider, client, amount, currency and description that holds for a short window
+   */
+  private invoiceIdempotencyKey(request: InvoiceRequest, ownerId?: string, idempotencyKey?: string): { key: string; ttlMs: number } {
+    const providerId = ownerId || this.runtime.agentId;
+    if (idempotencyKey) {
+      return { key: scopeIdempotencyKey(providerId, idempotencyKey), ttlMs: EXPLICIT_KEY_TTL_MS };
+    }
+    
+    return {
+      key: deriveInvoiceKey({
+        providerId,
         clientAddress: request.clientAddress,
-        amount: parseFloat(request.amount),
+        amount: Money.parse(request.amount, request.currency).toDecimalString(),
         currency: request.currency,
-        description: request.description,
-        paymentTerms: {
-          paymentWindow,
-          earlyPaymentDiscountBps,
-          requiresApproval
-        },
-        lineItems: this.generateLineItems(request, template),
-        metadata: {
-          ...request.metadata,
-          template: template?.name,
-          createdAt: new Date().toISOString(),
-          dueDate: this.calculateDueDate(paymentWindow),
-          blockchain: {
-            contractAddress: contractData.contracts.InvoiceEscrow,
-            network: 'sei-testnet',
-            chainId: 1328
-          }
-        },
-        ipfsData,
-        ipfsHash,
-        onChain: true
-      };
-      
-      console.log('✅ Invoice created on blockchain:', invoice);
-      return invoice;
-      
+        description: request.description
+      }),
+      ttlMs: idempotencyWindowMs()
+    };
+  }
+  
+  // A repeat gets the original invoice; one that was queued reports its on-chain ID once the outbox landed it
+  private async replayInvoice(key: string, invoice: any): Promise<any> {
+    console.log(`♻️ Duplicate invoice request, returning invoice ${invoice.id}`);
+    
+    let current = invoice;
+    if (!invoice.onChain) {
+      const entry = await this.outbox.get(invoice.id);
+      if (entry?.status === 'confirmed') {
+        current = { ...invoice, id: entry.invoiceId, txHash: entry.txHash, ipfsHash: entry.prepared?.ipfsHash, reconciliation: undefined, onChain: true };
+        await this.issued.updateResult(key, current);
+      } else if (entry) {
+        current = await this.createPendingInvoice(entry);
+      }
+    }
+    
+    return { ...current, replayed: true };
+  }
+  
+  /**
+   * Submits under an idempotency claim. The pinned metadata is checkpointed before the transaction
+   * goes out, so when an attempt fails after that (e.g. a receipt timeout) the retry first looks for
+   * its InvoiceCreated event by ipfsHash, as the outbox does, instead of creating a second invoice.
+   */
+  private async submitOnce(request: InvoiceRequest, attempt: IdempotentAttempt<SubmissionCheckpoint>): Promise<any> {
+    if (attempt.checkpoint) {
+      const { prepared, fromBlock } = attempt.checkpoint;
+      const existing = await this.findCreatedInvoice(prepared.ipfsHash, prepared.request.clientAddress, fromBlock);
+      if (existing) {
+        console.log(`♻️ Earlier submission landed as invoice ${existing.invoiceId}`);
+        return this.toCreatedInvoice(prepared, existing);
+      }
+      return this.submitInvoice(prepared);
+    }
+    
+    const prepared = await this.prepareInvoice(request);
+    await attempt.save({ prepared, fromBlock: Math.max(0, await this.getBlockNumber() - 1) });
+    return this.submitInvoice(prepared);
+  }
+  
+  async pruneIdempotencyKeys(): Promise<number> {
+    return this.issued.prune();
+  }
+  
+  /**
+   * Validates the request and pins its metadata; the ipfsHash identifies the invoice across retries
+   */
+  async prepareInvoice(request: InvoiceRequest): Promise<PreparedInvoice> {
+    console.log('📝 Preparing invoice metadata...', request);
+    
+    // Validate the request
+    const validation = await this.validateInvoiceData(request);
+    if (!validation.valid) {
+      throw new Error(`Invalid invoice data: ${validation.errors.join(', ')}`);
+    }
+    
+    const template = await this.templates.get(request.metadata?.template || 'web-dev');
+    const { paymentWindow, earlyPaymentDiscountBps, requiresApproval } = this.resolvePaymentTerms(request);
+    
+    const lineItems = this.generateLineItems(request, template);
+    const tax = this.calculateTax(request, lineItems);
+    
+    // Create IPFS metadata
+    const ipfsData = {
+      title: `Invoice for ${request.description}`,
+      description: request.description,
+      amount: tax.total,
+      subtotal: tax.subtotal,
+      currency: request.currency,
+      clientAddress: request.clientAddress,
+      paymentTerms: {
+        paymentWindow,
+        earlyPaymentDiscountBps,
+        requiresApproval
+      },
+      lineItems,
+      tax,
+      exchangeRate: await this.snapshotRate(request.currency),
+      createdAt: new Date().toISOString(),
+      template: template?.name
+    };
+    
+    // Pin metadata first so the on-chain ipfsHash always resolves to these line items
+    const { cid: ipfsHash } = await this.metadataStore.pin(ipfsData);
+    
+    return { request, ipfsData, ipfsHash };
+  }
+  
+  async submitInvoice(prepared: PreparedInvoice): Promise<any> {
+    const { request, ipfsData, ipfsHash } = prepared;
+    const { paymentWindow, earlyPaymentDiscountBps, requiresApproval } = ipfsData.paymentTerms;
+    
+    // Calculate early payment deadline (half of payment window)
+    const earlyPaymentDeadline = Math.floor(Date.now() / 1000) + (paymentWindow * 24 * 60 * 60 / 2);
+    
+    // Resolve the payment token from the escrow allow-list; unsupported currencies fail here
+    const token = await this.tokens.resolveCurrency(request.currency);
+    
+    // Create invoice on blockchain
+    const blockchainParams = {
+      clientAddress: request.clientAddress,
+      amount: ipfsData.amount, // Escrowed amount includes tax
+      token: token.address,
+      tokenDecimals: token.decimals,
+      paymentTerms: {
+        paymentWindow: paymentWindow,
+        earlyPaymentDiscountBps: earlyPaymentDiscountBps,
+        earlyPaymentDeadline: earlyPaymentDeadline,
+        requiresApproval: requiresApproval,
+        // Never the provider's own wallet, which is the one the agent signs with
+        arbitrator: invoiceArbitrator(agentWalletAddress())
+      },
+      ipfsHash: ipfsHash
+    };
+    
+    console.log('🔗 Calling blockchain service...', blockchainParams);
+    const blockchainResult = await this.blockchainService.createInvoice(blockchainParams);
+    
+    const invoice = this.toCreatedInvoice(prepared, blockchainResult);
+    console.log('✅ Invoice created on blockchain:', invoice);
+    return invoice;
+  }
+  
+  // The invoice as returned to callers once its escrow entry exists
+  private toCreatedInvoice(prepared: PreparedInvoice, created: { invoiceId: string | number; txHash: string }): any {
+    const { request, ipfsData, ipfsHash } = prepared;
+    return {
+      id: created.invoiceId,
+      txHash: created.txHash,
+      clientAddress: request.clientAddress,
+      amount: ipfsData.amount,
+      subtotal: ipfsData.subtotal,
+      currency: request.currency,
+      description: request.description,
+      paymentTerms: ipfsData.paymentTerms,
+      lineItems: ipfsData.lineItems,
+      tax: ipfsData.tax,
+      exchangeRate: ipfsData.exchangeRate,
+      metadata: {
+        ...request.metadata,
+        template: ipfsData.template,
+        createdAt: ipfsData.createdAt,
+        dueDate: this.calculateDueDate(ipfsData.paymentTerms.paymentWindow),
+        blockchain: {
+          contractAddress: contractData.contracts.InvoiceEscrow,
+          network: 'sei-testnet',
+          chainId: 1328
+        }
+      },
+      ipfsData,
+      ipfsHash,
+      onChain: true
+    };
+  }
+  
+  /**
+   * Looks for an InvoiceCreated event carrying this metadata, i.e. a submission that landed
+   */
+  async findCreatedInvoice(ipfsHash: string, clientAddress: string, fromBlock: number): Promise<{ invoiceId: string; txHash: string } | null> {
+    const events = await this.escrow.queryFilter(this.escrow.filters.InvoiceCreated(null, null, clientAddress), fromBlock);
+    const match = events.find(event => (event as ethers.EventLog).args.ipfsHash === ipfsHash) as ethers.EventLog | undefined;
+    return match ? { invoiceId: match.args.invoiceId.toString(), txHash: match.transactionHash } : null;
+  }
+  
+  /**
+   * The invoice currency's USD rate at issue, pinned with the metadata so the invoice's value can be
+   * audited later. A missing rate is logged rather than holding up the invoice.
+   */
+  private async snapshotRate(currency: string): Promise<RateSnapshot | undefined> {
+    try {
+      return await this.rates.snapshot(currency, 'USD');
     } catch (error) {
-      console.error('❌ Error creating blockchain invoice:', error);
-      
-      // Fallback to off-chain invoice for demo purposes
-      console.log('📝 Creating fallback off-chain invoice...');
-      return this.createOffChainInvoice(request);
+      console.warn(`⚠️ No exchange rate snapshot for ${currency}:`, error.message);
+      return undefined;
+    }
+  }
+  
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+  
+  private resolvePaymentTerms(request: InvoiceRequest): { paymentWindow: number; earlyPaymentDiscountBps: number; requiresApproval: boolean } {
+    return {
+      paymentWindow: request.paymentTerms?.paymentWindow || 30,
+      earlyPaymentDiscountBps: request.paymentTerms?.earlyPaymentDiscountBps ?? 200, // an explicit 0 means no discount
+      requiresApproval: request.paymentTerms?.requiresApproval || false
+    };
+  }
+  
+  // Raw InvoiceEscrow.InvoiceStatus of an on-chain invoice
+  async getEscrowStatus(invoiceId: number): Promise<number> {
+    try {
+      const invoice = await this.escrow.getInvoice(invoiceId);
+      return Number(invoice[6]);
+    } catch (error) {
+      throw new Error(`Failed to get escrow status: ${error.message}`);
+    }
+  }
+  
+  // The version in force after any amendments (the invoice itself if it was never amended)
+  async getLatestInvoiceId(invoiceId: number): Promise<number> {
+    try {
+      return Number(await this.escrow.getLatestVersion(invoiceId));
+    } catch (error) {
+      throw new Error(`Failed to follow invoice amendments: ${error.message}`);
     }
   }
   
-  private async createOffChainInvoice(request: InvoiceRequest): Promise<any> {
-    const template = this.templates.get(request.metadata?.template || 'web-dev');
+  // What callers get back while an invoice waits in the outbox: clearly pending, never "created"
+  private async createPendingInvoice(entry: OutboxEntry): Promise<any> {
+    const request = entry.request;
+    const template = await this.templates.get(request.metadata?.template || 'web-dev');
+    const lineItems = entry.prepared?.ipfsData.lineItems || this.generateLineItems(request, template);
+    const tax = entry.prepared?.ipfsData.tax || this.calculateTax(request, lineItems);
     
     const invoice = {
-      id: Date.now(),
+      id: entry.id,
       clientAddress: request.clientAddress,
-      amount: parseFloat(request.amount),
+      amount: tax.total,
+      subtotal: tax.subtotal,
       currency: request.currency,
       description: request.description,
-      paymentTerms: request.paymentTerms,
-      lineItems: this.generateLineItems(request, template),
+      paymentTerms: this.resolvePaymentTerms(request),
+      lineItems,
+      tax,
+      exchangeRate: entry.prepared?.ipfsData.exchangeRate,
       metadata: {
         ...request.metadata,
         template: template?.name,
-        createdAt: new Date().toISOString(),
+        createdAt: entry.createdAt,
         dueDate: this.calculateDueDate(request.paymentTerms?.paymentWindow || 30)
       },
+      reconciliation: {
+        status: entry.status,
+        attempts: entry.attempts,
+        nextAttemptAt: entry.nextAttemptAt,
+        lastError: entry.lastError
+      },
       onChain: false
     };
     
@@ -395,13 +525,18 @@ class InvoiceService {
   }
 
   private generateLineItems(request: InvoiceRequest, template?: InvoiceTemplate): LineItem[] {
-    const amount = parseFloat(request.amount);
+    const amount = Money.parse(request.amount, request.currency);
+    
+    if (request.lineItems && request.lineItems.length > 0) {
+      return request.lineItems;
+    }
     
-    if (template) {
-      // Use template line items and distribute amount
-      const items = template.lineItems.map(item => ({
+    if (template && template.lineItems.length > 0) {
+      // Use template line items and distribute amount without losing cents to rounding
+      const shares = amount.allocate(template.lineItems.map(() => 1));
+      const items = template.lineItems.map((item, index) => ({
         ...item,
-        total: amount / template.lineItems.length
+        total: shares[index].toNumber()
       }));
       return items;
     }
@@ -410,24 +545,40 @@ class InvoiceService {
     return [{
       description: request.description,
       quantity: 1,
-      unitPrice: amount,
-      total: amount,
+      unitPrice: amount.toNumber(),
+      total: amount.toNumber(),
       category: 'service'
     }];
   }
 
+  calculateTax(request: Pick<InvoiceRequest, 'currency' | 'tax'>, lineItems: LineItem[]): TaxBreakdown {
+    return this.taxEngine.calculate(lineItems, request.currency, request.tax);
+  }
+
   private calculateDueDate(paymentWindowDays: number): string {
     const dueDate = new Date();
     dueDate.setDate(dueDate.getDate() + paymentWindowDays);
     return dueDate.toISOString();
   }
 
-  getTemplate(templateId: string): InvoiceTemplate | undefined {
+  getOutbox(): InvoiceOutbox {
+    return this.outbox;
+  }
+
+  getClientDirectory(): ClientDirectory {
+    return this.clients;
+  }
+
+  getTemplateRegistry(): TemplateRegistry {
+    return this.templates;
+  }
+
+  async getTemplate(templateId: string): Promise<InvoiceTemplate | undefined> {
     return this.templates.get(templateId);
   }
 
-  getAllTemplates(): InvoiceTemplate[] {
-    return Array.from(this.templates.values());
+  async getAllTemplates(ownerId?: string): Promise<InvoiceTemplate[]> {
+    return this.templates.list(ownerId);
   }
 
   async validateInvoiceData(request: InvoiceRequest): Promise<{ valid: boolean; errors: string[] }> {
@@ -438,7 +589,7 @@ class InvoiceService {
       errors.push("Client address is required");
     }
 
-    if (!request.amount || parseFloat(request.amount) <= 0) {
+    if (!isPositiveAmount(request.amount, request.currency)) {
       errors.push("Amount must be greater than 0");
     }
 
@@ -468,10 +619,55 @@ class InvoiceService {
   }
 }
 
+// Background service that issues recurring invoices as their periods start, opens milestone
+// escrows as their due dates come within the payment window, and retries queued invoices
+class InvoiceAutomationService extends Service {
+  static serviceType = 'invoice-automation';
+  capabilityDescription = 'Issues recurring invoices, deploys due milestone tranches and reconciles queued invoices on-chain';
+
+  private scheduler: RecurringScheduler;
+  private planner: MilestonePlanner;
+  private outbox: InvoiceOutbox;
+  private invoiceService: InvoiceService;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+    this.invoiceService = new InvoiceService(runtime);
+    this.scheduler = new RecurringScheduler(runtime, this.invoiceService);
+    this.planner = new MilestonePlanner(runtime, this.invoiceService);
+    this.outbox = this.invoiceService.getOutbox();
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<InvoiceAutomationService> {
+    const service = new InvoiceAutomationService(runtime);
+    const intervalMs = parseInt(process.env.RECURRING_INVOICE_INTERVAL_MS || '60000');
+
+    service.timer = setInterval(() => {
+      service.scheduler.runDue().catch(error => console.error('❌ Recurring invoice run failed:', error));
+      service.planner.deployAllDue().catch(error => console.error('❌ Milestone deployment failed:', error));
+      service.outbox.retryDue()
+        .then(() => service.scheduler.syncQueued())
+        .catch(error => console.error('❌ Invoice reconciliation failed:', error));
+      service.invoiceService.pruneIdempotencyKeys().catch(error => console.error('❌ Idempotency key cleanup failed:', error));
+    }, intervalMs);
+    console.log(`🔁 Invoice automation started (every ${intervalMs / 1000}s)`);
+
+    return service;
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
 // ElizaOS Actions
 const generateInvoiceAction: Action = {
   name: "GENERATE_INVOICE",
-  description: "Generates a detailed invoice from a service description",
+  description: "Generates an editable invoice draft from a service description; deploying it is a separate confirmation",
   similes: [
     "generate invoice",
     "create invoice from description",
@@ -483,7 +679,8 @@ const generateInvoiceAction: Action = {
     const text = message.content.text?.toLowerCase() || '';
     console.log('🔍 Validating invoice action for text:', text);
     const isMatch = (text.includes("generate") || text.includes("create") || text.includes("make") || text.includes("invoice for")) && 
-           text.includes("invoice");
+           text.includes("invoice") && !text.includes("recurring") && !text.includes("milestone") &&
+           !text.includes("credit note") && !text.includes("amend");
     console.log('✅ Invoice action validation result:', isMatch);
     return isMatch;
   },
@@ -504,42 +701,16 @@ const generateInvoiceAction: Action = {
       const description = extractServiceDescription(message.content.text || '');
       
       // Generate invoice request
-      const invoiceRequest = await invoiceService.generateInvoiceFromDescription(description);
-      
-      // Create detailed invoice
-      const detailedInvoice = await invoiceService.createDetailedInvoice(invoiceRequest);
+      const invoiceRequest = await invoiceService.generateInvoiceFromDescription(description, message.entityId);
       
-      // Validate invoice data
-      const validation = await invoiceService.validateInvoiceData(invoiceRequest);
-      
-      if (!validation.valid) {
-        callback({
-          text: `❌ **Invoice Generation Issues:**\n\n${validation.errors.map(e => `• ${e}`).join('\n')}\n\nPlease provide more details and try again.`,
-          action: "GENERATE_INVOICE_ERROR",
-          data: { errors: validation.errors }
-        });
-        return;
-      }
-
-      const responseText = `📋 **Invoice Generated Successfully!**\n\n` +
-        `**Service:** ${detailedInvoice.description}\n` +
-        `**Amount:** $${detailedInvoice.amount.toLocaleString()} ${detailedInvoice.currency}\n` +
-        `**Payment Terms:** Net ${detailedInvoice.paymentTerms.paymentWindow} days\n` +
-        `**Early Payment Discount:** ${detailedInvoice.paymentTerms.earlyPaymentDiscountBps / 100}%\n` +
-        `**Template Used:** ${detailedInvoice.metadata.template}\n\n` +
-        `**Line Items:**\n${detailedInvoice.lineItems.map((item: LineItem) => 
-          `• ${item.description}: $${item.total.toLocaleString()}`
-        ).join('\n')}\n\n` +
-        `**Next Steps:**\n` +
-        `1. Provide client address to deploy to blockchain\n` +
-        `2. Review and modify terms if needed\n` +
-        `3. Send invoice to client\n\n` +
-        `Would you like me to deploy this invoice to the blockchain?`;
+      // Nothing is deployed yet: the invoice starts as an editable draft
+      const draft = await new InvoiceDrafts(runtime).create(message.entityId, invoiceRequest);
+      const preview = await invoiceService.previewInvoice(draft.request);
 
       callback({
-        text: responseText,
+        text: `📋 **Invoice Draft Created!**\n\n${formatDraft(draft, preview)}`,
         action: "GENERATE_INVOICE_SUCCESS",
-        data: detailedInvoice
+        data: { draft, preview }
       });
 
     } catch (error) {
@@ -559,7 +730,7 @@ const generateInvoiceAction: Action = {
       {
         name: "{{agentName}}",
         content: {
-          text: "I'll generate a detailed invoice for your web development services...",
+          text: "I'll draft a detailed invoice for your web development services for you to review...",
           action: "GENERATE_INVOICE"
         }
       }
@@ -567,53 +738,63 @@ const generateInvoiceAction: Action = {
   ]
 };
 
-const listTemplatesAction: Action = {
-  name: "LIST_TEMPLATES",
+const editInvoiceDraftAction: Action = {
+  name: "EDIT_INVOICE_DRAFT",
   similes: [
-    "show templates",
-    "list invoice templates",
-    "available templates",
-    "invoice types",
-    "template options"
+    "change the amount",
+    "set client",
+    "edit invoice",
+    "update draft",
+    "change payment terms"
   ],
   validate: async (_runtime: IAgentRuntime, message: Memory) => {
-    const text = message.content.text?.toLowerCase() || '';
-    return text.includes("template") && (
-      text.includes("list") || text.includes("show") || text.includes("available")
-    );
+    const text = message.content.text || '';
+    const lower = text.toLowerCase();
+    return /\b(change|set|update|edit|make)\b/.test(lower) &&
+      !/\b(generate|create|amend)\b|invoice for|credit note|template|recurring|milestone|\b(?:add|new|update|edit|change)\s+client\s+(?!to\b)/.test(lower) &&
+      Object.keys(parseDraftEdit(text)).length > 0;
   },
-  description: "Lists available invoice templates",
+  description: "Edits an invoice draft (amount, client, currency, description, payment window, discount, approval) before it is deployed",
   handler: async (
     runtime: IAgentRuntime,
-    _message: Memory,
+    message: Memory,
     _state: any,
     _options: any,
     callback: HandlerCallback
   ) => {
     try {
+      const text = message.content.text || '';
+      const drafts = new InvoiceDrafts(runtime);
+      const draft = await drafts.resolve(message.entityId, extractDraftId(text));
       const invoiceService = new InvoiceService(runtime);
-      const templates = invoiceService.getAllTemplates();
+      const edit: DraftEdit = structuredPayload<DraftEdit>(message, 'draftEdit') || parseDraftEdit(text);
 
-      const responseText = `📋 **Available Invoice Templates:**\n\n` +
-        templates.map(template => 
-          `**${template.name}** (${template.id})\n` +
-          `• ${template.description}\n` +
-          `• Default Terms: Net ${template.defaultTerms.paymentWindow} days\n` +
-          `• Early Discount: ${template.defaultTerms.earlyPaymentDiscountBps / 100}%\n` +
-          `• Requires Approval: ${template.defaultTerms.requiresApproval ? 'Yes' : 'No'}\n`
-        ).join('\n') +
-        `\n**Usage:** Mention the service type in your invoice description, and I'll automatically select the best template!`;
+      let updated: InvoiceDraft;
+      if (edit.clientName) {
+        // "Set client to Acme Corp": point the draft at the address book entry's wallet
+        const client = await invoiceService.getClientDirectory().lookup(message.entityId, edit.clientName);
+        const wallet = client && walletFor(client);
+        if (!client || !wallet) {
+          throw new Error(client
+            ? `${client.name} has no ${DEFAULT_CHAIN} wallet on file; add one with "update client ${client.name} wallet 0x…"`
+            : `No client named "${edit.clientName}" in your address book`);
+        }
+        updated = await drafts.edit(message.entityId, draft.id, { ...edit, clientAddress: wallet }, { client: clientReference(client) });
+      } else {
+        updated = await drafts.edit(message.entityId, draft.id, edit);
+      }
+      const preview = await invoiceService.previewInvoice(updated.request);
 
       callback({
-        text: responseText,
-        action: "LIST_TEMPLATES_SUCCESS",
-        data: { templates }
+        text: `✏️ **Draft Updated (revision ${updated.revision})**\n\n${formatDraft(updated, preview)}`,
+        action: "EDIT_INVOICE_DRAFT_SUCCESS",
+        data: { draft: updated, preview }
       });
 
     } catch (error) {
       callback({
-        text: `❌ Failed to retrieve templates: ${error.message}`,
-        action: "LIST_TEMPLATES_ERROR",
+        text: `❌ Failed to edit invoice draft: ${error.message}`,
+        action: "EDIT_INVOICE_DRAFT_ERROR",
         data: { error: error.message }
       });
     }
@@ -622,93 +803,1207 @@ const listTemplatesAction: Action = {
     [
       {
         name: "{{user1}}",
-        content: { text: "Show me available invoice templates" }
+        content: { text: "Change the amount to 4500 and set client to 0x742d35Cc6634C0532925a3b8D084d54b8a11D3f0" }
       },
       {
         name: "{{agentName}}",
         content: {
-          text: "Here are the available invoice templates...",
-          action: "LIST_TEMPLATES"
+          text: "Updated the draft with the new amount and client...",
+          action: "EDIT_INVOICE_DRAFT"
         }
       }
     ]
   ]
 };
 
-const optimizeTermsAction: Action = {
-  name: "OPTIMIZE_TERMS",
+const deployInvoiceAction: Action = {
+  name: "DEPLOY_INVOICE",
   similes: [
-    "optimize payment terms",
-    "suggest better terms",
-    "improve payment conditions",
-    "recommend terms",
-    "best payment terms"
+    "deploy invoice",
+    "deploy it",
+    "send invoice to blockchain",
+    "confirm invoice",
+    "publish invoice"
   ],
   validate: async (_runtime: IAgentRuntime, message: Memory) => {
-    const text = message.content.text?.toLowerCase() || '';
-    return text.includes("optimize") || text.includes("suggest") || text.includes("recommend") &&
-           (text.includes("terms") || text.includes("payment"));
+    return !!structuredPayload<InvoiceRequest>(message, 'invoiceRequest') || isDeployConfirmation(message.content.text || '');
   },
-  description: "Optimizes payment terms based on client history and project context",
+  description: "Deploys a reviewed invoice draft to the escrow contract on explicit confirmation",
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    state: any,
-    options: any,
+    _state: any,
+    _options: any,
     callback: HandlerCallback
   ) => {
     try {
       const invoiceService = new InvoiceService(runtime);
-      
-      // Extract context from message
-      const context = extractOptimizationContext(message.content.text || '');
-      
-      // Mock client history (in real app, fetch from database)
-      const mockClientHistory = {
-        paymentReliabilityScore: 75,
-        averagePaymentDelay: 5,
-        totalVolume: 25000,
-        numberOfInvoices: 8
-      };
+      const drafts = new InvoiceDrafts(runtime);
+      const submitted = structuredPayload<InvoiceRequest>(message, 'invoiceRequest');
+      const idempotencyKey = message.content.idempotencyKey as string | undefined;
 
-      const baseTerms: PaymentTerms = {
-        paymentWindow: 30,
-        earlyPaymentDiscountBps: 200,
-        requiresApproval: false,
+      // A form submission carries the whole invoice; it becomes a draft like any other, and a
+      // retried submission (same idempotency key) resumes the draft the first one created
+      const draft = submitted
+        ? await drafts.create(message.entityId, await resolveSubmittedClient(invoiceService, message.entityId, submitted), idempotencyKey)
+        : await drafts.resolve(message.entityId, extractDraftId(message.content.text || ''));
+
+      // Confirming a draft twice (e.g. a retried message) reports the invoice the first confirmation created
+      if (draft.status === 'deployed') {
+        callback({
+          text: `ℹ️ **Draft ${draft.id} is already deployed.**\n\n` +
+            `**Invoice ID:** ${draft.invoiceId}\n` +
+            `**Transaction:** ${draft.txHash}`,
+          action: "DEPLOY_INVOICE_SUCCESS",
+          data: { draft, invoice: { id: draft.invoiceId, txHash: draft.txHash }, replayed: true }
+        });
+        return;
+      }
+
+      const validation = await invoiceService.validateInvoiceData(draft.request);
+      if (!validation.valid) {
+        callback({
+          text: `❌ **Draft ${draft.id} isn't ready to deploy:**\n\n${validation.errors.map(e => `• ${e}`).join('\n')}\n\n` +
+            `Fix it with a follow-up like "set client to 0x…", then confirm again.`,
+          action: "DEPLOY_INVOICE_ERROR",
+          data: { draftId: draft.id, errors: validation.errors }
+        });
+        return;
+      }
+
+      await drafts.beginDeploy(message.entityId, draft.id);
+
+      let invoice: any;
+      try {
+        invoice = await invoiceService.deployInvoice(draft.request, message.entityId, idempotencyKey);
+      } catch (error) {
+        await drafts.failDeploy(message.entityId, draft.id, error.message);
+        throw error;
+      }
+
+      const deployed = await drafts.completeDeploy(message.entityId, draft.id, invoice);
+
+      callback({
+        text: `${invoice.replayed ? '♻️ **Invoice Already Deployed** (same request as before, nothing new was created)' : '🚀 **Invoice Deployed!**'}\n\n` +
+          `**Invoice ID:** ${invoice.id}\n` +
+          `**Transaction:** ${invoice.txHash}\n` +
+          `**Client:** ${invoice.clientAddress}\n` +
+          `**Total:** ${formatAmount(invoice.amount, invoice.currency)}\n` +
+          `**Due:** ${formatScheduleDate(invoice.metadata.dueDate)}\n` +
+          `**Metadata:** ipfs://${invoice.ipfsHash}`,
+        action: "DEPLOY_INVOICE_SUCCESS",
+        data: { draft: deployed, invoice, replayed: !!invoice.replayed }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to deploy invoice: ${error.message}\n\nThe draft is unchanged; you can edit it or try again.`,
+        action: "DEPLOY_INVOICE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Looks good, deploy invoice draft-1a2b3c4d" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Deploying the invoice to the escrow contract...",
+          action: "DEPLOY_INVOICE"
+        }
+      }
+    ]
+  ]
+};
+
+const previewTaxAction: Action = {
+  name: "PREVIEW_TAX",
+  similes: [
+    "preview tax",
+    "calculate tax",
+    "tax preview"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    return !!structuredPayload<TaxPreviewRequest>(message, 'taxPreview');
+  },
+  description: "Calculates the tax on line items without creating anything (the create-invoice form's live preview) and lists the supported jurisdictions",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const request = structuredPayload<TaxPreviewRequest>(message, 'taxPreview')!;
+      if (!request.currency || !Array.isArray(request.lineItems)) {
+        throw new Error("A tax preview needs a currency and line items");
+      }
+
+      const tax = new InvoiceService(runtime).calculateTax(request, request.lineItems);
+
+      callback({
+        text: `🧾 **Tax Preview**\n\n${formatTaxSummary(tax, request.currency)}`,
+        action: "PREVIEW_TAX_SUCCESS",
+        data: { tax, jurisdictions: Object.values(TAX_JURISDICTIONS) }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to preview tax: ${error.message}`,
+        action: "PREVIEW_TAX_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Preview tax",
+          taxPreview: {
+            currency: "USDC",
+            lineItems: [{ description: "Design", quantity: 1, unitPrice: 1200, total: 1200, category: "design" }],
+            tax: { jurisdiction: "DE", clientTaxId: "FR12345678901" }
+          }
+        }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Subtotal 1,200.00 USDC; reverse charge applies...",
+          action: "PREVIEW_TAX"
+        }
+      }
+    ]
+  ]
+};
+
+const listTemplatesAction: Action = {
+  name: "LIST_TEMPLATES",
+  similes: [
+    "show templates",
+    "list invoice templates",
+    "available templates",
+    "invoice types",
+    "template options"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return text.includes("template") && (
+      text.includes("list") || text.includes("show") || text.includes("available")
+    );
+  },
+  description: "Lists available invoice templates",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const invoiceService = new InvoiceService(runtime);
+      const templates = await invoiceService.getAllTemplates(message.entityId);
+
+      const responseText = `📋 **Available Invoice Templates:**\n\n` +
+        templates.map(formatTemplateSummary).join('\n') +
+        `\n**Usage:** Mention the service type (or "using template <id>") in your invoice description, and I'll automatically select the best template!`;
+
+      callback({
+        text: responseText,
+        action: "LIST_TEMPLATES_SUCCESS",
+        data: { templates }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to retrieve templates: ${error.message}`,
+        action: "LIST_TEMPLATES_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Show me available invoice templates" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Here are the available invoice templates...",
+          action: "LIST_TEMPLATES"
+        }
+      }
+    ]
+  ]
+};
+
+const createTemplateAction: Action = {
+  name: "CREATE_TEMPLATE",
+  similes: [
+    "create template",
+    "new invoice template",
+    "add template",
+    "save template"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return text.includes("template") &&
+      (text.includes("create") || text.includes("new") || text.includes("add") || text.includes("save")) &&
+      !text.includes("clone") && !text.includes("copy");
+  },
+  description: "Creates a custom invoice template owned by the requesting provider",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const input = extractTemplateInput(message);
+      if (!input.id || !input.name) {
+        callback({
+          text: `❌ Please give the template an ID and a name, e.g. *create template retainer named "Monthly Retainer" net 15 with 2% discount, item "Support Hours" 10 x 120*`,
+          action: "CREATE_TEMPLATE_ERROR",
+          data: { error: "Template ID and name are required" }
+        });
+        return;
+      }
+
+      const registry = new InvoiceService(runtime).getTemplateRegistry();
+      const template = await registry.create(message.entityId, {
+        id: input.id,
+        name: input.name,
+        description: input.description || '',
+        defaultTerms: {
+          paymentWindow: 30,
+          earlyPaymentDiscountBps: 200,
+          requiresApproval: false,
+          currency: 'USD',
+          ...input.defaultTerms
+        },
+        lineItems: input.lineItems || [],
+        customFields: input.customFields || []
+      });
+
+      callback({
+        text: `✅ **Template Created!**\n\n${formatTemplateSummary(template)}`,
+        action: "CREATE_TEMPLATE_SUCCESS",
+        data: { template }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to create template: ${error.message}`,
+        action: "CREATE_TEMPLATE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Create template retainer named \"Monthly Retainer\" net 15 with 2% discount, item \"Support Hours\" 10 x 120" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "I'll save that as a new invoice template...",
+          action: "CREATE_TEMPLATE"
+        }
+      }
+    ]
+  ]
+};
+
+const updateTemplateAction: Action = {
+  name: "UPDATE_TEMPLATE",
+  similes: [
+    "update template",
+    "edit template",
+    "modify template",
+    "change template"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return text.includes("template") &&
+      (text.includes("update") || text.includes("edit") || text.includes("modify") || text.includes("change"));
+  },
+  description: "Updates a custom invoice template owned by the requesting provider",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const { id, ...changes } = extractTemplateInput(message);
+      if (!id) {
+        throw new Error("Please specify which template to update");
+      }
+
+      const registry = new InvoiceService(runtime).getTemplateRegistry();
+      const template = await registry.update(message.entityId, id, changes);
+
+      callback({
+        text: `✅ **Template Updated!**\n\n${formatTemplateSummary(template)}`,
+        action: "UPDATE_TEMPLATE_SUCCESS",
+        data: { template }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to update template: ${error.message}`,
+        action: "UPDATE_TEMPLATE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Update template retainer to net 30 with 3% discount" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Updating the retainer template...",
+          action: "UPDATE_TEMPLATE"
+        }
+      }
+    ]
+  ]
+};
+
+const deleteTemplateAction: Action = {
+  name: "DELETE_TEMPLATE",
+  similes: [
+    "delete template",
+    "remove template"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return text.includes("template") && (text.includes("delete") || text.includes("remove"));
+  },
+  description: "Deletes a custom invoice template owned by the requesting provider",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const { id } = extractTemplateInput(message);
+      if (!id) {
+        throw new Error("Please specify which template to delete");
+      }
+
+      const registry = new InvoiceService(runtime).getTemplateRegistry();
+      await registry.delete(message.entityId, id);
+
+      callback({
+        text: `🗑️ Template **${id}** has been deleted.`,
+        action: "DELETE_TEMPLATE_SUCCESS",
+        data: { templateId: id }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to delete template: ${error.message}`,
+        action: "DELETE_TEMPLATE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Delete template retainer" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Removing the retainer template...",
+          action: "DELETE_TEMPLATE"
+        }
+      }
+    ]
+  ]
+};
+
+const cloneTemplateAction: Action = {
+  name: "CLONE_TEMPLATE",
+  similes: [
+    "clone template",
+    "copy template",
+    "duplicate template",
+    "customize template"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return text.includes("template") &&
+      (text.includes("clone") || text.includes("copy") || text.includes("duplicate"));
+  },
+  description: "Copies a built-in or owned template into a new template owned by the requesting provider",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const { id: sourceId, ...overrides } = extractTemplateInput(message);
+      const newId = extractCloneTargetId(message.content.text || '');
+      if (!sourceId || !newId) {
+        throw new Error('Please name the source and the new template, e.g. "clone template web-dev as agency-web"');
+      }
+
+      const registry = new InvoiceService(runtime).getTemplateRegistry();
+      const template = await registry.clone(message.entityId, sourceId, newId, overrides);
+
+      callback({
+        text: `✅ **Template Cloned from ${sourceId}!**\n\n${formatTemplateSummary(template)}`,
+        action: "CLONE_TEMPLATE_SUCCESS",
+        data: { template }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to clone template: ${error.message}`,
+        action: "CLONE_TEMPLATE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Clone template web-dev as agency-web named \"Agency Web Projects\" net 45" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Creating your own copy of the web development template...",
+          action: "CLONE_TEMPLATE"
+        }
+      }
+    ]
+  ]
+};
+
+const optimizeTermsAction: Action = {
+  name: "OPTIMIZE_TERMS",
+  similes: [
+    "optimize payment terms",
+    "suggest better terms",
+    "improve payment conditions",
+    "recommend terms",
+    "best payment terms"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return text.includes("optimize") || text.includes("suggest") || text.includes("recommend") &&
+           (text.includes("terms") || text.includes("payment"));
+  },
+  description: "Optimizes payment terms based on client history and project context",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: any,
+    options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const invoiceService = new InvoiceService(runtime);
+      
+      // Extract context from message
+      const context = extractOptimizationContext(message.content.text || '');
+      
+      // Mock client history (in real app, fetch from database)
+      const mockClientHistory = {
+        paymentReliabilityScore: 75,
+        averagePaymentDelay: 5,
+        totalVolume: 25000,
+        numberOfInvoices: 8
+      };
+
+      const baseTerms: PaymentTerms = {
+        paymentWindow: 30,
+        earlyPaymentDiscountBps: 200,
+        requiresApproval: false,
         currency: 'USD'
       };
 
-      const optimizedTerms = await invoiceService.optimizePaymentTerms(
-        baseTerms,
-        mockClientHistory,
-        context
-      );
+      const optimizedTerms = await invoiceService.optimizePaymentTerms(
+        baseTerms,
+        mockClientHistory,
+        context
+      );
+
+      const responseText = `🎯 **Optimized Payment Terms:**\n\n` +
+        `**Current Recommendation:**\n` +
+        `• Payment Window: Net ${optimizedTerms.paymentWindow} days\n` +
+        `• Early Payment Discount: ${optimizedTerms.earlyPaymentDiscountBps / 100}%\n` +
+        `• Requires Approval: ${optimizedTerms.requiresApproval ? 'Yes' : 'No'}\n\n` +
+        `**Optimization Factors:**\n` +
+        `• Client Reliability Score: ${mockClientHistory.paymentReliabilityScore}%\n` +
+        `• Average Payment Delay: ${mockClientHistory.averagePaymentDelay} days\n` +
+        `• Project Context: ${context.urgency || 'Standard'} priority\n\n` +
+        `**Business Impact:**\n` +
+        `• Expected payment time: ${optimizedTerms.paymentWindow - 5} days\n` +
+        `• Cash flow improvement: ${optimizedTerms.earlyPaymentDiscountBps > 200 ? 'High' : 'Medium'}\n` +
+        `• Risk level: ${optimizedTerms.requiresApproval ? 'Low' : 'Very Low'}\n\n` +
+        `These terms balance cash flow optimization with client relationship management.`;
+
+      callback({
+        text: responseText,
+        action: "OPTIMIZE_TERMS_SUCCESS",
+        data: { optimizedTerms, clientHistory: mockClientHistory }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to optimize terms: ${error.message}`,
+        action: "OPTIMIZE_TERMS_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Optimize payment terms for a $10,000 urgent project" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "I'll analyze the optimal payment terms for your project...",
+          action: "OPTIMIZE_TERMS"
+        }
+      }
+    ]
+  ]
+};
+
+const createRecurringInvoiceAction: Action = {
+  name: "CREATE_RECURRING_INVOICE",
+  similes: [
+    "recurring invoice",
+    "bill monthly",
+    "bill weekly",
+    "invoice every month",
+    "set up retainer billing",
+    "subscription invoice"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (text.includes("recurring") || text.includes("every month") || text.includes("every week")) &&
+      (text.includes("create") || text.includes("set up") || text.includes("schedule") || text.includes("bill"));
+  },
+  description: "Creates a recurring invoice schedule (weekly, monthly or cron) with optional start/end dates and proration",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const scheduler = new RecurringScheduler(runtime, new InvoiceService(runtime));
+      const schedule = await scheduler.create(message.entityId, extractScheduleInput(message));
+
+      callback({
+        text: `🔁 **Recurring Invoice Scheduled!**\n\n${formatSchedule(schedule)}\n\n` +
+          `Invoices are issued automatically at the start of each period. ` +
+          `Say "pause recurring invoice ${schedule.id}" to stop billing.`,
+        action: "CREATE_RECURRING_INVOICE_SUCCESS",
+        data: schedule
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to create recurring invoice: ${error.message}`,
+        action: "CREATE_RECURRING_INVOICE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Create a recurring invoice for 0x742d35Cc6634C0532925a3b8D084d54b8a11D3f0 of $3000 monthly on the 1st starting 2026-11-15 for \"Consulting retainer\"" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Setting up a monthly retainer schedule with a prorated first period...",
+          action: "CREATE_RECURRING_INVOICE"
+        }
+      }
+    ]
+  ]
+};
+
+const pauseRecurringInvoiceAction: Action = {
+  name: "PAUSE_RECURRING_INVOICE",
+  similes: [
+    "pause recurring invoice",
+    "stop recurring billing",
+    "suspend schedule"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (text.includes("pause") || text.includes("suspend") || text.includes("stop")) &&
+      (text.includes("recurring") || /\brec-[a-f0-9]+\b/.test(text));
+  },
+  description: "Pauses a recurring invoice schedule owned by the requesting provider",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const id = extractScheduleId(message.content.text || '');
+      if (!id) {
+        throw new Error("Please specify which schedule to pause (e.g. rec-1a2b3c4d)");
+      }
+
+      const scheduler = new RecurringScheduler(runtime, new InvoiceService(runtime));
+      const schedule = await scheduler.pause(message.entityId, id);
+
+      callback({
+        text: `⏸️ Recurring invoice **${schedule.id}** is paused. No invoices will be issued until it is resumed.`,
+        action: "PAUSE_RECURRING_INVOICE_SUCCESS",
+        data: schedule
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to pause recurring invoice: ${error.message}`,
+        action: "PAUSE_RECURRING_INVOICE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Pause recurring invoice rec-1a2b3c4d" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Pausing that schedule...",
+          action: "PAUSE_RECURRING_INVOICE"
+        }
+      }
+    ]
+  ]
+};
+
+const resumeRecurringInvoiceAction: Action = {
+  name: "RESUME_RECURRING_INVOICE",
+  similes: [
+    "resume recurring invoice",
+    "restart recurring billing",
+    "unpause schedule"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (text.includes("resume") || text.includes("unpause") || text.includes("restart")) &&
+      (text.includes("recurring") || /\brec-[a-f0-9]+\b/.test(text));
+  },
+  description: "Resumes a paused recurring invoice schedule; periods missed while paused are not billed",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const id = extractScheduleId(message.content.text || '');
+      if (!id) {
+        throw new Error("Please specify which schedule to resume (e.g. rec-1a2b3c4d)");
+      }
+
+      const scheduler = new RecurringScheduler(runtime, new InvoiceService(runtime));
+      const schedule = await scheduler.resume(message.entityId, id);
+
+      callback({
+        text: schedule.status === 'completed'
+          ? `✅ Schedule **${schedule.id}** has no periods left before its end date, so it is now completed.`
+          : `▶️ Recurring invoice **${schedule.id}** resumed. Next invoice: ${formatScheduleDate(schedule.nextRunAt)}`,
+        action: "RESUME_RECURRING_INVOICE_SUCCESS",
+        data: schedule
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to resume recurring invoice: ${error.message}`,
+        action: "RESUME_RECURRING_INVOICE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Resume recurring invoice rec-1a2b3c4d" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Resuming billing from the next period...",
+          action: "RESUME_RECURRING_INVOICE"
+        }
+      }
+    ]
+  ]
+};
+
+const listRecurringInvoicesAction: Action = {
+  name: "LIST_RECURRING_INVOICES",
+  similes: [
+    "list recurring invoices",
+    "show schedules",
+    "my retainers",
+    "recurring billing"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (text.includes("recurring") || text.includes("schedules")) &&
+      (text.includes("list") || text.includes("show") || text.includes("my"));
+  },
+  description: "Lists the requesting provider's recurring invoice schedules",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const scheduler = new RecurringScheduler(runtime, new InvoiceService(runtime));
+      await scheduler.syncQueued(message.entityId);
+      const schedules = await scheduler.list(message.entityId);
+
+      const responseText = schedules.length === 0
+        ? `🔁 You have no recurring invoices yet. Try "create a recurring invoice for ... $2000 monthly".`
+        : `🔁 **Recurring Invoices**\n\n${schedules.map(formatSchedule).join('\n\n')}`;
+
+      callback({
+        text: responseText,
+        action: "LIST_RECURRING_INVOICES_SUCCESS",
+        data: { schedules }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to list recurring invoices: ${error.message}`,
+        action: "LIST_RECURRING_INVOICES_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Show my recurring invoices" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Here are your recurring invoice schedules...",
+          action: "LIST_RECURRING_INVOICES"
+        }
+      }
+    ]
+  ]
+};
+
+const createMilestonePlanAction: Action = {
+  name: "CREATE_MILESTONE_PLAN",
+  similes: [
+    "milestone invoice",
+    "milestone plan",
+    "bill by milestone",
+    "split invoice into milestones",
+    "tranche payments"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return text.includes("milestone") &&
+      (text.includes("create") || text.includes("set up") || text.includes("plan") || text.includes("bill"));
+  },
+  description: "Creates a milestone plan (percentages or fixed amounts, each with a due date and approval requirement) backed by one escrow invoice per milestone",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const planner = new MilestonePlanner(runtime, new InvoiceService(runtime));
+      const plan = await planner.create(message.entityId, extractMilestonePlanInput(message));
+
+      callback({
+        text: `🧱 **Milestone Plan Created!**\n\n${formatMilestonePlan(plan)}\n\n` +
+          `Each milestone has its own escrow. Milestones that need approval are only released once the client approves that escrow. ` +
+          `Say "milestone progress ${plan.id}" to check on it.`,
+        action: "CREATE_MILESTONE_PLAN_SUCCESS",
+        data: plan
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to create milestone plan: ${error.message}`,
+        action: "CREATE_MILESTONE_PLAN_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Create milestone plan for 0x742d35Cc6634C0532925a3b8D084d54b8a11D3f0 project \"Mobile app\" total $30000: \"Design\" 30% due 2026-11-30, \"Build\" 50% due 2027-01-15, \"Launch\" $6000 due 2027-02-01 no approval" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Splitting the project into three escrowed milestones...",
+          action: "CREATE_MILESTONE_PLAN"
+        }
+      }
+    ]
+  ]
+};
+
+const milestoneProgressAction: Action = {
+  name: "MILESTONE_PROGRESS",
+  similes: [
+    "milestone status",
+    "show milestones",
+    "list milestone plans",
+    "project progress"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (text.includes("milestone") || /\bms-[a-f0-9]+\b/.test(text)) &&
+      (text.includes("progress") || text.includes("status") || text.includes("show") || text.includes("list"));
+  },
+  description: "Refreshes milestone escrows from the chain and shows aggregate progress for one or all of the provider's milestone plans",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const planner = new MilestonePlanner(runtime, new InvoiceService(runtime));
+      const planId = extractMilestonePlanId(message.content.text || '');
+      const ids = planId ? [planId] : (await planner.list(message.entityId)).map(plan => plan.id);
+
+      const plans: MilestonePlan[] = [];
+      for (const id of ids) {
+        plans.push(await planner.refresh(message.entityId, id));
+      }
+
+      const responseText = plans.length === 0
+        ? `🧱 You have no milestone plans yet. Try "create milestone plan for ... total $10000: \"Design\" 50% due ...".`
+        : `🧱 **Milestone Progress**\n\n${plans.map(formatMilestonePlan).join('\n\n')}`;
+
+      callback({
+        text: responseText,
+        action: "MILESTONE_PROGRESS_SUCCESS",
+        data: { plans: plans.map(plan => ({ ...plan, progress: calculateProgress(plan) })) }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to get milestone progress: ${error.message}`,
+        action: "MILESTONE_PROGRESS_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Show milestone progress for ms-1a2b3c4d" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Checking each milestone escrow...",
+          action: "MILESTONE_PROGRESS"
+        }
+      }
+    ]
+  ]
+};
+
+const addClientAction: Action = {
+  name: "ADD_CLIENT",
+  similes: [
+    "add client",
+    "new client",
+    "save client",
+    "add to address book"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return /\b(add|new|save|create)\s+(?:a\s+)?client\b/.test(text) && !text.includes("invoice");
+  },
+  description: "Adds a client to the address book (name, email, wallet addresses per chain, default currency and terms, billing address, tax ID)",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const directory = new InvoiceService(runtime).getClientDirectory();
+      const client = await directory.add(message.entityId, { wallets: {}, ...extractClientInput(message) } as ClientInput);
+
+      callback({
+        text: `👤 **Client Added!**\n\n${formatClient(client)}\n\n` +
+          `You can now say "generate invoice for ${client.name} for …" without the wallet address.`,
+        action: "ADD_CLIENT_SUCCESS",
+        data: client
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to add client: ${error.message}`,
+        action: "ADD_CLIENT_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Add client \"Acme Corp\" email billing@acme.com wallet 0x742d35Cc6634C0532925a3b8D084d54b8a11D3f0 currency USDC net 15" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Saving Acme Corp to your address book...",
+          action: "ADD_CLIENT"
+        }
+      }
+    ]
+  ]
+};
+
+const updateClientAction: Action = {
+  name: "UPDATE_CLIENT",
+  similes: [
+    "update client",
+    "edit client",
+    "change client details"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return /\b(update|edit|change)\s+client\s+(?!to\b)/.test(text) && !text.includes("invoice");
+  },
+  description: "Updates an address book entry, found by name, email or client ID",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const text = message.content.text || '';
+      const query = (message.content.clientId as string | undefined) || extractClientQuery(text);
+      if (!query) {
+        throw new Error('Say which client to update, e.g. update client "Acme Corp" email new@acme.com');
+      }
+
+      const { name: _name, ...changes } = extractClientInput(message);
+      const rename = text.match(/\brename\s+(?:it\s+)?to\s+["“]([^"”]+)["”]/i);
+
+      const directory = new InvoiceService(runtime).getClientDirectory();
+      const client = await directory.update(message.entityId, query, rename ? { ...changes, name: rename[1] } : changes);
+
+      callback({
+        text: `👤 **Client Updated!**\n\n${formatClient(client)}`,
+        action: "UPDATE_CLIENT_SUCCESS",
+        data: client
+      });
 
-      const responseText = `🎯 **Optimized Payment Terms:**\n\n` +
-        `**Current Recommendation:**\n` +
-        `• Payment Window: Net ${optimizedTerms.paymentWindow} days\n` +
-        `• Early Payment Discount: ${optimizedTerms.earlyPaymentDiscountBps / 100}%\n` +
-        `• Requires Approval: ${optimizedTerms.requiresApproval ? 'Yes' : 'No'}\n\n` +
-        `**Optimization Factors:**\n` +
-        `• Client Reliability Score: ${mockClientHistory.paymentReliabilityScore}%\n` +
-        `• Average Payment Delay: ${mockClientHistory.averagePaymentDelay} days\n` +
-        `• Project Context: ${context.urgency || 'Standard'} priority\n\n` +
-        `**Business Impact:**\n` +
-        `• Expected payment time: ${optimizedTerms.paymentWindow - 5} days\n` +
-        `• Cash flow improvement: ${optimizedTerms.earlyPaymentDiscountBps > 200 ? 'High' : 'Medium'}\n` +
-        `• Risk level: ${optimizedTerms.requiresApproval ? 'Low' : 'Very Low'}\n\n` +
-        `These terms balance cash flow optimization with client relationship management.`;
+    } catch (error) {
+      callback({
+        text: `❌ Failed to update client: ${error.message}`,
+        action: "UPDATE_CLIENT_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Update client Acme Corp: wallet on sei-mainnet 0x742d35Cc6634C0532925a3b8D084d54b8a11D3f0, net 30" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Updating Acme Corp's details...",
+          action: "UPDATE_CLIENT"
+        }
+      }
+    ]
+  ]
+};
+
+const lookupClientAction: Action = {
+  name: "LOOKUP_CLIENT",
+  similes: [
+    "look up client",
+    "find client",
+    "show clients",
+    "list clients",
+    "address book"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (/\b(look ?up|find|show|list|who is)\b.*\bclients?\b/.test(text) || text.includes("address book")) &&
+      !/\b(add|new|save|update|edit)\s+client\b/.test(text) && !text.includes("invoice");
+  },
+  description: "Looks up a client in the address book by name, email or ID, or lists all clients",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const directory = new InvoiceService(runtime).getClientDirectory();
+      const query = extractClientQuery(message.content.text || '');
+
+      if (query) {
+        const client = await directory.lookup(message.entityId, query);
+        callback({
+          text: client
+            ? `👤 **Client Found**\n\n${formatClient(client)}`
+            : `🔍 No client matching "${query}" in your address book.`,
+          action: "LOOKUP_CLIENT_SUCCESS",
+          data: { client: client || null }
+        });
+        return;
+      }
+
+      const clients = await directory.list(message.entityId);
+      callback({
+        text: clients.length === 0
+          ? `📇 Your address book is empty. Try "add client \"Acme Corp\" email billing@acme.com wallet 0x…".`
+          : `📇 **Clients**\n\n${clients.map(formatClient).join('\n\n')}`,
+        action: "LOOKUP_CLIENT_SUCCESS",
+        data: { clients }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to look up client: ${error.message}`,
+        action: "LOOKUP_CLIENT_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Look up client Acme" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Here's what I have on file for Acme Corp...",
+          action: "LOOKUP_CLIENT"
+        }
+      }
+    ]
+  ]
+};
+
+const listPendingInvoicesAction: Action = {
+  name: "LIST_PENDING_INVOICES",
+  similes: [
+    "pending invoices",
+    "queued invoices",
+    "failed invoices",
+    "reconciliation status",
+    "invoice outbox"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (/\b(pending|queued|failed|unconfirmed)\s+invoices?\b/.test(text) || text.includes("outbox") || text.includes("reconcil")) &&
+      !text.includes("retry");
+  },
+  description: "Shows invoices that are waiting for (or failed) on-chain creation, with their retry state",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const entries = await new InvoiceService(runtime).getOutbox().list(message.entityId);
+      const open = entries.filter(entry => entry.status !== 'confirmed');
+      const reconciled = entries.filter(entry => entry.status === 'confirmed').slice(-5);
+
+      const responseText = entries.length === 0
+        ? `📥 No queued invoices — everything you issued is on-chain.`
+        : `📥 **Invoice Reconciliation**\n\n` +
+          (open.length > 0 ? `${open.map(formatOutboxEntry).join('\n\n')}\n\n` : `Nothing waiting.\n\n`) +
+          (reconciled.length > 0 ? `**Recently reconciled:**\n${reconciled.map(formatOutboxEntry).join('\n')}` : '');
 
       callback({
         text: responseText,
-        action: "OPTIMIZE_TERMS_SUCCESS",
-        data: { optimizedTerms, clientHistory: mockClientHistory }
+        action: "LIST_PENDING_INVOICES_SUCCESS",
+        data: { entries: entries.map(({ prepared: _prepared, ...entry }) => entry) }
       });
 
     } catch (error) {
       callback({
-        text: `❌ Failed to optimize terms: ${error.message}`,
-        action: "OPTIMIZE_TERMS_ERROR",
+        text: `❌ Failed to list pending invoices: ${error.message}`,
+        action: "LIST_PENDING_INVOICES_ERROR",
         data: { error: error.message }
       });
     }
@@ -717,13 +2012,69 @@ const optimizeTermsAction: Action = {
     [
       {
         name: "{{user1}}",
-        content: { text: "Optimize payment terms for a $10,000 urgent project" }
+        content: { text: "Show my pending invoices" }
       },
       {
         name: "{{agentName}}",
         content: {
-          text: "I'll analyze the optimal payment terms for your project...",
-          action: "OPTIMIZE_TERMS"
+          text: "Here are the invoices still waiting to go on-chain...",
+          action: "LIST_PENDING_INVOICES"
+        }
+      }
+    ]
+  ]
+};
+
+const retryInvoiceAction: Action = {
+  name: "RETRY_INVOICE",
+  similes: [
+    "retry invoice",
+    "retry pending invoice",
+    "resubmit invoice"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (text.includes("retry") || text.includes("resubmit")) && /\bpending-[a-f0-9]+\b/.test(text);
+  },
+  description: "Retries on-chain creation of a queued invoice immediately, including ones that ran out of automatic retries",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const id = (message.content.text || '').match(/\b(pending-[a-f0-9]+)\b/i)![1].toLowerCase();
+      const entry = await new InvoiceService(runtime).getOutbox().retryNow(message.entityId, id);
+
+      callback({
+        text: entry.status === 'confirmed'
+          ? `✅ **Invoice Reconciled!**\n\n${formatOutboxEntry(entry)}`
+          : `⏳ **Still Not On-Chain**\n\n${formatOutboxEntry(entry)}`,
+        action: entry.status === 'confirmed' ? "RETRY_INVOICE_SUCCESS" : "RETRY_INVOICE_ERROR",
+        data: { id: entry.id, status: entry.status, invoiceId: entry.invoiceId, lastError: entry.lastError }
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to retry invoice: ${error.message}`,
+        action: "RETRY_INVOICE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Retry pending-1a2b3c4d" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Retrying on-chain creation now...",
+          action: "RETRY_INVOICE"
         }
       }
     ]
@@ -740,6 +2091,438 @@ function extractServiceDescription(text: string): string {
   return cleanText || "Professional services";
 }
 
+function formatAmount(value: string | number, currency: string): string {
+  return Money.parse(value, currency).format();
+}
+
+function isPositiveAmount(value: string, currency: string): boolean {
+  try {
+    return !!value && Money.parse(value, currency).isPositive();
+  } catch (error) {
+    return false;
+  }
+}
+
+function formatTaxSummary(tax: TaxBreakdown, currency: string): string {
+  const rateLines = tax.rates
+    .filter(rate => rate.rateBps > 0)
+    .map(rate => `**${tax.taxName} (${rate.rateBps / 100}%):** ${formatAmount(rate.tax, currency)}\n`)
+    .join('');
+
+  return `**Subtotal:** ${formatAmount(tax.subtotal, currency)}\n` +
+    (rateLines || `**${tax.taxName}:** ${formatAmount(tax.taxTotal, currency)}\n`) +
+    `**Total:** ${formatAmount(tax.total, currency)}\n` +
+    (tax.note ? `_${tax.note}_\n` : '');
+}
+
+function formatLineItem(item: LineItem, currency: string): string {
+  if (item.quantity > 1 || item.unit) {
+    const unit = item.unit ? ` ${item.unit}${item.quantity === 1 ? '' : 's'}` : '';
+    return `• ${item.description}: ${item.quantity}${unit} × ${formatAmount(item.unitPrice, currency)} = ${formatAmount(item.total, currency)}`;
+  }
+  return `• ${item.description}: ${formatAmount(item.total, currency)}`;
+}
+
+function formatLineItemMismatch(
+  extraction: { mismatch?: { statedTotal: string; computedTotal: string; difference: string } } | undefined,
+  currency: string
+): string {
+  if (!extraction?.mismatch) {
+    return '';
+  }
+
+  const statedTotal = Money.parse(extraction.mismatch.statedTotal, currency);
+  const computedTotal = Money.parse(extraction.mismatch.computedTotal, currency);
+  const difference = Money.parse(extraction.mismatch.difference, currency);
+  const absoluteDifference = difference.isNegative() ? computedTotal.subtract(statedTotal) : difference;
+
+  return `⚠️ **Total Mismatch:** you mentioned a total of ${statedTotal.format()}, ` +
+    `but the line items add up to ${computedTotal.format()} ` +
+    `(${difference.isPositive() ? 'short by' : 'over by'} ${absoluteDifference.format()}). ` +
+    `The invoice uses the line item total — please confirm or correct the items.\n\n`;
+}
+
+// Submissions without a wallet name the client instead; the address book supplies the wallet
+async function resolveSubmittedClient(invoiceService: InvoiceService, ownerId: string, request: InvoiceRequest): Promise<InvoiceRequest> {
+  const named = request.metadata?.client;
+  if (request.clientAddress || !named) {
+    return request;
+  }
+
+  const client = await invoiceService.getClientDirectory().lookup(ownerId, named.email || named.name || '');
+  const wallet = client && walletFor(client);
+  if (!client || !wallet) {
+    throw new Error(client
+      ? `${client.name} has no ${DEFAULT_CHAIN} wallet on file`
+      : `No client named "${named.name || named.email}" in your address book`);
+  }
+  return { ...request, clientAddress: wallet, metadata: { ...request.metadata, client: clientReference(client) } };
+}
+
+function formatDraft(draft: InvoiceDraft, preview: any): string {
+  const validation = preview.validation as { valid: boolean; errors: string[] };
+  return `**Draft:** ${draft.id}\n` +
+    `**Service:** ${preview.description}\n` +
+    `**Client:** ${preview.metadata.client ? `${preview.metadata.client.name} — ` : ''}` +
+    `${draft.request.clientAddress === ethers.ZeroAddress ? 'wallet not set' : draft.request.clientAddress}\n` +
+    formatTaxSummary(preview.tax, preview.currency) +
+    `**Payment Terms:** Net ${preview.paymentTerms.paymentWindow} days` +
+    `${preview.paymentTerms.requiresApproval ? ', client approval required' : ''}\n` +
+    `**Early Payment Discount:** ${preview.paymentTerms.earlyPaymentDiscountBps / 100}%\n` +
+    `**Template Used:** ${preview.metadata.template}\n\n` +
+    `**Line Items:**\n${preview.lineItems.map((item: LineItem) => formatLineItem(item, preview.currency)).join('\n')}\n\n` +
+    formatLineItemMismatch(preview.metadata.lineItemExtraction, preview.currency) +
+    (validation.valid ? '' : `**Before deploying:**\n${validation.errors.map(e => `• ${e}`).join('\n')}\n\n`) +
+    (draft.lastError ? `⚠️ Last deployment attempt failed: ${draft.lastError}\n\n` : '') +
+    `**Next Steps:**\n` +
+    `1. Edit anything with a follow-up, e.g. "change the amount to 4500" or "set client to 0x…"\n` +
+    `2. Say "deploy invoice ${draft.id}" to put it on the blockchain\n\n` +
+    `Nothing has been deployed yet.`;
+}
+
+function formatClient(client: Client): string {
+  const terms = client.defaultTerms || {};
+  const termParts = [
+    terms.paymentWindow !== undefined ? `Net ${terms.paymentWindow}` : '',
+    terms.earlyPaymentDiscountBps !== undefined ? `${terms.earlyPaymentDiscountBps / 100}% early payment discount` : '',
+    terms.requiresApproval !== undefined ? (terms.requiresApproval ? 'approval required' : 'no approval') : ''
+  ].filter(Boolean);
+  const wallets = Object.entries(client.wallets);
+
+  return `**${client.name}** (${client.id})\n` +
+    `• Email: ${client.email || 'n/a'}\n` +
+    `• Wallets: ${wallets.length > 0 ? wallets.map(([chain, address]) => `${address} (${chain})`).join(', ') : 'none'}\n` +
+    (client.defaultCurrency ? `• Default currency: ${client.defaultCurrency}\n` : '') +
+    (termParts.length > 0 ? `• Default terms: ${termParts.join(', ')}\n` : '') +
+    (client.billingAddress ? `• Billing address: ${client.billingAddress}\n` : '') +
+    (client.taxId ? `• Tax ID: ${client.taxId}\n` : '');
+}
+
+// A client ID, a quoted name, an email, or the words after "client"
+function extractClientQuery(text: string): string | undefined {
+  const idMatch = text.match(/\b(client-[a-f0-9]+)\b/i);
+  if (idMatch) return idMatch[1].toLowerCase();
+
+  const quotedMatch = text.match(/\bclient\s+["“]([^"”]+)["”]/i);
+  if (quotedMatch) return quotedMatch[1].trim();
+
+  const emailMatch = text.match(/[^\s@,;:]+@[^\s@,;:]+\.[a-z]{2,}/i);
+  const nameMatch = text.match(/\bclient\s+(?:named\s+)?([a-z0-9][\w&.'\- ]*?)\s*(?=[,:;]|\s+(?:with|email|wallet|address|currency|net|billing|tax|vat|rename)\b|$)/i);
+  if (nameMatch) return nameMatch[1].trim();
+
+  return emailMatch ? emailMatch[0] : undefined;
+}
+
+// Structured payloads (e.g. from the dashboard) take precedence over free text
+function structuredPayload<T>(message: Memory, field: string): T | undefined {
+  const structured = message.content[field];
+  return structured && typeof structured === 'object' ? structured as T : undefined;
+}
+
+// The provider wallet the agent signs invoices with
+function agentWalletAddress(): string | undefined {
+  return process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY).address : undefined;
+}
+
+/**
+ * A deployment needs a named draft ("deploy invoice draft-1a2b3c4d") or a confirmation aimed at the
+ * open draft ("deploy it", "confirm the invoice"); a question or any other mention of deploying
+ * must not put the latest draft on chain.
+ */
+function isDeployConfirmation(text: string): boolean {
+  const lower = text.toLowerCase().trim();
+  if (lower.endsWith('?') || /\b(recurring|milestone|credit note|amend|template)\b/.test(lower)) {
+    return false;
+  }
+  if (!/\b(deploy|confirm|publish|send)\b/.test(lower)) {
+    return false;
+  }
+  return extractDraftId(lower) !== undefined ||
+    /\b(?:deploy|confirm|publish)\s+(?:it|this|that|(?:the|this|my)\s+(?:invoice|draft)|invoice|draft)\b/.test(lower) ||
+    /\bsend\s+(?:it|the\s+invoice|invoice)\s+to\s+(?:the\s+)?blockchain\b/.test(lower);
+}
+
+function extractClientInput(message: Memory): Partial<ClientInput> {
+  const structured = structuredPayload<Partial<ClientInput>>(message, 'client');
+  if (structured) {
+    return structured;
+  }
+
+  const text = message.content.text || '';
+  const input: Partial<ClientInput> = {};
+
+  const name = extractClientQuery(text.replace(/\brename\s+(?:it\s+)?to\s+["“][^"”]+["”]/i, ''));
+  if (name && !name.startsWith('client-') && !name.includes('@')) input.name = name;
+
+  const emailMatch = text.match(/[^\s@,;:]+@[^\s@,;:]+\.[a-z]{2,}/i);
+  if (emailMatch) input.email = emailMatch[0];
+
+  const wallets: Record<string, string> = {};
+  for (const match of text.matchAll(/\b(?:wallet|address)(?:\s+on\s+([a-z0-9-]+))?\s*:?\s*(0x[a-fA-F0-9]{40})/gi)) {
+    wallets[(match[1] || DEFAULT_CHAIN).toLowerCase()] = match[2];
+  }
+  if (Object.keys(wallets).length > 0) input.wallets = wallets;
+
+  // Currency and terms read the same way as draft edits ("currency USDC", "net 15", "2% discount", "no approval")
+  const terms = parseDraftEdit(text);
+  if (terms.currency) input.defaultCurrency = terms.currency;
+  const defaultTerms: Client['defaultTerms'] = {};
+  if (terms.paymentWindow !== undefined) defaultTerms.paymentWindow = terms.paymentWindow;
+  if (terms.earlyPaymentDiscountBps !== undefined) defaultTerms.earlyPaymentDiscountBps = terms.earlyPaymentDiscountBps;
+  if (terms.requiresApproval !== undefined) defaultTerms.requiresApproval = terms.requiresApproval;
+  if (Object.keys(defaultTerms).length > 0) input.defaultTerms = defaultTerms;
+
+  const billingMatch = text.match(/\bbilling address\s*:?\s*["“]([^"”]+)["”]/i);
+  if (billingMatch) input.billingAddress = billingMatch[1];
+
+  const taxId = parseTaxContext(text).clientTaxId;
+  if (taxId) input.taxId = taxId;
+
+  return input;
+}
+
+function formatOutboxEntry(entry: OutboxEntry): string {
+  const amount = entry.prepared ? formatAmount(entry.prepared.ipfsData.amount, entry.request.currency) : formatAmount(entry.request.amount, entry.request.currency);
+  const header = `**${entry.id}** — ${entry.request.description} (${amount})`;
+
+  switch (entry.status) {
+    case 'confirmed':
+      return `✅ ${header} → on-chain invoice #${entry.invoiceId}`;
+    case 'failed':
+      return `🛑 ${header}\n• Gave up after ${entry.attempts} attempts: ${entry.lastError}\n• Say "retry ${entry.id}" to try again`;
+    case 'submitting':
+      return `🔄 ${header}\n• Submitting now (attempt ${entry.attempts + 1})`;
+    default:
+      return `⏳ ${header}\n• Not on-chain yet — ${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'}, next ${formatScheduleDate(entry.nextAttemptAt)} ${entry.nextAttemptAt?.slice(11, 16) || ''} UTC\n` +
+        `• Last error: ${entry.lastError}`;
+  }
+}
+
+function formatTemplateSummary(template: InvoiceTemplate): string {
+  return `**${template.name}** (${template.id})${template.builtIn ? '' : ' — custom'}\n` +
+    `• ${template.description}\n` +
+    `• Default Terms: Net ${template.defaultTerms.paymentWindow} days\n` +
+    `• Early Discount: ${template.defaultTerms.earlyPaymentDiscountBps / 100}%\n` +
+    `• Requires Approval: ${template.defaultTerms.requiresApproval ? 'Yes' : 'No'}\n` +
+    (template.lineItems.length > 0
+      ? `• Line Items: ${template.lineItems.map(item => item.description).join(', ')}\n`
+      : '');
+}
+
+function extractTemplateInput(message: Memory): Partial<InvoiceTemplate> {
+  const structured = structuredPayload<Partial<InvoiceTemplate>>(message, 'template');
+  if (structured) {
+    return structured;
+  }
+
+  const text = message.content.text || '';
+  const input: Partial<InvoiceTemplate> = {};
+  const terms: Partial<PaymentTerms> = {};
+
+  const idMatch = text.match(/template\s+(?!(?:named|called|to|as)\b)["']?([a-z0-9][a-z0-9-]+)/i);
+  if (idMatch) input.id = idMatch[1].toLowerCase();
+
+  const nameMatch = text.match(/(?:named|called)\s+["']([^"']+)["']/i);
+  if (nameMatch) input.name = nameMatch[1].trim();
+
+  const descriptionMatch = text.match(/description\s+["']([^"']+)["']/i);
+  if (descriptionMatch) input.description = descriptionMatch[1].trim();
+
+  const windowMatch = text.match(/net\s*(\d+)/i);
+  if (windowMatch) terms.paymentWindow = parseInt(windowMatch[1]);
+
+  const discountMatch = text.match(/(\d+(?:\.\d+)?)\s*%\s*(?:early(?:\s+payment)?\s+)?discount/i);
+  if (discountMatch) terms.earlyPaymentDiscountBps = Math.round(parseFloat(discountMatch[1]) * 100);
+
+  if (/no approval|without approval/i.test(text)) terms.requiresApproval = false;
+  else if (/requires? approval/i.test(text)) terms.requiresApproval = true;
+
+  const currencyMatch = text.match(/\b(USDC|USDT|USD|SEI)\b/i);
+  if (currencyMatch) terms.currency = currencyMatch[1].toUpperCase();
+
+  if (Object.keys(terms).length > 0) {
+    input.defaultTerms = terms as PaymentTerms;
+  }
+
+  const lineItems: LineItem[] = [];
+  const itemCurrency = CURRENCY_DECIMALS[terms.currency || 'USD'] !== undefined ? terms.currency || 'USD' : 'USD';
+  for (const match of text.matchAll(/item\s+"([^"]+)"(?:\s+(\d+(?:\.\d+)?)\s*x\s*\$?(\d+(?:\.\d+)?))?/gi)) {
+    const quantity = match[2] ? parseFloat(match[2]) : 1;
+    const unitPrice = match[3] ? parseFloat(match[3]) : 0;
+    const total = Money.parse(unitPrice, itemCurrency).multiply(quantity).toNumber();
+    lineItems.push({ description: match[1], quantity, unitPrice, total });
+  }
+  if (lineItems.length > 0) input.lineItems = lineItems;
+
+  const customFields: CustomField[] = [];
+  for (const match of text.matchAll(/field\s+"([^"]+)"(?:\s+(text|number|date|boolean))?/gi)) {
+    customFields.push({ name: match[1], value: '', type: (match[2]?.toLowerCase() || 'text') as CustomField['type'] });
+  }
+  if (customFields.length > 0) input.customFields = customFields;
+
+  return input;
+}
+
+function extractCloneTargetId(text: string): string | undefined {
+  const match = text.match(/\s(?:as|into)\s+["']?([a-z0-9][a-z0-9-]+)/i);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+function formatSchedule(schedule: RecurringSchedule): string {
+  const statusIcon = schedule.status === 'active' ? '🟢' : schedule.status === 'paused' ? '⏸️' : '✅';
+  const pending = schedule.issued.filter(period => !period.onChain && !period.failed).length;
+  const failed = schedule.issued.filter(period => period.failed);
+  const latest = schedule.issued[schedule.issued.length - 1];
+  return `${statusIcon} **${schedule.id}** — ${schedule.description}\n` +
+    `• Client: ${schedule.clientAddress}\n` +
+    `• Amount: ${formatAmount(schedule.amount, schedule.currency)} per period\n` +
+    `• Cadence: ${describeCadence(schedule.cadence)}\n` +
+    `• Runs: ${formatScheduleDate(schedule.startDate)}${schedule.endDate ? ` → ${formatScheduleDate(schedule.endDate)}` : ' (no end date)'}` +
+    `${schedule.prorate ? ', prorated' : ''}\n` +
+    `• Status: ${schedule.status}${schedule.nextRunAt && schedule.status === 'active' ? ` — next invoice ${formatScheduleDate(schedule.nextRunAt)}` : ''}\n` +
+    `• Issued: ${schedule.issued.length} invoice${schedule.issued.length === 1 ? '' : 's'}` +
+    (latest ? `, latest ${latest.onChain ? `#${latest.invoiceId}` : latest.invoiceId} for ${formatScheduleDate(latest.periodStart)}` : '') +
+    (pending > 0 ? ` (${pending} awaiting on-chain creation)` : '') +
+    failed.map(period => `\n• 🛑 ${formatScheduleDate(period.periodStart)} invoice ${period.invoiceId} was not created on-chain: ` +
+      `${period.failed}. Say "retry ${period.invoiceId}" to try again`).join('') +
+    (schedule.lastError ? `\n• ⚠️ Last attempt failed: ${schedule.lastError}` : '');
+}
+
+function formatScheduleDate(value?: string): string {
+  return value ? value.slice(0, 10) : 'n/a';
+}
+
+function extractScheduleId(text: string): string | undefined {
+  const match = text.match(/\b(rec-[a-f0-9]+)\b/i);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+function extractScheduleInput(message: Memory): RecurringScheduleInput {
+  const structured = structuredPayload<RecurringScheduleInput>(message, 'schedule');
+  if (structured) {
+    return structured;
+  }
+
+  const text = message.content.text || '';
+  const startMatch = text.match(/\b(?:starting|start(?:s|ing)? on|from|beginning)\s+(\d{4}-\d{2}-\d{2})/i);
+  const endMatch = text.match(/\b(?:until|through|ending(?: on)?|till|ends? on)\s+(\d{4}-\d{2}-\d{2})/i);
+  const startDate = startMatch ? startMatch[1] : new Date().toISOString().slice(0, 10);
+
+  // Dates and addresses contain digits too, so look for the amount without them
+  const amountText = text
+    .replace(/0x[a-fA-F0-9]{40}/g, ' ')
+    .replace(/\d{4}-\d{2}-\d{2}/g, ' ')
+    .replace(/cron\s+["'`][^"'`]+["'`]/i, ' ')
+    .replace(/\b\d{1,2}(?:st|nd|rd|th)\b/gi, ' ');
+  const currencyMatch = text.match(/\b(USDC|USDT|USD|SEI)\b/i);
+  const addressMatch = text.match(/0x[a-fA-F0-9]{40}/);
+  const descriptionMatch = text.match(/\bfor\s+["']([^"']+)["']/i);
+
+  return {
+    clientAddress: addressMatch ? addressMatch[0] : '',
+    description: descriptionMatch ? descriptionMatch[1].trim() : 'Recurring services',
+    amount: findAmount(amountText) || '',
+    currency: currencyMatch ? currencyMatch[1].toUpperCase() : 'USD',
+    cadence: extractCadence(text, new Date(startDate)),
+    startDate,
+    endDate: endMatch ? endMatch[1] : undefined,
+    prorate: !/\b(?:no|without|don'?t)\s+prorat/i.test(text),
+    tax: parseTaxContext(text)
+  };
+}
+
+function extractCadence(text: string, startDate: Date): Cadence {
+  const cronMatch = text.match(/cron\s+["'`]([^"'`]+)["'`]/i);
+  if (cronMatch) {
+    return { type: 'cron', expression: cronMatch[1].trim() };
+  }
+
+  if (/\b(?:weekly|every week|per week|each week)\b/i.test(text)) {
+    const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+    const dayMatch = text.toLowerCase().match(/\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?\b/);
+    const dayOfWeek = dayMatch ? weekdays.indexOf(dayMatch[1]) : startDate.getUTCDay();
+    return { type: 'weekly', dayOfWeek: isNaN(dayOfWeek) ? 1 : dayOfWeek };
+  }
+
+  const dayMatch = text.match(/\bon the (\d{1,2})(?:st|nd|rd|th)?\b/i);
+  const dayOfMonth = dayMatch ? parseInt(dayMatch[1]) : startDate.getUTCDate();
+  return { type: 'monthly', dayOfMonth: isNaN(dayOfMonth) ? 1 : dayOfMonth };
+}
+
+const MILESTONE_ICONS: Record<string, string> = {
+  scheduled: '🗓️',
+  open: '📬',
+  funded: '🔒',
+  released: '✅',
+  disputed: '⚠️',
+  cancelled: '🚫',
+  refunded: '↩️'
+};
+
+function formatMilestonePlan(plan: MilestonePlan): string {
+  const progress = calculateProgress(plan);
+  const milestones = plan.milestones.map((milestone, i) =>
+    `${MILESTONE_ICONS[milestone.status]} ${i + 1}. ${milestone.title} — ${formatAmount(milestone.amount, plan.currency)}` +
+    `${milestone.percentageBps !== undefined ? ` (${milestone.percentageBps / 100}%)` : ''}` +
+    ` due ${formatScheduleDate(milestone.dueDate)}, ${milestone.status}` +
+    `${milestone.escrowInvoiceId !== undefined ? `, escrow #${milestone.escrowInvoiceId}` : ''}` +
+    `${milestone.requiresApproval ? '' : ', no approval needed'}` +
+    (milestone.lastError ? `\n   ⚠️ ${milestone.lastError}` : '')
+  ).join('\n');
+
+  return `**${plan.id}** — ${plan.title}\n` +
+    `• Client: ${plan.clientAddress}\n` +
+    `• Total: ${formatAmount(plan.total, plan.currency)} (before tax)\n` +
+    `• Released: ${formatAmount(progress.released, plan.currency)} (${progress.releasedBps / 100}%)` +
+    ` · In escrow: ${formatAmount(progress.funded, plan.currency)}` +
+    ` · Outstanding: ${formatAmount(progress.outstanding, plan.currency)}\n` +
+    milestones;
+}
+
+function extractMilestonePlanId(text: string): string | undefined {
+  const match = text.match(/\b(ms-[a-f0-9]+)\b/i);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+function extractMilestonePlanInput(message: Memory): MilestonePlanInput {
+  const structured = structuredPayload<MilestonePlanInput>(message, 'milestonePlan');
+  if (structured) {
+    return structured;
+  }
+
+  // e.g. "Design" 30% due 2026-11-30, "Launch" $6000 due 2027-02-01 no approval
+  const text = message.content.text || '';
+  const milestonePattern = /["“]([^"”]+)["”]\s+([^"“]*?)\bdue\s+(\d{4}-\d{2}-\d{2})([^"“]*)/gi;
+  const milestones: MilestoneInput[] = [];
+
+  for (const match of text.matchAll(milestonePattern)) {
+    const percentMatch = match[2].match(/(\d+(?:\.\d+)?)\s*%/);
+    milestones.push({
+      title: match[1].trim(),
+      percentage: percentMatch ? parseFloat(percentMatch[1]) : undefined,
+      amount: percentMatch ? undefined : findAmount(match[2]) || undefined,
+      dueDate: match[3],
+      requiresApproval: !/\b(?:no|without)\s+approval\b/i.test(match[4])
+    });
+  }
+
+  // Quoted titles may contain numbers, so drop them before looking for the plan total
+  const unquoted = text.replace(/["“][^"”]*["”]/g, ' ');
+  const titleMatch = text.match(/\b(?:project|titled|called)\s+["“]([^"”]+)["”]/i);
+  const totalMatch = unquoted.match(/\btotal\s+(?:of\s+)?(.+)/i);
+  const currencyMatch = text.match(/\b(USDC|USDT|USD|SEI)\b/i);
+  const addressMatch = text.match(/0x[a-fA-F0-9]{40}/);
+
+  return {
+    clientAddress: addressMatch ? addressMatch[0] : '',
+    title: titleMatch ? titleMatch[1].trim() : 'Milestone project',
+    currency: currencyMatch ? currencyMatch[1].toUpperCase() : 'USD',
+    total: totalMatch ? findAmount(totalMatch[1]) || undefined : undefined,
+    tax: parseTaxContext(text),
+    milestones: milestones.filter(milestone => !titleMatch || milestone.title !== titleMatch[1].trim())
+  };
+}
+
 function extractOptimizationContext(text: string): any {
   const context: any = {};
   
@@ -749,9 +2532,9 @@ function extractOptimizationContext(text: string): any {
   }
   
   // Extract amount
-  const amountMatch = text.match(/\$?(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/);
-  if (amountMatch) {
-    context.amount = parseFloat(amountMatch[1].replace(',', ''));
+  const amount = findAmount(text);
+  if (amount) {
+    context.amount = Money.parse(amount, 'USD');
   }
   
   return context;
@@ -775,7 +2558,34 @@ const invoiceSuccessEvaluator: Evaluator = {
 export const invoicePlugin: Plugin = {
   name: "invoice",
   description: "Handles intelligent invoice generation and management with templates and optimization",
-  actions: [generateInvoiceAction, listTemplatesAction, optimizeTermsAction],
+  // A bad arbitrator setting would fail every submission and leave the invoices retrying in the outbox
+  init: async () => {
+    invoiceArbitrator(agentWalletAddress());
+  },
+  actions: [
+    generateInvoiceAction,
+    editInvoiceDraftAction,
+    deployInvoiceAction,
+    previewTaxAction,
+    listPendingInvoicesAction,
+    retryInvoiceAction,
+    addClientAction,
+    updateClientAction,
+    lookupClientAction,
+    listTemplatesAction,
+    createTemplateAction,
+    updateTemplateAction,
+    deleteTemplateAction,
+    cloneTemplateAction,
+    optimizeTermsAction,
+    createRecurringInvoiceAction,
+    pauseRecurringInvoiceAction,
+    resumeRecurringInvoiceAction,
+    listRecurringInvoicesAction,
+    createMilestonePlanAction,
+    milestoneProgressAction
+  ],
   evaluators: [invoiceSuccessEvaluator],
-  providers: []
+  providers: [],
+  services: [InvoiceAutomationService]
 };
\ No newline at end of file
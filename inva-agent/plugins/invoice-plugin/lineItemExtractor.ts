@@ -0,0 +1,266 @@
+import { IAgentRuntime, ModelType } from "@elizaos/core";
+import Money from '../../src/services/money.ts';
+import { validateLineItem } from './templateRegistry.ts';
+import { LineItem } from './types.ts';
+
+// Amounts are decimal strings in the invoice currency
+export interface LineItemExtraction {
+  lineItems: LineItem[];
+  subtotal: string;
+  statedTotal?: string;
+  mismatch?: {
+    statedTotal: string;
+    computedTotal: string;
+    difference: string;
+  };
+  source: 'model' | 'parser';
+}
+
+const MONEY = String.raw`\$?\s*(\d[\d,]*(?:\.\d+)?)\s*(?:usd|usdc|dollars)?`;
+const UNIT = String.raw`(hours?|hrs?|days?|weeks?|months?|pages?|screens?|revisions?|licen[cs]es?|seats?|sessions?|units?|items?|h)\b`;
+const PER_UNIT = String.raw`(?:\s*(?:\/|per|an?)\s*${UNIT})?`;
+
+const UNIT_NAMES: Array<[RegExp, string]> = [
+  [/^(hours?|hrs?|h)$/, 'hour'],
+  [/^days?$/, 'day'],
+  [/^weeks?$/, 'week'],
+  [/^months?$/, 'month'],
+  [/^pages?$/, 'page'],
+  [/^screens?$/, 'screen'],
+  [/^revisions?$/, 'revision'],
+  [/^licen[cs]es?$/, 'license'],
+  [/^seats?$/, 'seat'],
+  [/^sessions?$/, 'session'],
+  [/^(units?|items?)$/, 'unit']
+];
+
+// "40 hours frontend at $85/hr"
+const QUANTITY_FIRST = new RegExp(String.raw`(\d+(?:\.\d+)?)\s*${UNIT}\s+(?:of\s+)?(.+?)\s+(?:at|@)\s+${MONEY}${PER_UNIT}`, 'i');
+// "Frontend: 40 hrs x $85"
+const DESCRIPTION_FIRST = new RegExp(String.raw`^(.+?)[:\-–]?\s+(\d+(?:\.\d+)?)\s*${UNIT}\s*(?:x|×|at|@)\s*${MONEY}${PER_UNIT}`, 'i');
+// "3 logo concepts at $400 each"
+const COUNTED_ITEMS = new RegExp(String.raw`(\d+(?:\.\d+)?)\s*(?:x\s*)?([a-z].*?)\s+(?:at|@)\s+${MONEY}\s*(?:each|apiece)?`, 'i');
+// "Hosting setup for $300" / "Logo design worth $300" / "Hosting setup: $300"
+const FIXED_PRICE = new RegExp(String.raw`^(.+?)\s*(?:\bfor\b|\bworth\b|:|=|-|–)\s*${MONEY}$`, 'i');
+// "$300 for hosting setup"
+const PRICE_FIRST = new RegExp(String.raw`^${MONEY}\s+(?:for\s+)?(.+)$`, 'i');
+
+const STATED_TOTAL = new RegExp(String.raw`(?:\btotal(?:ling|ing)?(?:\s+(?:of|is|=))?|\bin\s+total|\baltogether|\boverall)\s*:?\s*${MONEY}|${MONEY}\s+total\b`, 'i');
+const SEGMENT_SEPARATOR = /\s*(?:;|\n|,(?!\d{3}(?!\d))|\band\b|\bplus\b|\+)\s*/i;
+
+
+/**
+ * Turns free-text work descriptions into priced line items.
+ * Uses the agent's language model when one is registered, and the
+ * deterministic grammar parser below otherwise (or when the model output is unusable).
+ */
+export default class LineItemExtractor {
+  private runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  async extract(description: string, currency: string = 'USD'): Promise<LineItemExtraction> {
+    const modelResult = await this.extractWithModel(description, currency);
+    if (modelResult) {
+      return modelResult;
+    }
+
+    const parsed = parseLineItems(description, currency);
+    return reconcile(parsed.lineItems, parsed.statedTotal, currency, 'parser');
+  }
+
+  private async extractWithModel(description: string, currency: string): Promise<LineItemExtraction | null> {
+    if (typeof this.runtime?.useModel !== 'function') {
+      return null;
+    }
+
+    try {
+      const response = await this.runtime.useModel(ModelType.TEXT_SMALL, {
+        prompt: buildExtractionPrompt(description)
+      });
+
+      const json = String(response).match(/\{[\s\S]*\}/);
+      if (!json) return null;
+
+      const parsed = JSON.parse(json[0]);
+      if (!Array.isArray(parsed.lineItems) || parsed.lineItems.length === 0) return null;
+
+      // Never trust model arithmetic: totals are recomputed from quantity x unit price
+      const lineItems: LineItem[] = parsed.lineItems.map((item: any) => {
+        const quantity = Number(item.quantity ?? 1);
+        const unitPrice = Number(item.unitPrice);
+        return {
+          description: String(item.description || '').trim(),
+          quantity,
+          unitPrice,
+          total: lineTotal(quantity, unitPrice, currency),
+          unit: item.unit ? normalizeUnit(String(item.unit)) : undefined,
+          category: item.category ? String(item.category).toLowerCase() : inferCategory(String(item.description || ''))
+        };
+      });
+
+      if (lineItems.some(item => validateLineItem(item).length > 0)) {
+        return null;
+      }
+
+      const statedTotal = Number.isFinite(Number(parsed.statedTotal)) && parsed.statedTotal !== null
+        ? String(parsed.statedTotal)
+        : parseLineItems(description, currency).statedTotal;
+
+      return reconcile(lineItems, statedTotal, currency, 'model');
+    } catch (error) {
+      console.warn('⚠️ Model line-item extraction unavailable, using parser:', error.message);
+      return null;
+    }
+  }
+}
+
+export function parseLineItems(
+  description: string,
+  currency: string = 'USD'
+): { lineItems: LineItem[]; statedTotal?: string } {
+  let text = description;
+  let statedTotal: string | undefined;
+
+  const totalMatch = text.match(STATED_TOTAL);
+  if (totalMatch) {
+    statedTotal = (totalMatch[1] || totalMatch[2]).replace(/,/g, '');
+    text = text.replace(totalMatch[0], ' ');
+  }
+
+  const lineItems: LineItem[] = [];
+
+  for (const segment of text.split(SEGMENT_SEPARATOR)) {
+    const item = parseSegment(segment.trim(), currency);
+    if (item) {
+      lineItems.push(item);
+    }
+  }
+
+  return { lineItems, statedTotal };
+}
+
+function parseSegment(segment: string, currency: string): LineItem | null {
+  if (!segment || !/\d/.test(segment)) {
+    return null;
+  }
+
+  let match = segment.match(QUANTITY_FIRST);
+  if (match) {
+    return buildItem(match[3], parseFloat(match[1]), parseMoney(match[4]), currency, match[2]);
+  }
+
+  match = segment.match(DESCRIPTION_FIRST);
+  if (match) {
+    return buildItem(match[1], parseFloat(match[2]), parseMoney(match[4]), currency, match[3]);
+  }
+
+  match = segment.match(COUNTED_ITEMS);
+  if (match) {
+    return buildItem(match[2], parseFloat(match[1]), parseMoney(match[3]), currency);
+  }
+
+  match = segment.match(FIXED_PRICE);
+  if (match && /[a-z]/i.test(match[1])) {
+    return buildItem(match[1], 1, parseMoney(match[2]), currency);
+  }
+
+  match = segment.match(PRICE_FIRST);
+  if (match && /[a-z]/i.test(match[2])) {
+    return buildItem(match[2], 1, parseMoney(match[1]), currency);
+  }
+
+  return null;
+}
+
+function buildItem(
+  rawDescription: string,
+  quantity: number,
+  unitPrice: number,
+  currency: string,
+  rawUnit?: string
+): LineItem | null {
+  const description = cleanDescription(rawDescription);
+  if (!description || !Number.isFinite(quantity) || !Number.isFinite(unitPrice)) {
+    return null;
+  }
+
+  return {
+    description,
+    quantity,
+    unitPrice,
+    total: lineTotal(quantity, unitPrice, currency),
+    unit: rawUnit ? normalizeUnit(rawUnit) : undefined,
+    category: inferCategory(description)
+  };
+}
+
+function reconcile(
+  lineItems: LineItem[],
+  statedTotal: string | undefined,
+  currency: string,
+  source: 'model' | 'parser'
+): LineItemExtraction {
+  const subtotal = Money.sum(lineItems.map(item => Money.parse(item.total, currency)), currency);
+  const extraction: LineItemExtraction = { lineItems, subtotal: subtotal.toDecimalString(), source };
+
+  if (statedTotal !== undefined) {
+    const stated = Money.parse(statedTotal, currency);
+    extraction.statedTotal = stated.toDecimalString();
+
+    // Exact comparison: amounts are already rounded to the currency's minor unit
+    if (lineItems.length > 0 && !stated.equals(subtotal)) {
+      extraction.mismatch = {
+        statedTotal: stated.toDecimalString(),
+        computedTotal: subtotal.toDecimalString(),
+        difference: stated.subtract(subtotal).toDecimalString()
+      };
+    }
+  }
+
+  return extraction;
+}
+
+function buildExtractionPrompt(description: string): string {
+  return `Extract invoice line items from the work description below.\n` +
+    `Respond with JSON only, in this shape:\n` +
+    `{"lineItems":[{"description":string,"quantity":number,"unit":string|null,"unitPrice":number,"category":"development"|"design"|"consulting"|"service"}],"statedTotal":number|null}\n` +
+    `Use the unit price exactly as written; do not invent prices. statedTotal is the overall total if the text states one.\n\n` +
+    `Description: """${description}"""`;
+}
+
+function cleanDescription(raw: string): string {
+  const cleaned = raw
+    .replace(/^(?:invoice|bill|charge)\s+(?:\w+\s+)?for\s+/i, '')
+    .replace(/^(?:for|of|on|including|with)\s+/i, '')
+    .replace(/[\s:,.-]+$/, '')
+    .trim();
+
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+}
+
+function normalizeUnit(unit: string): string {
+  const lower = unit.toLowerCase();
+  const known = UNIT_NAMES.find(([pattern]) => pattern.test(lower));
+  return known ? known[1] : lower;
+}
+
+function inferCategory(description: string): string {
+  const text = description.toLowerCase();
+
+  if (/design|logo|brand|ui\b|ux\b|mockup|illustration/.test(text)) return 'design';
+  if (/consult|advice|strategy|audit|workshop/.test(text)) return 'consulting';
+  if (/develop|frontend|backend|api|database|coding|web|app|integration/.test(text)) return 'development';
+
+  return 'service';
+}
+
+function parseMoney(value: string): number {
+  return parseFloat(value.replace(/,/g, ''));
+}
+
+function lineTotal(quantity: number, unitPrice: number, currency: string): number {
+  return Money.parse(unitPrice, currency).multiply(quantity).toNumber();
+}
@@ -0,0 +1,406 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { randomBytes } from 'crypto';
+import Money from '../../src/services/money.ts';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { TaxContext } from './taxEngine.ts';
+import { InvoiceRequest } from './types.ts';
+
+// scheduled: no escrow entry yet (due date beyond the escrow's payment window, or escrow unavailable)
+export type MilestoneStatus = 'scheduled' | 'open' | 'funded' | 'released' | 'disputed' | 'cancelled' | 'refunded';
+
+export interface Milestone {
+  title: string;
+  percentageBps?: number; // share of the plan total, e.g. 3000 = 30%
+  fixedAmount?: string;
+  amount: string; // resolved tranche amount before tax
+  dueDate: string;
+  requiresApproval: boolean;
+  status: MilestoneStatus;
+  escrowInvoiceId?: number;
+  txHash?: string;
+  invoiceTotal?: string; // tranche amount including tax, as escrowed
+  lastError?: string;
+  updatedAt: string;
+}
+
+export interface MilestonePlan {
+  id: string;
+  ownerId: string;
+  clientAddress: string;
+  title: string;
+  currency: string;
+  total: string;
+  tax?: TaxContext;
+  earlyPaymentDiscountBps?: number;
+  milestones: Milestone[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MilestoneInput {
+  title: string;
+  percentage?: number; // percent, e.g. 30
+  amount?: string;
+  dueDate: string;
+  requiresApproval?: boolean;
+}
+
+export interface MilestonePlanInput {
+  clientAddress: string;
+  title: string;
+  currency: string;
+  total?: string; // required when any milestone is a percentage
+  tax?: TaxContext;
+  earlyPaymentDiscountBps?: number;
+  milestones: MilestoneInput[];
+}
+
+export interface MilestoneProgress {
+  total: string;
+  released: string;
+  funded: string;
+  outstanding: string;
+  releasedBps: number;
+  counts: Record<MilestoneStatus, number>;
+  nextDue?: Milestone;
+}
+
+// What the planner needs from InvoiceService
+export interface EscrowGateway {
+  deployInvoice(request: InvoiceRequest, ownerId?: string, idempotencyKey?: string): Promise<any>;
+  getEscrowStatus(invoiceId: number): Promise<number>;
+  getLatestInvoiceId(invoiceId: number): Promise<number>;
+}
+
+// InvoiceEscrow.InvoiceStatus enum order; Superseded tranches follow their amendment instead,
+// and a tranche paid in installments stays open until its balance is settled
+const ESCROW_STATUSES: (MilestoneStatus | undefined)[] = ['open', 'funded', 'funded', 'released', 'disputed', 'cancelled', 'refunded', undefined, 'open'];
+const ESCROW_SUPERSEDED = 7;
+
+// Plans whose tranches are being deployed right now (handlers and the background tick share them)
+const deploying: Set<string> = new Set();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_PAYMENT_WINDOW_DAYS = 1;
+const MAX_PAYMENT_WINDOW_DAYS = 90; // InvoiceEscrow.MAX_PAYMENT_WINDOW
+
+/**
+ * Splits a project into milestone tranches, each backed by its own InvoiceEscrow entry.
+ * A tranche's funds are only released once the client approves that escrow entry
+ * (unless the milestone opts out of approval).
+ */
+export default class MilestonePlanner {
+  private store: RuntimeStore<MilestonePlan>;
+  private gateway: EscrowGateway;
+
+  constructor(runtime: IAgentRuntime, gateway: EscrowGateway) {
+    this.store = new RuntimeStore<MilestonePlan>(runtime, 'milestone-plans');
+    this.gateway = gateway;
+  }
+
+  async get(ownerId: string, id: string): Promise<MilestonePlan | undefined> {
+    const plan = await this.store.get(id);
+    return plan && plan.ownerId === ownerId ? plan : undefined;
+  }
+
+  async list(ownerId: string): Promise<MilestonePlan[]> {
+    const plans = await this.store.list(plan => plan.ownerId === ownerId);
+    return plans.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async create(ownerId: string, input: MilestonePlanInput, now: Date = new Date()): Promise<MilestonePlan> {
+    const errors = validateMilestonePlan(input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid milestone plan: ${errors.join(', ')}`);
+    }
+
+    const amounts = resolveTrancheAmounts(input);
+    const timestamp = now.toISOString();
+
+    const plan: MilestonePlan = {
+      id: `ms-${randomBytes(4).toString('hex')}`,
+      ownerId,
+      clientAddress: input.clientAddress,
+      title: input.title,
+      currency: input.currency.toUpperCase(),
+      total: Money.sum(amounts, input.currency).toDecimalString(),
+      tax: input.tax,
+      earlyPaymentDiscountBps: input.earlyPaymentDiscountBps,
+      milestones: input.milestones
+        .map((milestone, i) => ({
+          title: milestone.title.trim(),
+          percentageBps: milestone.percentage !== undefined ? Math.round(milestone.percentage * 100) : undefined,
+          fixedAmount: milestone.amount,
+          amount: amounts[i].toDecimalString(),
+          dueDate: new Date(milestone.dueDate).toISOString(),
+          requiresApproval: milestone.requiresApproval ?? true,
+          status: 'scheduled' as MilestoneStatus,
+          updatedAt: timestamp
+        }))
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    await this.store.set(plan.id, plan);
+    return this.deployDue(plan.id, now);
+  }
+
+  /**
+   * Creates escrow entries for milestones whose due date is within the escrow's maximum payment window.
+   * Each tranche is saved as soon as its escrow exists, so a failure part-way never deploys it twice.
+   */
+  async deployDue(planId: string, now: Date = new Date()): Promise<MilestonePlan> {
+    const plan = await this.store.get(planId);
+    if (!plan) {
+      throw new Error(`Milestone plan not found: ${planId}`);
+    }
+    if (deploying.has(planId)) {
+      return plan;
+    }
+    deploying.add(planId);
+
+    let current = plan;
+    try {
+      for (const [index, milestone] of plan.milestones.entries()) {
+        if (milestone.status !== 'scheduled' || daysUntil(milestone.dueDate, now) > MAX_PAYMENT_WINDOW_DAYS) {
+          continue;
+        }
+
+        let change: Partial<Milestone>;
+        try {
+          // One escrow per tranche, even if the previous run died before recording this one
+          const invoice = await this.gateway.deployInvoice(buildTrancheRequest(plan, milestone, index, now), plan.ownerId, `${plan.id}:${index}`);
+          change = {
+            status: 'open',
+            escrowInvoiceId: Number(invoice.id),
+            txHash: invoice.txHash,
+            invoiceTotal: invoice.amount,
+            lastError: undefined
+          };
+          console.log(`🧱 Opened escrow ${invoice.id} for milestone ${index + 1} of plan ${plan.id}`);
+        } catch (error) {
+          // A tranche without an escrow has nothing to release from; it stays scheduled and is retried on the next run
+          console.error(`❌ Failed to open escrow for milestone ${index + 1} of plan ${plan.id}:`, error);
+          change = { lastError: error.message };
+        }
+
+        current = await this.updateMilestone(planId, index, change, now) || current;
+      }
+    } finally {
+      deploying.delete(planId);
+    }
+
+    return current;
+  }
+
+  /**
+   * Deploys newly due tranches and refreshes every tranche's status from the escrow contract
+   */
+  async refresh(ownerId: string, planId: string, now: Date = new Date()): Promise<MilestonePlan> {
+    if (!await this.get(ownerId, planId)) {
+      throw new Error(`Milestone plan not found: ${planId}`);
+    }
+
+    let plan = await this.deployDue(planId, now);
+
+    for (const [index, milestone] of plan.milestones.entries()) {
+      if (milestone.escrowInvoiceId === undefined) continue;
+
+      try {
+        let escrowInvoiceId = milestone.escrowInvoiceId;
+        let raw = await this.gateway.getEscrowStatus(escrowInvoiceId);
+        if (raw === ESCROW_SUPERSEDED) {
+          // The tranche invoice was amended; track the version the client will actually pay
+          escrowInvoiceId = await this.gateway.getLatestInvoiceId(escrowInvoiceId);
+          raw = await this.gateway.getEscrowStatus(escrowInvoiceId);
+        }
+
+        const change: Partial<Milestone> = {};
+        const status = ESCROW_STATUSES[raw];
+        if (status && status !== milestone.status) change.status = status;
+        if (escrowInvoiceId !== milestone.escrowInvoiceId) change.escrowInvoiceId = escrowInvoiceId;
+        if (Object.keys(change).length > 0) {
+          plan = await this.updateMilestone(planId, index, change, now) || plan;
+        }
+      } catch (error) {
+        console.error(`❌ Failed to read escrow ${milestone.escrowInvoiceId}:`, error);
+      }
+    }
+
+    return plan;
+  }
+
+  async deployAllDue(now: Date = new Date()): Promise<void> {
+    const plans = await this.store.list(plan => plan.milestones.some(milestone => milestone.status === 'scheduled'));
+    for (const plan of plans) {
+      try {
+        await this.deployDue(plan.id, now);
+      } catch (error) {
+        console.error(`❌ Failed to deploy milestones for plan ${plan.id}:`, error);
+      }
+    }
+  }
+
+  private async updateMilestone(
+    planId: string,
+    index: number,
+    change: Partial<Milestone>,
+    now: Date
+  ): Promise<MilestonePlan | undefined> {
+    return this.store.update(planId, plan => {
+      if (!plan) return undefined;
+      const milestones = plan.milestones.map((milestone, i) =>
+        i === index ? { ...milestone, ...change, updatedAt: now.toISOString() } : milestone
+      );
+      return { ...plan, milestones, updatedAt: now.toISOString() };
+    });
+  }
+}
+
+export function calculateProgress(plan: MilestonePlan): MilestoneProgress {
+  const zero = Money.zero(plan.currency);
+  const total = Money.parse(plan.total, plan.currency);
+  const sumWhere = (statuses: MilestoneStatus[]) => plan.milestones
+    .filter(milestone => statuses.includes(milestone.status))
+    .reduce((sum, milestone) => sum.add(Money.parse(milestone.amount, plan.currency)), zero);
+
+  const released = sumWhere(['released']);
+  const funded = sumWhere(['funded']);
+
+  const counts = { scheduled: 0, open: 0, funded: 0, released: 0, disputed: 0, cancelled: 0, refunded: 0 };
+  plan.milestones.forEach(milestone => counts[milestone.status]++);
+
+  return {
+    total: total.toDecimalString(),
+    released: released.toDecimalString(),
+    funded: funded.toDecimalString(),
+    outstanding: total.subtract(released).toDecimalString(),
+    releasedBps: total.isZero() ? 0 : Number((released.minor * 10000n) / total.minor),
+    counts,
+    nextDue: plan.milestones.find(milestone => ['scheduled', 'open', 'funded'].includes(milestone.status))
+  };
+}
+
+export function validateMilestonePlan(input: Partial<MilestonePlanInput>): string[] {
+  const errors: string[] = [];
+
+  if (!input.clientAddress) errors.push("Client address is required");
+  if (!input.title || input.title.trim().length === 0) errors.push("Plan title is required");
+  if (!input.currency) errors.push("Currency is required");
+  if (!Array.isArray(input.milestones) || input.milestones.length === 0) {
+    errors.push("At least one milestone is required");
+    return errors;
+  }
+
+  input.milestones.forEach((milestone, i) => {
+    const label = `Milestone ${i + 1}`;
+    if (!milestone.title || milestone.title.trim().length === 0) errors.push(`${label}: title is required`);
+    if ((milestone.percentage === undefined) === (milestone.amount === undefined)) {
+      errors.push(`${label}: give either a percentage or a fixed amount`);
+    }
+    if (milestone.percentage !== undefined && !(milestone.percentage > 0 && milestone.percentage <= 100)) {
+      errors.push(`${label}: percentage must be between 0 and 100`);
+    }
+    if (isNaN(new Date(milestone.dueDate).getTime())) errors.push(`${label}: a valid due date is required`);
+  });
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  try {
+    resolveTrancheAmounts(input as MilestonePlanInput);
+  } catch (error) {
+    errors.push(error.message);
+  }
+
+  return errors;
+}
+
+/**
+ * Fixed tranches keep their amount; percentage tranches split whatever is left of the total
+ * by their percentages, allocated together so rounding never loses or invents a cent.
+ */
+function resolveTrancheAmounts(input: MilestonePlanInput): Money[] {
+  const currency = input.currency;
+  const fixed = input.milestones.map(milestone =>
+    milestone.amount !== undefined ? Money.parse(milestone.amount, currency) : null
+  );
+  if (fixed.some(amount => amount && !amount.isPositive())) {
+    throw new Error('Milestone amounts must be greater than 0');
+  }
+
+  const fixedTotal = Money.sum(fixed.filter((amount): amount is Money => amount !== null), currency);
+  const percentIndexes = input.milestones.map((m, i) => (m.percentage !== undefined ? i : -1)).filter(i => i >= 0);
+
+  if (percentIndexes.length === 0) {
+    if (input.total && !Money.parse(input.total, currency).equals(fixedTotal)) {
+      throw new Error(`Milestones add up to ${fixedTotal.toDecimalString()}, not the stated total ${input.total}`);
+    }
+    return fixed as Money[];
+  }
+
+  if (!input.total) {
+    throw new Error('A plan total is required for percentage milestones');
+  }
+
+  const total = Money.parse(input.total, currency);
+  const percentBps = percentIndexes.map(i => Math.round(input.milestones[i].percentage! * 100));
+  const percentShare = total.basisPoints(percentBps.reduce((sum, bps) => sum + bps, 0), 'half-up');
+  const remainder = total.subtract(fixedTotal);
+
+  // Percentages are only precise to 0.01%, so allow that much slack per percentage milestone
+  const slack = total.basisPoints(percentIndexes.length, 'half-up');
+  const difference = percentShare.greaterThan(remainder) ? percentShare.subtract(remainder) : remainder.subtract(percentShare);
+  if (!remainder.isPositive() || difference.greaterThan(slack)) {
+    throw new Error(`Milestones add up to ${fixedTotal.add(percentShare).toDecimalString()}, not the stated total ${total.toDecimalString()}`);
+  }
+
+  const shares = remainder.allocate(percentBps);
+  const amounts = [...fixed];
+  percentIndexes.forEach((milestoneIndex, j) => {
+    amounts[milestoneIndex] = shares[j];
+  });
+  return amounts as Money[];
+}
+
+function buildTrancheRequest(plan: MilestonePlan, milestone: Milestone, index: number, now: Date): InvoiceRequest {
+  const paymentWindow = Math.min(
+    Math.max(Math.ceil(daysUntil(milestone.dueDate, now)), MIN_PAYMENT_WINDOW_DAYS),
+    MAX_PAYMENT_WINDOW_DAYS
+  );
+
+  return {
+    clientAddress: plan.clientAddress,
+    amount: milestone.amount,
+    currency: plan.currency,
+    description: `${plan.title} — Milestone ${index + 1}/${plan.milestones.length}: ${milestone.title}`,
+    lineItems: [{
+      description: milestone.title,
+      quantity: 1,
+      unitPrice: Number(milestone.amount),
+      total: Number(milestone.amount),
+      category: 'service'
+    }],
+    tax: plan.tax,
+    paymentTerms: {
+      paymentWindow,
+      earlyPaymentDiscountBps: plan.earlyPaymentDiscountBps,
+      requiresApproval: milestone.requiresApproval
+    },
+    metadata: {
+      milestone: {
+        planId: plan.id,
+        index,
+        title: milestone.title,
+        dueDate: milestone.dueDate,
+        percentageBps: milestone.percentageBps
+      }
+    }
+  };
+}
+
+function daysUntil(date: string, now: Date): number {
+  return (new Date(date).getTime() - now.getTime()) / DAY_MS;
+}
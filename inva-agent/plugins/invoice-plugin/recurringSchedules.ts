@@ -0,0 +1,559 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { randomBytes } from 'crypto';
+import Money from '../../src/services/money.ts';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { OutboxEntry } from './invoiceOutbox.ts';
+import { TaxContext } from './taxEngine.ts';
+import { InvoiceRequest, LineItem } from './types.ts';
+
+// All cadences are evaluated in UTC
+export type Cadence =
+  | { type: 'weekly'; dayOfWeek: number }    // 0 = Sunday
+  | { type: 'monthly'; dayOfMonth: number }  // clamped to the month's last day
+  | { type: 'cron'; expression: string };    // minute hour day-of-month month day-of-week
+
+export type ScheduleStatus = 'active' | 'paused' | 'completed';
+
+export interface IssuedPeriod {
+  invoiceId: string | number; // a temporary pending-… ID while the invoice waits in the outbox
+  onChain: boolean;
+  txHash?: string;
+  queuedAs?: string; // outbox entry the invoice went through, kept once it lands
+  failed?: string; // why the outbox gave up on it; the entry can still be retried
+  periodStart: string;
+  periodEnd: string;
+  amount: string;
+  prorated: boolean;
+  issuedAt: string;
+}
+
+export interface RecurringSchedule {
+  id: string;
+  ownerId: string;
+  clientAddress: string;
+  description: string;
+  amount: string; // per full period, in `currency`
+  currency: string;
+  cadence: Cadence;
+  startDate: string;
+  endDate?: string;
+  prorate: boolean;
+  templateId?: string;
+  lineItems?: LineItem[];
+  tax?: TaxContext;
+  paymentTerms?: InvoiceRequest['paymentTerms'];
+  status: ScheduleStatus;
+  nextRunAt?: string;
+  issued: IssuedPeriod[];
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RecurringScheduleInput = Pick<RecurringSchedule, 'clientAddress' | 'description' | 'amount' | 'currency' | 'cadence' | 'startDate'> &
+  Partial<Pick<RecurringSchedule, 'endDate' | 'prorate' | 'templateId' | 'lineItems' | 'tax' | 'paymentTerms'>>;
+
+// Anything that can turn a request into an invoice (InvoiceService.createDetailedInvoice)
+export interface InvoiceIssuer {
+  createDetailedInvoice(request: InvoiceRequest, ownerId?: string, idempotencyKey?: string): Promise<any>;
+  getOutbox(): { get(id: string): Promise<OutboxEntry | undefined> }; // where invoices that could not go on-chain wait
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CATCH_UP_PERIODS = 12;
+
+/**
+ * Persistent recurring invoice schedules. Invoices are billed in advance:
+ * each period is issued when it starts, partial first/last periods are prorated by day.
+ */
+export default class RecurringScheduler {
+  private store: RuntimeStore<RecurringSchedule>;
+  private issuer: InvoiceIssuer;
+  private running = false;
+
+  constructor(runtime: IAgentRuntime, issuer: InvoiceIssuer) {
+    this.store = new RuntimeStore<RecurringSchedule>(runtime, 'recurring-schedules');
+    this.issuer = issuer;
+  }
+
+  async get(id: string): Promise<RecurringSchedule | undefined> {
+    return this.store.get(id);
+  }
+
+  async list(ownerId: string): Promise<RecurringSchedule[]> {
+    const schedules = await this.store.list(schedule => schedule.ownerId === ownerId);
+    return schedules.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async create(ownerId: string, input: RecurringScheduleInput): Promise<RecurringSchedule> {
+    const errors = validateSchedule(input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid schedule: ${errors.join(', ')}`);
+    }
+
+    const now = new Date().toISOString();
+    const schedule: RecurringSchedule = {
+      ...input,
+      id: `rec-${randomBytes(4).toString('hex')}`,
+      ownerId,
+      amount: Money.parse(input.amount, input.currency).toDecimalString(),
+      startDate: new Date(input.startDate).toISOString(),
+      endDate: input.endDate ? new Date(input.endDate).toISOString() : undefined,
+      prorate: input.prorate ?? true,
+      status: 'active',
+      issued: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    schedule.nextRunAt = firstRunAt(schedule);
+    if (!schedule.nextRunAt) {
+      schedule.status = 'completed';
+    }
+
+    return this.store.set(schedule.id, schedule);
+  }
+
+  async pause(ownerId: string, id: string): Promise<RecurringSchedule> {
+    return this.transition(ownerId, id, schedule => {
+      if (schedule.status !== 'active') {
+        throw new Error(`Schedule ${id} is ${schedule.status}`);
+      }
+      return { ...schedule, status: 'paused' };
+    });
+  }
+
+  /**
+   * Periods that passed while paused are not billed; billing picks up at the next period start
+   */
+  async resume(ownerId: string, id: string, now: Date = new Date()): Promise<RecurringSchedule> {
+    return this.transition(ownerId, id, schedule => {
+      if (schedule.status !== 'paused') {
+        throw new Error(`Schedule ${id} is ${schedule.status}`);
+      }
+
+      const nextRunAt = schedule.nextRunAt && new Date(schedule.nextRunAt) >= now
+        ? schedule.nextRunAt
+        : nextBoundary(schedule, new Date(now.getTime() - 1));
+
+      return nextRunAt
+        ? { ...schedule, status: 'active', nextRunAt, lastError: undefined }
+        : { ...schedule, status: 'completed', nextRunAt: undefined };
+    });
+  }
+
+  /**
+   * Issues every period that has started by `now`. Safe to call repeatedly; runs never overlap.
+   */
+  async runDue(now: Date = new Date()): Promise<IssuedPeriod[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    const issued: IssuedPeriod[] = [];
+    try {
+      const due = await this.store.list(schedule =>
+        schedule.status === 'active' && !!schedule.nextRunAt && new Date(schedule.nextRunAt) <= now
+      );
+
+      for (const schedule of due) {
+        issued.push(...await this.runSchedule(schedule, now));
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return issued;
+  }
+
+  /**
+   * Brings periods whose invoice was queued up to date with the outbox: the escrow's invoice ID
+   * and transaction once it lands, or why the outbox gave up on it
+   */
+  async syncQueued(ownerId?: string): Promise<RecurringSchedule[]> {
+    const outbox = this.issuer.getOutbox();
+    const waiting = await this.store.list(schedule =>
+      (!ownerId || schedule.ownerId === ownerId) && schedule.issued.some(period => !period.onChain)
+    );
+
+    const updated: RecurringSchedule[] = [];
+    for (const schedule of waiting) {
+      const entries = new Map<string, OutboxEntry>();
+      for (const period of schedule.issued.filter(period => !period.onChain)) {
+        const entry = await outbox.get(String(period.invoiceId));
+        if (entry) entries.set(entry.id, entry);
+      }
+
+      const synced = await this.store.update(schedule.id, current => {
+        if (!current) return undefined;
+        let changed = false;
+        const issued = current.issued.map(period => {
+          const entry = !period.onChain && entries.get(String(period.invoiceId));
+          const settled = entry ? settlePeriod(period, entry) : period;
+          changed = changed || settled !== period;
+          return settled;
+        });
+        return changed ? { ...current, issued, updatedAt: new Date().toISOString() } : undefined;
+      });
+
+      if (synced) {
+        console.log(`🔁 Updated queued invoices of schedule ${schedule.id}`);
+        updated.push(synced);
+      }
+    }
+
+    return updated;
+  }
+
+  private async runSchedule(schedule: RecurringSchedule, now: Date): Promise<IssuedPeriod[]> {
+    const issued: IssuedPeriod[] = [];
+    let current: RecurringSchedule | undefined = schedule;
+
+    while (current && current.status === 'active' && current.nextRunAt && new Date(current.nextRunAt) <= now && issued.length < MAX_CATCH_UP_PERIODS) {
+      const runAt = current.nextRunAt;
+      const period = describePeriod(current, new Date(runAt));
+
+      let record: IssuedPeriod;
+      try {
+        // Keyed by period, so a run interrupted after issuing never bills the same period twice
+        const invoice = await this.issuer.createDetailedInvoice(
+          buildInvoiceRequest(current, period),
+          current.ownerId,
+          `${current.id}:${period.start.toISOString()}`
+        );
+
+        record = {
+          invoiceId: invoice.id,
+          onChain: invoice.onChain,
+          txHash: invoice.txHash,
+          periodStart: period.start.toISOString(),
+          periodEnd: period.end.toISOString(),
+          amount: invoice.amount,
+          prorated: period.numerator !== period.denominator,
+          issuedAt: new Date().toISOString()
+        };
+      } catch (error) {
+        // Keep nextRunAt so the period is retried on the next tick
+        console.error(`❌ Failed to issue recurring invoice for schedule ${current.id}:`, error);
+        await this.store.update(current.id, latest => latest && { ...latest, lastError: error.message, updatedAt: new Date().toISOString() });
+        break;
+      }
+
+      issued.push(record);
+      console.log(`🔁 Issued recurring invoice ${record.invoiceId} for schedule ${current.id}`);
+
+      // Applied to the stored schedule, not the snapshot: a pause or queued-invoice update made while issuing is kept
+      current = await this.store.update(current.id, latest => {
+        if (!latest || latest.nextRunAt !== runAt) return undefined;
+        const nextRunAt = period.end.getTime() < endTime(latest) ? period.end.toISOString() : undefined;
+        const status: ScheduleStatus = latest.status !== 'active' ? latest.status : nextRunAt ? 'active' : 'completed';
+        return {
+          ...latest,
+          issued: [...latest.issued, record],
+          nextRunAt,
+          status,
+          lastError: undefined,
+          updatedAt: new Date().toISOString()
+        };
+      });
+    }
+
+    return issued;
+  }
+
+  private async transition(
+    ownerId: string,
+    id: string,
+    change: (schedule: RecurringSchedule) => RecurringSchedule
+  ): Promise<RecurringSchedule> {
+    const updated = await this.store.update(id, existing => {
+      if (!existing || existing.ownerId !== ownerId) {
+        throw new Error(`Schedule not found: ${id}`);
+      }
+      return { ...change(existing), updatedAt: new Date().toISOString() };
+    });
+    return updated!;
+  }
+}
+
+export function validateSchedule(input: Partial<RecurringScheduleInput>): string[] {
+  const errors: string[] = [];
+
+  if (!input.clientAddress) errors.push("Client address is required");
+  if (!input.description || input.description.trim().length === 0) errors.push("Description is required");
+
+  try {
+    if (!input.amount || !input.currency || !Money.parse(input.amount, input.currency).isPositive()) {
+      errors.push("Amount must be greater than 0");
+    }
+  } catch (error) {
+    errors.push(error.message);
+  }
+
+  const start = input.startDate ? new Date(input.startDate) : null;
+  if (!start || isNaN(start.getTime())) {
+    errors.push("A valid start date is required");
+  }
+  if (input.endDate) {
+    const end = new Date(input.endDate);
+    if (isNaN(end.getTime())) errors.push("End date is invalid");
+    else if (start && end <= start) errors.push("End date must be after the start date");
+  }
+
+  if (!input.cadence) {
+    errors.push("Cadence is required");
+  } else if (input.cadence.type === 'weekly' && !(input.cadence.dayOfWeek >= 0 && input.cadence.dayOfWeek <= 6)) {
+    errors.push("Weekly cadence needs a day of week (0-6)");
+  } else if (input.cadence.type === 'monthly' && !(input.cadence.dayOfMonth >= 1 && input.cadence.dayOfMonth <= 31)) {
+    errors.push("Monthly cadence needs a day of month (1-31)");
+  } else if (input.cadence.type === 'cron') {
+    try {
+      parseCron(input.cadence.expression);
+    } catch (error) {
+      errors.push(error.message);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * First boundary of the cadence strictly after `after`
+ */
+export function nextOccurrence(cadence: Cadence, after: Date): Date {
+  switch (cadence.type) {
+    case 'weekly': {
+      const next = startOfUtcDay(new Date(after.getTime() + DAY_MS));
+      while (next.getUTCDay() !== cadence.dayOfWeek) {
+        next.setUTCDate(next.getUTCDate() + 1);
+      }
+      return next;
+    }
+    case 'monthly': {
+      for (let offset = 0; offset < 3; offset++) {
+        const year = after.getUTCFullYear();
+        const month = after.getUTCMonth() + offset;
+        const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+        const candidate = new Date(Date.UTC(year, month, Math.min(cadence.dayOfMonth, lastDay)));
+        if (candidate > after) return candidate;
+      }
+      throw new Error('No monthly occurrence found');
+    }
+    case 'cron':
+      return nextCronOccurrence(parseCron(cadence.expression), after);
+  }
+}
+
+export function describeCadence(cadence: Cadence): string {
+  const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  switch (cadence.type) {
+    case 'weekly':
+      return `Weekly on ${weekdays[cadence.dayOfWeek]}`;
+    case 'monthly':
+      return `Monthly on day ${cadence.dayOfMonth}`;
+    case 'cron':
+      return `Cron \`${cadence.expression}\` (UTC)`;
+  }
+}
+
+interface Period {
+  start: Date;
+  end: Date;
+  numerator: number; // billed days
+  denominator: number; // days in the full period
+}
+
+function firstRunAt(schedule: RecurringSchedule): string | undefined {
+  const start = new Date(schedule.startDate);
+  const aligned = isBoundary(schedule.cadence, start);
+
+  // Without proration a partial first period is skipped: billing starts at the first boundary
+  const first = aligned || schedule.prorate ? start : nextOccurrence(schedule.cadence, start);
+  return first.getTime() < endTime(schedule) ? first.toISOString() : undefined;
+}
+
+function nextBoundary(schedule: RecurringSchedule, after: Date): string | undefined {
+  const next = nextOccurrence(schedule.cadence, after);
+  return next.getTime() < endTime(schedule) ? next.toISOString() : undefined;
+}
+
+function describePeriod(schedule: RecurringSchedule, start: Date): Period {
+  const boundary = nextOccurrence(schedule.cadence, start);
+  const end = boundary.getTime() > endTime(schedule) ? new Date(endTime(schedule)) : boundary;
+
+  if (!schedule.prorate) {
+    return { start, end, numerator: 1, denominator: 1 };
+  }
+
+  if (!isBoundary(schedule.cadence, start)) {
+    // Partial first period, measured against the full period that follows it
+    const fullPeriod = days(boundary, nextOccurrence(schedule.cadence, boundary));
+    return { start, end, numerator: Math.min(days(start, end), fullPeriod), denominator: fullPeriod };
+  }
+
+  // Full period, or a last period cut short by the end date
+  return { start, end, numerator: days(start, end), denominator: days(start, boundary) };
+}
+
+function buildInvoiceRequest(schedule: RecurringSchedule, period: Period): InvoiceRequest {
+  const label = `${period.start.toISOString().slice(0, 10)} – ${new Date(period.end.getTime() - 1).toISOString().slice(0, 10)}`;
+  const prorated = period.numerator !== period.denominator;
+
+  const baseItems: LineItem[] = schedule.lineItems && schedule.lineItems.length > 0
+    ? schedule.lineItems
+    : [{ description: schedule.description, quantity: 1, unitPrice: schedule.amount, total: schedule.amount, category: 'service' }];
+
+  const lineItems = baseItems.map(item => {
+    const total = Money.parse(item.total, schedule.currency).prorate(period.numerator, period.denominator);
+    return {
+      ...item,
+      description: `${item.description} (${label}${prorated ? `, prorated ${period.numerator}/${period.denominator} days` : ''})`,
+      quantity: 1,
+      unitPrice: total.toDecimalString(),
+      total: total.toDecimalString()
+    };
+  });
+
+  const amount = Money.sum(lineItems.map(item => Money.parse(item.total, schedule.currency)), schedule.currency);
+
+  return {
+    clientAddress: schedule.clientAddress,
+    amount: amount.toDecimalString(),
+    currency: schedule.currency,
+    description: `${schedule.description} — ${label}`,
+    lineItems,
+    tax: schedule.tax,
+    paymentTerms: schedule.paymentTerms,
+    metadata: {
+      template: schedule.templateId,
+      recurring: {
+        scheduleId: schedule.id,
+        periodStart: period.start.toISOString(),
+        periodEnd: period.end.toISOString(),
+        prorated,
+        billedDays: period.numerator,
+        periodDays: period.denominator
+      }
+    }
+  };
+}
+
+function settlePeriod(period: IssuedPeriod, entry: OutboxEntry): IssuedPeriod {
+  switch (entry.status) {
+    case 'confirmed':
+      return { ...period, invoiceId: entry.invoiceId!, txHash: entry.txHash, queuedAs: entry.id, onChain: true, failed: undefined };
+    case 'failed': {
+      const reason = entry.lastError || `Gave up after ${entry.attempts} attempts`;
+      return period.failed === reason ? period : { ...period, failed: reason };
+    }
+    default:
+      // Retried after giving up, and waiting again
+      return period.failed ? { ...period, failed: undefined } : period;
+  }
+}
+
+function isBoundary(cadence: Cadence, date: Date): boolean {
+  return nextOccurrence(cadence, new Date(date.getTime() - 1)).getTime() === date.getTime();
+}
+
+function endTime(schedule: RecurringSchedule): number {
+  return schedule.endDate ? new Date(schedule.endDate).getTime() : Number.POSITIVE_INFINITY;
+}
+
+function days(from: Date, to: Date): number {
+  return Math.max(1, Math.round((to.getTime() - from.getTime()) / DAY_MS));
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Cron: "minute hour day-of-month month day-of-week" with *, lists, ranges and steps
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+export function parseCron(expression: string): CronFields {
+  const parts = (expression || '').trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseCronField(part, CRON_RANGES[i]));
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    // 7 is an alias for Sunday
+    daysOfWeek: new Set(daysOfWeek.map(day => day % 7)),
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*'
+  };
+}
+
+function parseCronField(field: string, [min, max]: [number, number]): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron field: "${field}"`);
+    }
+
+    const [from, to] = match[1] === '*'
+      ? [min, max]
+      : match[1].includes('-')
+        ? match[1].split('-').map(Number)
+        : [Number(match[1]), match[2] ? max : Number(match[1])];
+    const step = match[2] ? Number(match[2]) : 1;
+
+    if (from < min || to > max || from > to || step < 1) {
+      throw new Error(`Cron field out of range: "${field}"`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function nextCronOccurrence(cron: CronFields, after: Date): Date {
+  const from = new Date(Math.floor(after.getTime() / 60000) * 60000 + 60000);
+  const day = startOfUtcDay(from);
+
+  // Five years covers every valid expression (e.g. Feb 29)
+  for (let i = 0; i < 366 * 5; i++, day.setUTCDate(day.getUTCDate() + 1)) {
+    if (!cron.months.has(day.getUTCMonth() + 1)) continue;
+
+    const domMatch = cron.daysOfMonth.has(day.getUTCDate());
+    const dowMatch = cron.daysOfWeek.has(day.getUTCDay());
+    // Standard cron: when both day fields are restricted, either may match
+    const dayMatches = cron.anyDayOfMonth && cron.anyDayOfWeek ? true
+      : cron.anyDayOfMonth ? dowMatch
+      : cron.anyDayOfWeek ? domMatch
+      : domMatch || dowMatch;
+    if (!dayMatches) continue;
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const candidate = new Date(day.getTime() + hour * 3600000 + minute * 60000);
+        if (candidate >= from) return candidate;
+      }
+    }
+  }
+
+  throw new Error('Cron expression never fires');
+}
@@ -0,0 +1,272 @@
+import Money from '../../src/services/money.ts';
+import { LineItem } from './types.ts';
+
+export type TaxKind = 'vat' | 'gst' | 'sales' | 'none';
+export type TaxTreatment = 'standard' | 'reduced' | 'zero-rated' | 'exempt' | 'reverse-charge';
+
+export interface TaxJurisdiction {
+  code: string;
+  name: string;
+  taxName: string;
+  kind: TaxKind;
+  standardRateBps: number;
+  // Overrides per line-item category (e.g. services are not subject to most US sales taxes)
+  categoryRatesBps?: Record<string, number>;
+  region?: string;
+}
+
+// Tax facts about one invoice; anything missing falls back to the provider's jurisdiction
+export interface TaxContext {
+  jurisdiction?: string;
+  clientJurisdiction?: string;
+  clientTaxId?: string;
+  exempt?: boolean;
+  exemptionReason?: string;
+  reverseCharge?: boolean;
+}
+
+// Amounts are decimal strings in the invoice currency
+export interface TaxLine {
+  description: string;
+  category: string;
+  net: string;
+  rateBps: number;
+  tax: string;
+  treatment: TaxTreatment;
+}
+
+export interface TaxBreakdown {
+  jurisdiction: string;
+  taxName: string;
+  subtotal: string;
+  taxTotal: string;
+  total: string;
+  lines: TaxLine[];
+  rates: Array<{ rateBps: number; net: string; tax: string }>;
+  reverseCharge: boolean;
+  exempt: boolean;
+  clientTaxId?: string;
+  note?: string;
+}
+
+const SERVICES_UNTAXED = { service: 0, consulting: 0, development: 0, design: 0 };
+
+export const TAX_JURISDICTIONS: Record<string, TaxJurisdiction> = {
+  NONE: { code: 'NONE', name: 'No tax', taxName: 'Tax', kind: 'none', standardRateBps: 0 },
+  DE: { code: 'DE', name: 'Germany', taxName: 'VAT', kind: 'vat', standardRateBps: 1900, categoryRatesBps: { books: 700 }, region: 'EU' },
+  FR: { code: 'FR', name: 'France', taxName: 'VAT', kind: 'vat', standardRateBps: 2000, categoryRatesBps: { books: 550 }, region: 'EU' },
+  NL: { code: 'NL', name: 'Netherlands', taxName: 'VAT', kind: 'vat', standardRateBps: 2100, categoryRatesBps: { books: 900 }, region: 'EU' },
+  ES: { code: 'ES', name: 'Spain', taxName: 'VAT', kind: 'vat', standardRateBps: 2100, categoryRatesBps: { books: 400 }, region: 'EU' },
+  IT: { code: 'IT', name: 'Italy', taxName: 'VAT', kind: 'vat', standardRateBps: 2200, categoryRatesBps: { books: 400 }, region: 'EU' },
+  IE: { code: 'IE', name: 'Ireland', taxName: 'VAT', kind: 'vat', standardRateBps: 2300, categoryRatesBps: { books: 0 }, region: 'EU' },
+  GB: { code: 'GB', name: 'United Kingdom', taxName: 'VAT', kind: 'vat', standardRateBps: 2000, categoryRatesBps: { books: 0 } },
+  AU: { code: 'AU', name: 'Australia', taxName: 'GST', kind: 'gst', standardRateBps: 1000 },
+  NZ: { code: 'NZ', name: 'New Zealand', taxName: 'GST', kind: 'gst', standardRateBps: 1500 },
+  CA: { code: 'CA', name: 'Canada', taxName: 'GST', kind: 'gst', standardRateBps: 500 },
+  IN: { code: 'IN', name: 'India', taxName: 'GST', kind: 'gst', standardRateBps: 1800 },
+  SG: { code: 'SG', name: 'Singapore', taxName: 'GST', kind: 'gst', standardRateBps: 900 },
+  'US-CA': { code: 'US-CA', name: 'California', taxName: 'Sales Tax', kind: 'sales', standardRateBps: 725, categoryRatesBps: SERVICES_UNTAXED },
+  'US-NY': { code: 'US-NY', name: 'New York', taxName: 'Sales Tax', kind: 'sales', standardRateBps: 400, categoryRatesBps: SERVICES_UNTAXED },
+  'US-TX': { code: 'US-TX', name: 'Texas', taxName: 'Sales Tax', kind: 'sales', standardRateBps: 625, categoryRatesBps: { service: 0, consulting: 0, design: 0 } }
+};
+
+const JURISDICTION_NAMES: Record<string, string> = {
+  germany: 'DE',
+  france: 'FR',
+  netherlands: 'NL',
+  spain: 'ES',
+  italy: 'IT',
+  ireland: 'IE',
+  uk: 'GB',
+  'united kingdom': 'GB',
+  australia: 'AU',
+  'new zealand': 'NZ',
+  canada: 'CA',
+  india: 'IN',
+  singapore: 'SG',
+  california: 'US-CA',
+  'new york': 'US-NY',
+  texas: 'US-TX'
+};
+
+/**
+ * Applies VAT / GST / sales-tax rules to invoice line items.
+ * Tax is rounded half-up once per rate (not per line), then spread back over the
+ * lines without losing a cent, so the breakdown always adds up to the total.
+ */
+export default class TaxEngine {
+  private providerJurisdiction: string;
+
+  constructor(providerJurisdiction: string = 'NONE') {
+    this.providerJurisdiction = normalizeJurisdiction(providerJurisdiction) || 'NONE';
+  }
+
+  static fromEnv(): TaxEngine {
+    return new TaxEngine(process.env.INVOICE_TAX_JURISDICTION || 'NONE');
+  }
+
+  calculate(lineItems: LineItem[], currency: string, given: TaxContext = {}): TaxBreakdown {
+    // Without a stated client jurisdiction, a VAT / GST ID's country prefix is the next best evidence
+    const context: TaxContext = given.clientJurisdiction || !given.clientTaxId
+      ? given
+      : { ...given, clientJurisdiction: taxIdJurisdiction(given.clientTaxId) };
+    const jurisdiction = getJurisdiction(context.jurisdiction || this.providerJurisdiction);
+    const reverseCharge = !context.exempt && isReverseCharge(jurisdiction, context);
+    const exempt = !!context.exempt;
+
+    const nets = lineItems.map(item => Money.parse(item.total, currency));
+    const treatments = lineItems.map(item => lineTreatment(jurisdiction, item.category || 'service', exempt, reverseCharge));
+
+    // Group by rate, round each group's tax once, then allocate it back to its lines
+    const taxes = nets.map(() => Money.zero(currency));
+    const rates: TaxBreakdown['rates'] = [];
+    const distinctRates = Array.from(new Set(treatments.map(t => t.rateBps)));
+
+    for (const rateBps of distinctRates) {
+      const indexes = treatments.map((t, i) => (t.rateBps === rateBps ? i : -1)).filter(i => i >= 0);
+      const groupNet = Money.sum(indexes.map(i => nets[i]), currency);
+      const groupTax = groupNet.basisPoints(rateBps, 'half-up');
+
+      if (groupTax.isPositive() && groupNet.isPositive()) {
+        const shares = groupTax.allocate(indexes.map(i => nets[i]));
+        indexes.forEach((lineIndex, j) => {
+          taxes[lineIndex] = shares[j];
+        });
+      }
+
+      rates.push({ rateBps, net: groupNet.toDecimalString(), tax: groupTax.toDecimalString() });
+    }
+
+    const subtotal = Money.sum(nets, currency);
+    const taxTotal = Money.sum(taxes, currency);
+
+    return {
+      jurisdiction: jurisdiction.code,
+      taxName: jurisdiction.taxName,
+      subtotal: subtotal.toDecimalString(),
+      taxTotal: taxTotal.toDecimalString(),
+      total: subtotal.add(taxTotal).toDecimalString(),
+      lines: lineItems.map((item, i) => ({
+        description: item.description,
+        category: item.category || 'service',
+        net: nets[i].toDecimalString(),
+        rateBps: treatments[i].rateBps,
+        tax: taxes[i].toDecimalString(),
+        treatment: treatments[i].treatment
+      })),
+      rates: rates.sort((a, b) => b.rateBps - a.rateBps),
+      reverseCharge,
+      exempt,
+      clientTaxId: context.clientTaxId,
+      note: taxNote(jurisdiction, context, reverseCharge)
+    };
+  }
+}
+
+export function getJurisdiction(code: string): TaxJurisdiction {
+  const normalized = normalizeJurisdiction(code);
+  const jurisdiction = normalized ? TAX_JURISDICTIONS[normalized] : undefined;
+  if (!jurisdiction) {
+    throw new Error(`Unknown tax jurisdiction: ${code}`);
+  }
+  return jurisdiction;
+}
+
+export function normalizeJurisdiction(value: string): string | undefined {
+  const trimmed = value.trim();
+  const upper = trimmed.toUpperCase();
+  if (TAX_JURISDICTIONS[upper]) {
+    return upper;
+  }
+  return JURISDICTION_NAMES[trimmed.toLowerCase()];
+}
+
+/**
+ * Country a VAT / GST ID was issued in, from its two-letter prefix (e.g. DE123456789).
+ * IDs without one, such as a US EIN ("12-3456789"), say nothing about the client's jurisdiction.
+ */
+export function taxIdJurisdiction(taxId: string): string | undefined {
+  const prefix = taxId.trim().slice(0, 2);
+  return /^[a-z]{2}$/i.test(prefix) ? normalizeJurisdiction(prefix) : undefined;
+}
+
+/**
+ * Reads tax hints from free text, e.g. "client in Germany, VAT ID DE123456789" or "tax exempt (501c3)"
+ */
+export function parseTaxContext(text: string): TaxContext {
+  const context: TaxContext = {};
+
+  const exemptMatch = text.match(/\b(?:tax|vat|gst)[\s-]exempt\b(?:\s*\(([^)]+)\))?|\bexempt from (?:tax|vat|gst)\b/i);
+  if (exemptMatch) {
+    context.exempt = true;
+    if (exemptMatch[1]) context.exemptionReason = exemptMatch[1].trim();
+  }
+
+  if (/\breverse[\s-]charge\b/i.test(text)) {
+    context.reverseCharge = true;
+  }
+
+  const taxIdMatch = text.match(/\b(?:vat|gst|tax)\s*(?:id|number|no\.?|reg(?:istration)?)\s*:?\s*([A-Z]{2}[A-Z0-9]{6,12})\b/i);
+  if (taxIdMatch) {
+    context.clientTaxId = taxIdMatch[1].toUpperCase();
+    const prefix = taxIdJurisdiction(context.clientTaxId);
+    if (prefix) context.clientJurisdiction = prefix;
+  }
+
+  const locationMatch = text.match(/\bclient\s+(?:is\s+)?(?:in|based in|located in|from)\s+([a-z][a-z\s]*?)(?=[,.;)]|\s+(?:with|and|for|at)\b|$)/i);
+  if (locationMatch) {
+    const location = normalizeJurisdiction(locationMatch[1]);
+    if (location) context.clientJurisdiction = location;
+  }
+
+  const jurisdictionMatch = text.match(/\b(?:tax jurisdiction|jurisdiction)\s*:?\s*([A-Z]{2}(?:-[A-Z]{2})?)\b/i);
+  if (jurisdictionMatch && normalizeJurisdiction(jurisdictionMatch[1])) {
+    context.jurisdiction = normalizeJurisdiction(jurisdictionMatch[1]);
+  }
+
+  return context;
+}
+
+function lineTreatment(
+  jurisdiction: TaxJurisdiction,
+  category: string,
+  exempt: boolean,
+  reverseCharge: boolean
+): { rateBps: number; treatment: TaxTreatment } {
+  if (jurisdiction.kind === 'none') return { rateBps: 0, treatment: 'zero-rated' };
+  if (exempt) return { rateBps: 0, treatment: 'exempt' };
+  if (reverseCharge) return { rateBps: 0, treatment: 'reverse-charge' };
+
+  const override = jurisdiction.categoryRatesBps?.[category.toLowerCase()];
+  if (override === undefined) {
+    return { rateBps: jurisdiction.standardRateBps, treatment: 'standard' };
+  }
+  if (override === 0) {
+    return { rateBps: 0, treatment: jurisdiction.kind === 'sales' ? 'exempt' : 'zero-rated' };
+  }
+  return { rateBps: override, treatment: override < jurisdiction.standardRateBps ? 'reduced' : 'standard' };
+}
+
+// B2B services across borders are taxed where the client is: the client self-assesses
+function isReverseCharge(jurisdiction: TaxJurisdiction, context: TaxContext): boolean {
+  if (jurisdiction.kind !== 'vat' && jurisdiction.kind !== 'gst') {
+    return false;
+  }
+  if (context.reverseCharge) {
+    return true;
+  }
+  return !!context.clientTaxId &&
+    !!context.clientJurisdiction &&
+    context.clientJurisdiction !== jurisdiction.code;
+}
+
+function taxNote(jurisdiction: TaxJurisdiction, context: TaxContext, reverseCharge: boolean): string | undefined {
+  if (context.exempt) {
+    return `Client is exempt from ${jurisdiction.taxName}${context.exemptionReason ? ` (${context.exemptionReason})` : ''}`;
+  }
+  if (reverseCharge) {
+    return `Reverse charge: ${jurisdiction.taxName} to be accounted for by the recipient` +
+      (context.clientTaxId ? ` (${context.clientTaxId})` : '');
+  }
+  return undefined;
+}
@@ -0,0 +1,371 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { CURRENCY_DECIMALS } from '../../src/services/money.ts';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { CustomField, InvoiceTemplate, LineItem } from './types.ts';
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+const CUSTOM_FIELD_TYPES: CustomField['type'][] = ['text', 'number', 'date', 'boolean'];
+
+// Built-in templates seeded into every registry; read-only but cloneable
+const DEFAULT_TEMPLATES: InvoiceTemplate[] = [
+
+  // Web Development Template
+  {
+    id: 'web-dev',
+    name: 'Web Development Services',
+    description: 'Template for web development projects',
+    defaultTerms: {
+      paymentWindow: 30,
+      earlyPaymentDiscountBps: 200, // 2%
+      requiresApproval: false,
+      currency: 'USD'
+    },
+    lineItems: [
+      {
+        description: 'Frontend Development',
+        quantity: 1,
+        unitPrice: 0,
+        total: 0,
+        category: 'development'
+      },
+      {
+        description: 'Backend Development',
+        quantity: 1,
+        unitPrice: 0,
+        total: 0,
+        category: 'development'
+      }
+    ],
+    customFields: [
+      { name: 'Project Name', value: '', type: 'text' },
+      { name: 'Completion Date', value: '', type: 'date' },
+      { name: 'Repository URL', value: '', type: 'text' }
+    ]
+  },
+
+  // Consulting Template
+  {
+    id: 'consulting',
+    name: 'Consulting Services',
+    description: 'Template for consulting work',
+    defaultTerms: {
+      paymentWindow: 15,
+      earlyPaymentDiscountBps: 300, // 3%
+      requiresApproval: true,
+      currency: 'USD'
+    },
+    lineItems: [
+      {
+        description: 'Consulting Hours',
+        quantity: 0,
+        unitPrice: 150,
+        total: 0,
+        category: 'consulting'
+      }
+    ],
+    customFields: [
+      { name: 'Consultation Period', value: '', type: 'text' },
+      { name: 'Deliverables', value: '', type: 'text' }
+    ]
+  },
+
+  // Design Template
+  {
+    id: 'design',
+    name: 'Design Services',
+    description: 'Template for design projects',
+    defaultTerms: {
+      paymentWindow: 21,
+      earlyPaymentDiscountBps: 250, // 2.5%
+      requiresApproval: false,
+      currency: 'USD'
+    },
+    lineItems: [
+      {
+        description: 'Design Concepts',
+        quantity: 1,
+        unitPrice: 0,
+        total: 0,
+        category: 'design'
+      },
+      {
+        description: 'Revisions',
+        quantity: 3,
+        unitPrice: 0,
+        total: 0,
+        category: 'design'
+      }
+    ],
+    customFields: [
+      { name: 'Design Type', value: '', type: 'text' },
+      { name: 'Brand Guidelines', value: '', type: 'text' }
+    ]
+  }
+];
+
+export default class TemplateRegistry {
+  private store: RuntimeStore<InvoiceTemplate>;
+  private seeded?: Promise<void>;
+
+  constructor(runtime: IAgentRuntime) {
+    this.store = new RuntimeStore<InvoiceTemplate>(runtime, 'invoice-templates');
+  }
+
+  async get(templateId: string): Promise<InvoiceTemplate | undefined> {
+    await this.ensureSeeded();
+    return this.store.get(templateId);
+  }
+
+  /**
+   * Built-in templates plus those owned by the given provider
+   */
+  async list(ownerId?: string): Promise<InvoiceTemplate[]> {
+    await this.ensureSeeded();
+    const templates = await this.store.list(template =>
+      template.builtIn || (ownerId !== undefined && template.ownerId === ownerId)
+    );
+    return templates.sort((a, b) => Number(!!b.builtIn) - Number(!!a.builtIn) || a.name.localeCompare(b.name));
+  }
+
+  async create(ownerId: string, template: InvoiceTemplate): Promise<InvoiceTemplate> {
+    await this.ensureSeeded();
+
+    const now = new Date().toISOString();
+    const record: InvoiceTemplate = {
+      ...template,
+      ownerId,
+      builtIn: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.assertValid(record);
+
+    let created = false;
+    await this.store.update(record.id, existing => {
+      if (existing) return undefined;
+      created = true;
+      return record;
+    });
+
+    if (!created) {
+      throw new Error(`Template "${record.id}" already exists`);
+    }
+    return record;
+  }
+
+  async update(ownerId: string, templateId: string, changes: Partial<InvoiceTemplate>): Promise<InvoiceTemplate> {
+    await this.ensureSeeded();
+
+    let failure: string | undefined;
+    const updated = await this.store.update(templateId, existing => {
+      failure = this.checkOwnership(existing, templateId, ownerId);
+      if (failure) return undefined;
+
+      const record: InvoiceTemplate = {
+        ...existing!,
+        ...changes,
+        defaultTerms: { ...existing!.defaultTerms, ...changes.defaultTerms },
+        // Identity and ownership are never changed through an update
+        id: existing!.id,
+        ownerId: existing!.ownerId,
+        builtIn: false,
+        createdAt: existing!.createdAt,
+        updatedAt: new Date().toISOString()
+      };
+
+      const validation = validateTemplate(record);
+      if (!validation.valid) {
+        failure = `Invalid template: ${validation.errors.join(', ')}`;
+        return undefined;
+      }
+      return record;
+    });
+
+    if (failure) {
+      throw new Error(failure);
+    }
+    return updated!;
+  }
+
+  async delete(ownerId: string, templateId: string): Promise<void> {
+    await this.ensureSeeded();
+
+    const failure = this.checkOwnership(await this.store.get(templateId), templateId, ownerId);
+    if (failure) {
+      throw new Error(failure);
+    }
+
+    await this.store.delete(templateId);
+  }
+
+  async clone(
+    ownerId: string,
+    sourceId: string,
+    newId: string,
+    overrides: Partial<InvoiceTemplate> = {}
+  ): Promise<InvoiceTemplate> {
+    const source = await this.get(sourceId);
+    if (!source) {
+      throw new Error(`Template "${sourceId}" not found`);
+    }
+    if (!source.builtIn && source.ownerId !== ownerId) {
+      throw new Error(`Template "${sourceId}" belongs to another provider`);
+    }
+
+    return this.create(ownerId, {
+      ...structuredClone(source),
+      name: `${source.name} (Copy)`,
+      ...overrides,
+      id: newId,
+      defaultTerms: { ...source.defaultTerms, ...overrides.defaultTerms }
+    });
+  }
+
+  private checkOwnership(template: InvoiceTemplate | undefined, templateId: string, ownerId: string): string | undefined {
+    if (!template) return `Template "${templateId}" not found`;
+    if (template.builtIn) return `Built-in template "${templateId}" cannot be modified; clone it instead`;
+    if (template.ownerId !== ownerId) return `Template "${templateId}" belongs to another provider`;
+    return undefined;
+  }
+
+  private assertValid(template: InvoiceTemplate) {
+    const validation = validateTemplate(template);
+    if (!validation.valid) {
+      throw new Error(`Invalid template: ${validation.errors.join(', ')}`);
+    }
+  }
+
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeded) {
+      this.seeded = (async () => {
+        for (const template of DEFAULT_TEMPLATES) {
+          await this.store.update(template.id, existing =>
+            existing ? undefined : { ...structuredClone(template), builtIn: true }
+          );
+        }
+      })();
+    }
+    return this.seeded;
+  }
+}
+
+export function validateTemplate(template: InvoiceTemplate): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!template.id || !TEMPLATE_ID_PATTERN.test(template.id)) {
+    errors.push("Template ID must be 2-40 lowercase letters, digits or dashes");
+  }
+
+  if (!template.name || template.name.trim().length === 0) {
+    errors.push("Template name is required");
+  }
+
+  if (typeof template.description !== 'string') {
+    errors.push("Template description must be text");
+  }
+
+  const terms = template.defaultTerms;
+  if (!terms) {
+    errors.push("Default payment terms are required");
+  } else {
+    if (!Number.isInteger(terms.paymentWindow) || terms.paymentWindow < 1 || terms.paymentWindow > 90) {
+      errors.push("Payment window must be between 1 and 90 days");
+    }
+    if (!Number.isInteger(terms.earlyPaymentDiscountBps) || terms.earlyPaymentDiscountBps < 0 || terms.earlyPaymentDiscountBps > 1000) {
+      errors.push("Early payment discount must be between 0 and 1000 bps");
+    }
+    if (typeof terms.requiresApproval !== 'boolean') {
+      errors.push("requiresApproval must be true or false");
+    }
+    if (!terms.currency || terms.currency.trim().length === 0) {
+      errors.push("Currency is required");
+    } else if (CURRENCY_DECIMALS[terms.currency.toUpperCase()] === undefined) {
+      errors.push(`Unsupported currency: ${terms.currency}`);
+    }
+  }
+
+  if (!Array.isArray(template.lineItems)) {
+    errors.push("Line items must be a list");
+  } else {
+    template.lineItems.forEach((item, index) => {
+      errors.push(...validateLineItem(item).map(error => `Line item ${index + 1}: ${error}`));
+    });
+  }
+
+  if (!Array.isArray(template.customFields)) {
+    errors.push("Custom fields must be a list");
+  } else {
+    template.customFields.forEach((field, index) => {
+      errors.push(...validateCustomField(field).map(error => `Custom field ${index + 1}: ${error}`));
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+export function validateLineItem(item: LineItem): string[] {
+  const errors: string[] = [];
+
+  if (!item || typeof item.description !== 'string' || item.description.trim().length === 0) {
+    errors.push("description is required");
+    return errors;
+  }
+  if (!Number.isFinite(item.quantity) || item.quantity < 0) {
+    errors.push("quantity must be a non-negative number");
+  }
+  if (!isNonNegativeAmount(item.unitPrice)) {
+    errors.push("unit price must be a non-negative number");
+  }
+  if (!isNonNegativeAmount(item.total)) {
+    errors.push("total must be a non-negative number");
+  }
+  if (item.category !== undefined && typeof item.category !== 'string') {
+    errors.push("category must be text");
+  }
+
+  return errors;
+}
+
+export function validateCustomField(field: CustomField): string[] {
+  const errors: string[] = [];
+
+  if (!field || typeof field.name !== 'string' || field.name.trim().length === 0) {
+    errors.push("name is required");
+    return errors;
+  }
+  if (!CUSTOM_FIELD_TYPES.includes(field.type)) {
+    errors.push(`type must be one of ${CUSTOM_FIELD_TYPES.join(', ')}`);
+  }
+  if (typeof field.value !== 'string') {
+    errors.push("value must be text");
+    return errors;
+  }
+
+  // Empty values are placeholders to be filled in per invoice
+  if (field.value !== '') {
+    if (field.type === 'number' && !Number.isFinite(Number(field.value))) {
+      errors.push("value must be a number");
+    }
+    if (field.type === 'date' && Number.isNaN(Date.parse(field.value))) {
+      errors.push("value must be a date");
+    }
+    if (field.type === 'boolean' && !['true', 'false'].includes(field.value)) {
+      errors.push("value must be true or false");
+    }
+  }
+
+  return errors;
+}
+
+// Amounts may be numbers or decimal strings
+function isNonNegativeAmount(value: number | string): boolean {
+  if (typeof value !== 'number' && (typeof value !== 'string' || value.trim() === '')) {
+    return false;
+  }
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0;
+}
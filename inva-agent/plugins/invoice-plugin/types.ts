@@ -0,0 +1,69 @@
+import { TaxContext } from './taxEngine.ts';
+
+export interface InvoiceRequest {
+  clientAddress: string;
+  amount: string;
+  currency: string;
+  description: string;
+  lineItems?: LineItem[];
+  tax?: TaxContext;
+  paymentTerms?: {
+    paymentWindow?: number; // days
+    earlyPaymentDiscountBps?: number;
+    requiresApproval?: boolean;
+  };
+  dueDate?: string;
+  metadata?: any;
+}
+
+// Line items to price without creating an invoice, e.g. from the create-invoice form
+export type TaxPreviewRequest = Pick<InvoiceRequest, 'currency' | 'tax'> & { lineItems: LineItem[] };
+
+export interface InvoiceTemplate {
+  id: string;
+  name: string;
+  description: string;
+  defaultTerms: PaymentTerms;
+  lineItems: LineItem[];
+  customFields: CustomField[];
+  ownerId?: string; // provider entity that owns the template (unset for built-ins)
+  builtIn?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface LineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number | string; // decimal string where a number would lose precision (e.g. 18-decimal tokens)
+  total: number | string;
+  unit?: string; // e.g. hour, day, page
+  category?: string;
+}
+
+export interface CustomField {
+  name: string;
+  value: string;
+  type: 'text' | 'number' | 'date' | 'boolean';
+}
+
+export interface PaymentTerms {
+  paymentWindow: number;
+  earlyPaymentDiscountBps: number;
+  requiresApproval: boolean;
+  currency: string;
+}
+
+export interface Client {
+  id: string;
+  ownerId: string; // provider entity whose address book this is
+  name: string;
+  email?: string;
+  wallets: Record<string, string>; // chain (e.g. sei-testnet) -> wallet address
+  defaultCurrency?: string;
+  defaultTerms?: Partial<Omit<PaymentTerms, 'currency'>>;
+  billingAddress?: string;
+  taxId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -1,4 +1,5 @@
 import { Plugin, IAgentRuntime, Memory, Action, Evaluator, HandlerCallback } from "@elizaos/core";
+import Money from "../../src/services/money.ts";
 
 interface NegotiationContext {
   invoiceId: number;
@@ -14,7 +15,7 @@ interface PaymentTerms {
   paymentWindow: number; // in days
   earlyPaymentDiscountBps: number; // basis points (100 = 1%)
   requiresApproval: boolean;
-  amount: number;
+  amount: Money;
   currency: string;
 }
 
@@ -118,7 +119,7 @@ class NegotiationEngine {
       return {
         recommendation: 'counter',
         counterOffer,
-        reasoning: this.generateCounterReasoning(analysis, counterOffer, strategy),
+        reasoning: this.generateCounterReasoning(analysis, originalTerms, counterOffer, strategy),
         riskAssessment: this.generateRiskAssessment(riskScore)
       };
     } else {
@@ -148,7 +149,7 @@ class NegotiationEngine {
     riskScore += history.numberOfDisputes * 10;
 
     // Amount risk
-    if (terms.amount > history.averageInvoiceAmount * 2) {
+    if (terms.amount.greaterThan(Money.parse(history.averageInvoiceAmount, terms.currency).multiply(2))) {
       riskScore += 20;
     }
 
@@ -205,7 +206,7 @@ class NegotiationEngine {
                          history.paymentReliabilityScore > 60 ? 'medium' : 'low';
 
     // Amount factor
-    if (proposed.amount > original.amount) {
+    if (proposed.amount.greaterThan(original.amount)) {
       score += 10;
       factors.amount = 'increased';
     }
@@ -240,7 +241,7 @@ class NegotiationEngine {
       
       // Require higher amount for extended terms
       if (windowDifference > 15) {
-        counterOffer.amount = original.amount * 1.02; // 2% increase
+        counterOffer.amount = original.amount.multiply('1.02'); // 2% increase
       }
     } else { // accommodating
       // More generous concessions
@@ -284,6 +285,7 @@ class NegotiationEngine {
 
   private generateCounterReasoning(
     analysis: any, 
+    original: PaymentTerms,
     counterOffer: PaymentTerms, 
     strategy: NegotiationStrategy
   ): string {
@@ -293,8 +295,8 @@ class NegotiationEngine {
     reasoning += `• Payment Window: Net ${counterOffer.paymentWindow} days\n`;
     reasoning += `• Early Payment Discount: ${counterOffer.earlyPaymentDiscountBps / 100}%\n`;
     
-    if (counterOffer.amount > analysis.originalAmount) {
-      reasoning += `• Adjusted Amount: ${counterOffer.amount.toLocaleString()}\n`;
+    if (counterOffer.amount.greaterThan(original.amount)) {
+      reasoning += `• Adjusted Amount: ${counterOffer.amount.format()}\n`;
     }
     
     reasoning += `\n**Justification:**\n`;
@@ -358,8 +360,8 @@ class NegotiationEngine {
       message += `• Payment Terms: Net ${recommendation.counterOffer.paymentWindow} days\n`;
       message += `• Early Payment Discount: ${recommendation.counterOffer.earlyPaymentDiscountBps / 100}% if paid within 10 days\n`;
       
-      if (recommendation.counterOffer.amount !== context.originalTerms.amount) {
-        message += `• Adjusted Amount: ${recommendation.counterOffer.amount.toLocaleString()}\n`;
+      if (!recommendation.counterOffer.amount.equals(context.originalTerms.amount)) {
+        message += `• Adjusted Amount: ${recommendation.counterOffer.amount.format()}\n`;
       }
       
       message += `\nThis proposal balances your needs with our business requirements. `;
@@ -496,7 +498,7 @@ const analyzeClientRiskAction: Action = {
         paymentWindow: 30,
         earlyPaymentDiscountBps: 200,
         requiresApproval: false,
-        amount: 1000,
+        amount: Money.parse(1000, 'USD'),
         currency: 'USD'
       };
       
@@ -580,14 +582,14 @@ async function extractNegotiationContext(
       paymentWindow: 30,
       earlyPaymentDiscountBps: 200,
       requiresApproval: false,
-      amount: 5000,
+      amount: Money.parse(5000, 'USD'),
       currency: 'USD'
     },
     proposedTerms: {
       paymentWindow: 60,
       earlyPaymentDiscountBps: 200,
       requiresApproval: false,
-      amount: 5000,
+      amount: Money.parse(5000, 'USD'),
       currency: 'USD'
     },
     clientRequest: message.content.text || '',
@@ -0,0 +1,141 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { RateSnapshot } from '../../src/services/exchangeRates.ts';
+
+export const DEFAULT_QUOTE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * A locked conversion: paying `payAmount` of the invoice's token settles `amount` of `currency`
+ * (e.g. 1000 SEI for $150), whatever the rate does before the quote expires
+ */
+export interface ConversionQuote {
+  id: string;
+  invoiceId: number;
+  amount: string; // the agreed value the provider receives
+  currency: string;
+  payAmount: string; // principal paid on-chain, in the invoice's token
+  payCurrency: string;
+  rate: RateSnapshot; // currency -> payCurrency
+  payer?: string; // when set, only this wallet may pay with the quote
+  createdAt: string;
+  expiresAt: string;
+  signature: string;
+  usedBy?: string; // the payment that redeemed it
+}
+
+export type ConversionQuoteInput = Omit<ConversionQuote, 'id' | 'createdAt' | 'expiresAt' | 'signature' | 'usedBy'>;
+
+// Used only when neither QUOTE_SIGNING_SECRET nor PRIVATE_KEY is set; such quotes die with the process
+let processSecret: string | undefined;
+
+/**
+ * Issues and redeems conversion quotes. Each quote is signed (HMAC-SHA256) over every term that
+ * decides what is paid, so a quote handed back by a client is rejected if any of them changed.
+ * A quote can be redeemed once, and not after it expires.
+ */
+export default class ConversionQuotes {
+  private store: RuntimeStore<ConversionQuote>;
+  private secret: string;
+
+  constructor(runtime: IAgentRuntime, secret: string = quoteSigningSecret()) {
+    this.store = new RuntimeStore<ConversionQuote>(runtime, 'conversion-quotes');
+    this.secret = secret;
+  }
+
+  async issue(input: ConversionQuoteInput, ttlMs: number = DEFAULT_QUOTE_TTL_MS, now: Date = new Date()): Promise<ConversionQuote> {
+    const unsigned = {
+      ...input,
+      id: `qt-${randomBytes(4).toString('hex')}`,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString()
+    };
+    const quote = { ...unsigned, signature: this.sign(unsigned) };
+    return this.store.set(quote.id, quote);
+  }
+
+  async get(id: string): Promise<ConversionQuote | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * The quote as issued, if it is genuine, unexpired and unused. `quote` is either its ID or the
+   * full quote as the client holds it.
+   */
+  async verify(quote: ConversionQuote | string, now: Date = new Date()): Promise<ConversionQuote> {
+    const id = typeof quote === 'string' ? quote : quote.id;
+    const issued = await this.store.get(id);
+    if (!issued) {
+      throw new Error(`Unknown quote ${id}`);
+    }
+
+    for (const candidate of typeof quote === 'string' ? [issued] : [quote, issued]) {
+      if (!this.hasValidSignature(candidate)) {
+        throw new Error(`Quote ${id} has been altered and can't be used`);
+      }
+    }
+    if (Date.parse(issued.expiresAt) <= now.getTime()) {
+      throw new Error(`Quote ${id} expired at ${new Date(issued.expiresAt).toLocaleString()}; please request a new one`);
+    }
+    if (issued.usedBy) {
+      throw new Error(`Quote ${id} has already been used by payment ${issued.usedBy}`);
+    }
+    return issued;
+  }
+
+  /**
+   * Claims the quote for a payment about to be sent. Fails if it expired or another payment got it first.
+   */
+  async redeem(id: string, paymentId: string, now: Date = new Date()): Promise<ConversionQuote> {
+    const quote = await this.verify(id, now);
+    const redeemed = await this.store.update(id, current => current && !current.usedBy ? { ...current, usedBy: paymentId } : undefined);
+    if (!redeemed) {
+      throw new Error(`Quote ${id} has already been used`);
+    }
+    return { ...quote, usedBy: paymentId };
+  }
+
+  // Hands a quote back when its payment failed before anything was sent
+  async release(id: string, paymentId: string): Promise<void> {
+    await this.store.update(id, current => current?.usedBy === paymentId ? { ...current, usedBy: undefined } : undefined);
+  }
+
+  private hasValidSignature(quote: ConversionQuote): boolean {
+    const expected = Buffer.from(this.sign(quote), 'hex');
+    const actual = Buffer.from(String(quote.signature || ''), 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private sign(quote: Omit<ConversionQuote, 'signature' | 'usedBy'>): string {
+    const terms = [
+      quote.id,
+      quote.invoiceId,
+      quote.amount,
+      quote.currency,
+      quote.payAmount,
+      quote.payCurrency,
+      quote.rate.fromUsd,
+      quote.rate.toUsd,
+      quote.rate.observedAt,
+      (quote.payer || '').toLowerCase(),
+      quote.createdAt,
+      quote.expiresAt
+    ];
+    return createHmac('sha256', this.secret).update(terms.join('|')).digest('hex');
+  }
+}
+
+// QUOTE_SIGNING_SECRET, or a key derived from the agent's wallet so quotes survive restarts
+function quoteSigningSecret(): string {
+  if (process.env.QUOTE_SIGNING_SECRET) {
+    return process.env.QUOTE_SIGNING_SECRET;
+  }
+  if (process.env.PRIVATE_KEY) {
+    return createHmac('sha256', process.env.PRIVATE_KEY).update('inva:conversion-quotes').digest('hex');
+  }
+  if (!processSecret) {
+    console.warn('⚠️ No QUOTE_SIGNING_SECRET or PRIVATE_KEY set; conversion quotes will not survive a restart');
+    processSecret = randomBytes(32).toString('hex');
+  }
+  return processSecret;
+}
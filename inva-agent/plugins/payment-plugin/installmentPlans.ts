@@ -0,0 +1,164 @@
+import { IAgentRuntime } from "@elizaos/core";
+import Money from '../../src/services/money.ts';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+
+// overdue: past its due date and unpaid; InvoiceEscrow charges any late fee per installment
+export type InstallmentStatus = 'scheduled' | 'paid' | 'overdue';
+
+export interface Installment {
+  number: number;
+  amount: string; // principal this installment settles
+  dueDate: number;
+  status: InstallmentStatus;
+  amountPaid?: string; // principal settled towards it so far
+  paidAmount?: string; // what was actually sent, after any discount or late fee
+  paidAt?: number;
+  txHash?: string;
+}
+
+export interface InstallmentPlan {
+  invoiceId: number;
+  currency: string;
+  total: string; // balance due when the plan was agreed
+  intervalDays: number;
+  installments: Installment[];
+  txHashes?: string[]; // payments already counted, so a payment reported twice is only applied once
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InstallmentPayment {
+  amount: string; // principal settled
+  paidAmount: string;
+  paidAt: number;
+  txHash?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_INSTALLMENTS = 24;
+
+/**
+ * Agreed schedules for paying an invoice in parts. The escrow only tracks what has been paid;
+ * the schedule (how much, by when) is kept here, one plan per invoice.
+ */
+export default class InstallmentPlans {
+  private store: RuntimeStore<InstallmentPlan>;
+
+  constructor(runtime: IAgentRuntime) {
+    this.store = new RuntimeStore<InstallmentPlan>(runtime, 'installment-plans');
+  }
+
+  async get(invoiceId: number, now: number = Date.now()): Promise<InstallmentPlan | undefined> {
+    const plan = await this.store.get(String(invoiceId));
+    return plan && withOverdue(plan, now);
+  }
+
+  async create(invoiceId: number, balanceDue: Money, count: number, intervalDays: number, now: number = Date.now()): Promise<InstallmentPlan> {
+    const errors = validateInstallmentPlan(balanceDue, count, intervalDays);
+    if (errors.length > 0) {
+      throw new Error(`Invalid installment plan: ${errors.join(', ')}`);
+    }
+
+    const timestamp = new Date(now).toISOString();
+    const plan: InstallmentPlan = {
+      invoiceId,
+      currency: balanceDue.currency,
+      total: balanceDue.toDecimalString(),
+      intervalDays,
+      installments: buildInstallmentSchedule(balanceDue, count, intervalDays, now),
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    return this.store.set(String(invoiceId), plan);
+  }
+
+  /**
+   * Marks installments paid in order. A payment larger than the next installment also covers the
+   * ones after it; a smaller one leaves the remainder on that installment. A transaction already
+   * counted leaves the plan unchanged (and returns undefined).
+   */
+  async recordPayment(invoiceId: number, payment: InstallmentPayment): Promise<InstallmentPlan | undefined> {
+    return this.store.update(String(invoiceId), plan => {
+      if (!plan) return undefined;
+      if (payment.txHash && plan.txHashes?.includes(payment.txHash)) return undefined;
+
+      let remaining = Money.parse(payment.amount, plan.currency);
+      const installments = plan.installments.map(installment => {
+        if (installment.status === 'paid' || !remaining.isPositive()) {
+          return installment;
+        }
+
+        const due = installmentBalance(installment, plan.currency);
+        const applied = remaining.lessThan(due) ? remaining : due;
+        remaining = remaining.subtract(applied);
+
+        const amountPaid = Money.parse(installment.amount, plan.currency).subtract(due).add(applied);
+        return {
+          ...installment,
+          status: applied.equals(due) ? 'paid' as InstallmentStatus : installment.status,
+          amountPaid: amountPaid.toDecimalString(),
+          paidAmount: payment.paidAmount,
+          paidAt: payment.paidAt,
+          txHash: payment.txHash
+        };
+      });
+
+      return {
+        ...plan,
+        installments,
+        txHashes: payment.txHash ? [...(plan.txHashes || []), payment.txHash] : plan.txHashes,
+        updatedAt: new Date(payment.paidAt).toISOString()
+      };
+    });
+  }
+}
+
+export function validateInstallmentPlan(balanceDue: Money, count: number, intervalDays: number): string[] {
+  const errors: string[] = [];
+
+  if (!balanceDue.isPositive()) {
+    errors.push("Nothing is left to pay on this invoice");
+  }
+  if (!Number.isInteger(count) || count < 2 || count > MAX_INSTALLMENTS) {
+    errors.push(`Installment count must be between 2 and ${MAX_INSTALLMENTS}`);
+  }
+  if (!Number.isInteger(intervalDays) || intervalDays < 1 || intervalDays > 90) {
+    errors.push("Installments must be 1 to 90 days apart");
+  }
+
+  return errors;
+}
+
+/**
+ * Equal installments (any rounding remainder goes to the earliest ones); the first is due now
+ */
+export function buildInstallmentSchedule(balanceDue: Money, count: number, intervalDays: number, start: number): Installment[] {
+  return balanceDue.allocate(new Array(count).fill(1)).map((amount, i) => ({
+    number: i + 1,
+    amount: amount.toDecimalString(),
+    dueDate: start + i * intervalDays * DAY_MS,
+    status: 'scheduled' as InstallmentStatus
+  }));
+}
+
+export function nextInstallment(installments: Installment[]): Installment | undefined {
+  return installments.find(installment => installment.status !== 'paid');
+}
+
+// Principal still owed on an installment
+export function installmentBalance(installment: Installment, currency: string): Money {
+  const amount = Money.parse(installment.amount, currency);
+  return installment.amountPaid ? amount.subtract(Money.parse(installment.amountPaid, currency)) : amount;
+}
+
+function withOverdue(plan: InstallmentPlan, now: number): InstallmentPlan {
+  return {
+    ...plan,
+    installments: plan.installments.map(installment =>
+      installment.status === 'scheduled' && installment.dueDate < now
+        ? { ...installment, status: 'overdue' as InstallmentStatus }
+        : installment
+    )
+  };
+}
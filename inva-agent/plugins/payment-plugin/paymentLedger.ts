@@ -0,0 +1,148 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { randomBytes } from 'crypto';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { RateSnapshot } from '../../src/services/exchangeRates.ts';
+import { Installment } from './installmentPlans.ts';
+
+export type PaymentState = 'pending' | 'processing' | 'confirmed' | 'partially_paid' | 'failed' | 'refunded';
+
+export interface PaymentStatus {
+  invoiceId: number;
+  status: PaymentState;
+  txHash?: string;
+  amount: string;
+  currency: string;
+  paidAt?: number;
+  confirmations?: number;
+  gasUsed?: string;
+  gasPrice?: string;
+  earlyPayment?: boolean;
+  discountApplied?: string;
+  lateFee?: string; // surcharge included in amount for payments after the due date and grace period
+  daysOverdue?: number;
+  amountPaid?: string; // principal settled so far, across installments
+  balanceDue?: string;
+  installments?: Installment[];
+  failureReason?: string;
+  nonce?: number; // of the submitted transaction, to tell a replacement from a drop
+  blockNumber?: number;
+  blockHash?: string; // block the transaction was last seen in, to notice reorgs
+  principal?: string; // balance this payment settles, before any discount or late fee
+  exchangeRate?: RateSnapshot; // USD rate of the paid currency when the payment was made
+  quoteId?: string; // conversion quote the payment was made at, if any
+}
+
+export interface PaymentTransition {
+  status: PaymentState;
+  at: string;
+  txHash?: string;
+  reason?: string;
+}
+
+// One payment attempt against an invoice, with every status it has been through
+export interface PaymentRecord extends PaymentStatus {
+  id: string;
+  payer: string;
+  provider?: string; // the invoice's provider, when the escrow could be read
+  history: PaymentTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaymentQuery {
+  invoiceId?: number;
+  payer?: string;
+  provider?: string;
+  status?: PaymentState | PaymentState[];
+  from?: Date; // created at or after
+  to?: Date; // created before
+}
+
+/**
+ * Durable record of every payment the agent has attempted. Action handlers each build their own
+ * PaymentService, so anything kept in memory would be gone by the next message.
+ */
+export default class PaymentLedger {
+  private store: RuntimeStore<PaymentRecord>;
+
+  constructor(runtime: IAgentRuntime) {
+    this.store = new RuntimeStore<PaymentRecord>(runtime, 'payment-ledger');
+  }
+
+  async get(id: string): Promise<PaymentRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  async open(payment: PaymentStatus & { payer: string; provider?: string }, now: Date = new Date()): Promise<PaymentRecord> {
+    const timestamp = now.toISOString();
+    const record: PaymentRecord = {
+      ...payment,
+      id: `pay-${randomBytes(4).toString('hex')}`,
+      history: [{ status: payment.status, at: timestamp, txHash: payment.txHash }],
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    return this.store.set(record.id, record);
+  }
+
+  /**
+   * Moves a payment to `status`, merging in what is now known about it. A reason is kept on the
+   * transition and, for failures, on the payment itself.
+   */
+  async transition(id: string, status: PaymentState, changes: Partial<PaymentStatus> = {}, reason?: string, now: Date = new Date()): Promise<PaymentRecord> {
+    const timestamp = now.toISOString();
+    const updated = await this.store.update(id, current => current && {
+      ...current,
+      ...changes,
+      status,
+      failureReason: status === 'failed' ? reason : undefined,
+      history: [...current.history, { status, at: timestamp, txHash: changes.txHash, reason }],
+      updatedAt: timestamp
+    });
+
+    if (!updated) {
+      throw new Error(`Payment ${id} not found`);
+    }
+    return updated;
+  }
+
+  /**
+   * Merges in what is now known about a payment without changing its status (e.g. confirmations)
+   */
+  async update(id: string, changes: Partial<PaymentStatus>, now: Date = new Date()): Promise<PaymentRecord> {
+    const updated = await this.store.update(id, current => current && {
+      ...current,
+      ...changes,
+      updatedAt: now.toISOString()
+    });
+
+    if (!updated) {
+      throw new Error(`Payment ${id} not found`);
+    }
+    return updated;
+  }
+
+  /**
+   * Matching payments, newest first
+   */
+  async query(query: PaymentQuery = {}): Promise<PaymentRecord[]> {
+    const statuses = query.status === undefined ? undefined : ([] as PaymentState[]).concat(query.status);
+    const payer = query.payer?.toLowerCase();
+    const provider = query.provider?.toLowerCase();
+
+    const records = await this.store.list(record =>
+      (query.invoiceId === undefined || record.invoiceId === query.invoiceId) &&
+      (!payer || record.payer.toLowerCase() === payer) &&
+      (!provider || record.provider?.toLowerCase() === provider) &&
+      (!statuses || statuses.includes(record.status)) &&
+      (!query.from || Date.parse(record.createdAt) >= query.from.getTime()) &&
+      (!query.to || Date.parse(record.createdAt) < query.to.getTime())
+    );
+    return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async latestForInvoice(invoiceId: number): Promise<PaymentRecord | undefined> {
+    const [latest] = await this.query({ invoiceId });
+    return latest;
+  }
+}
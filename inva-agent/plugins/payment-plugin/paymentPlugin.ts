@@ -1,5 +1,15 @@
-import { Plugin, IAgentRuntime, Memory, Action, Evaluator, HandlerCallback } from "@elizaos/core";
+import { Plugin, IAgentRuntime, Memory, Action, Evaluator, HandlerCallback, Service } from "@elizaos/core";
 import { ethers } from "ethers";
+import contractData from "../../src/services/sei-testnet.json";
+import { ERC20_ABI, INVOICE_ESCROW_ABI } from "../../src/services/contractAbis.ts";
+import ExchangeRates, { RateSnapshot, convertAt } from "../../src/services/exchangeRates.ts";
+import { LateFeePolicy, calculateLateFee, describeLateFeePolicy, lateFeePolicyFromChain } from "../../src/services/lateFees.ts";
+import Money, { decimalsFor, divideRatios, findAmount } from "../../src/services/money.ts";
+import TokenRegistry from "../../src/services/tokenRegistry.ts";
+import InstallmentPlans, { Installment, InstallmentPlan, MAX_INSTALLMENTS, installmentBalance, nextInstallment } from "./installmentPlans.ts";
+import PaymentLedger, { PaymentQuery, PaymentRecord, PaymentState, PaymentStatus } from "./paymentLedger.ts";
+import PaymentWatcher, { DEFAULT_FINALITY_DEPTH, PaymentReceiptDetails } from "./paymentWatcher.ts";
+import ConversionQuotes, { ConversionQuote, DEFAULT_QUOTE_TTL_MS } from "./conversionQuotes.ts";
 
 interface PaymentRequest {
   invoiceId: number;
@@ -8,58 +18,141 @@ interface PaymentRequest {
   currency: string;
   paymentMethod: 'native' | 'erc20';
   gasPreference?: 'fast' | 'standard' | 'slow';
+  quoteId?: string; // conversion quote the amount was locked at
 }
 
-interface PaymentStatus {
+// What settling an invoice's balance costs now and after its early payment discount ends
+interface PaymentQuote {
   invoiceId: number;
-  status: 'pending' | 'processing' | 'confirmed' | 'failed' | 'refunded';
-  txHash?: string;
-  amount: string;
-  currency: string;
-  paidAt?: number;
-  confirmations?: number;
-  gasUsed?: string;
-  gasPrice?: string;
-  earlyPayment?: boolean;
-  discountApplied?: string;
+  balanceDue: Money;
+  amountDueNow: Money; // as priced by the contract, including any discount or late fee
+  lateFee: Money;
+  earlyPayment: boolean;
+  discountBps: number;
+  discountDeadline?: number;
+  timeRemainingMs?: number; // until the discount deadline, while it applies
+  amountAfterDeadline?: Money;
+  dueDate: number;
 }
 
+// A window ending now, or explicit bounds (from inclusive, to exclusive)
+type AnalyticsTimeframe = '7d' | '30d' | '90d' | { from: Date; to: Date };
+
 interface PaymentAnalytics {
-  totalProcessed: string;
-  averagePaymentTime: number;
+  from: string;
+  to: string;
+  paymentCount: number; // payment attempts made in the window
+  totalProcessed: string; // USD, at each payment's recorded rate
+  averageDaysToPay: number | null; // from invoice creation to payment
+  billed: string; // USD value of invoices created in the window
+  outstanding: string; // USD value of what was still owed on them when the window ended
+  daysSalesOutstanding: number | null;
   earlyPaymentRate: number;
+  discountCost: string; // USD given up to early payment discounts
   failureRate: number;
-  gasEfficiency: number;
+  failureCauses: Record<string, number>;
+  gasSpent: string; // SEI, including failed transactions
+  gasSpentUsd: string;
   currencyBreakdown: Record<string, string>;
 }
 
-interface ExchangeRates {
-  [currency: string]: number;
-}
+// How long a payment waits for its transaction to be mined before reporting it as submitted
+const INCLUSION_TIMEOUT_MS = 30 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ANALYTICS_PRESET_DAYS = { '7d': 7, '30d': 30, '90d': 90 };
+
+// InvoiceEscrow.InvoiceStatus values for invoices that no longer count as billed
+const ESCROW_CANCELLED = 5;
+const ESCROW_REFUNDED = 6;
+const ESCROW_SUPERSEDED = 7;
+
+// A native payment's value must match what the escrow charges in the block it is mined in
+const PRICE_CHANGED_PATTERN = /Incorrect payment amount/i;
+
+// Failure reasons grouped into causes, first match wins
+const FAILURE_CAUSES: [RegExp, string][] = [
+  [/^Replaced by another transaction/i, 'Replaced by another transaction'],
+  [/^Dropped/i, 'Dropped before being mined'],
+  [/insufficient funds|exceeds balance/i, 'Insufficient funds'],
+  [/allowance/i, 'Token allowance too low'],
+  [/\bquote\b/i, 'Conversion quote rejected'],
+  [/only the invoice's client|sent from the agent wallet|PRIVATE_KEY/i, 'Wrong payer'],
+  [/validation failed|still due|nothing left to pay|is payable in/i, 'Invalid payment request'],
+  [PRICE_CHANGED_PATTERN, 'Price changed before it was mined'],
+  [/revert/i, 'Transaction reverted']
+];
 
 class PaymentService {
-  private exchangeRates: ExchangeRates = {};
-  private paymentHistory: Map<number, PaymentStatus> = new Map();
-
-  constructor(_runtime: IAgentRuntime) {
-    this.initializeExchangeRates();
-  }
-
-  private initializeExchangeRates() {
-    // Mock exchange rates (in real app, fetch from API)
-    this.exchangeRates = {
-      'USD': 1.0,
-      'SEI': 0.15, // 1 SEI = $0.15
-      'USDC': 1.0,
-      'USDT': 1.0,
-      'ETH': 2400,
-      'BTC': 45000
-    };
+  private rates: ExchangeRates;
+  private tokens: TokenRegistry;
+  private provider: ethers.JsonRpcProvider;
+  private escrow: ethers.Contract;
+  private signer?: ethers.Wallet;
+  private installmentPlans: InstallmentPlans;
+  private ledger: PaymentLedger;
+  private watcher: PaymentWatcher;
+  private quotes: ConversionQuotes;
+
+  constructor(runtime: IAgentRuntime) {
+    this.tokens = TokenRegistry.shared();
+    this.rates = ExchangeRates.shared();
+    this.installmentPlans = new InstallmentPlans(runtime);
+    this.ledger = new PaymentLedger(runtime);
+    this.quotes = new ConversionQuotes(runtime);
+    
+    // Read-only view of the escrow for the invoice terms a payment must honour
+    this.provider = new ethers.JsonRpcProvider(process.env.SEI_RPC_URL || 'https://evm-rpc-testnet.sei-apis.com');
+    this.escrow = new ethers.Contract(contractData.contracts.InvoiceEscrow, INVOICE_ESCROW_ABI, this.provider);
+    
+    // Payments are signed by the agent's wallet, which must be the invoice's client
+    if (process.env.PRIVATE_KEY) {
+      this.signer = new ethers.Wallet(process.env.PRIVATE_KEY, this.provider);
+    }
+
+    // Payments only count as confirmed once their transaction is buried deep enough to survive a reorg
+    const finalityDepth = parseInt(process.env.PAYMENT_FINALITY_DEPTH || '');
+    this.watcher = PaymentWatcher.forRuntime(runtime, this.provider, {
+      finalityDepth: Number.isFinite(finalityDepth) ? finalityDepth : DEFAULT_FINALITY_DEPTH,
+      read: (payment, receipt) => this.readPaymentReceipt(payment, receipt),
+      onFinal: payment => this.recordInstallment(payment)
+    });
+  }
+
+  get walletAddress(): string | undefined {
+    return this.signer?.address;
+  }
+
+  /**
+   * Follows new blocks and catches up on payments left processing, e.g. by a restart
+   */
+  async startWatching(): Promise<void> {
+    this.watcher.start();
+    await this.watcher.poll();
   }
 
-  async processPayment(request: PaymentRequest): Promise<PaymentStatus> {
+  stopWatching(): void {
+    this.watcher.stop();
+  }
+
+  get finalityDepth(): number {
+    return this.watcher.depth;
+  }
+
+  async processPayment(request: PaymentRequest): Promise<PaymentRecord> {
+    // Every attempt is recorded, including the ones that never reach the chain
+    const payment = await this.ledger.open({
+      invoiceId: request.invoiceId,
+      status: 'pending',
+      amount: request.amount,
+      currency: request.currency,
+      payer: request.payerAddress,
+      provider: await this.getInvoiceProvider(request.invoiceId),
+      quoteId: request.quoteId
+    });
+    
     try {
-      console.log(`Processing payment for invoice ${request.invoiceId}`);
+      console.log(`Processing payment ${payment.id} for invoice ${request.invoiceId}`);
       
       // Validate payment request
       const validation = await this.validatePaymentRequest(request);
@@ -67,13 +160,31 @@ class PaymentService {
         throw new Error(`Payment validation failed: ${validation.errors.join(', ')}`);
       }
 
+      // The escrow allow-list decides whether this is a native or ERC20 payment
+      const paymentMethod = await this.resolvePaymentMethod(request.currency);
+
+      // Less than the balance due is an installment; the escrow holds it until the balance is paid
+      const principal = Money.parse(request.amount, request.currency);
+      const outstanding = await this.getOutstanding(request.invoiceId, request.currency);
+      if (outstanding && principal.greaterThan(outstanding.balanceDue)) {
+        throw new Error(`Payment of ${principal.format()} exceeds the ${outstanding.balanceDue.format()} still due on invoice #${request.invoiceId}`);
+      }
+
+      // Overdue invoices are surcharged; only payments that are not late can earn the early discount
+      const lateFeeInfo = await this.checkLateFee(request.invoiceId, request.amount, request.currency);
+      const isLate = lateFeeInfo.lateFee.isPositive();
+      
       // Check for early payment discount
-      const earlyPaymentInfo = await this.checkEarlyPaymentDiscount(request.invoiceId);
+      const earlyPaymentInfo = isLate
+        ? { eligible: false, discountBps: 0 }
+        : await this.checkEarlyPaymentDiscount(request.invoiceId);
       
       // Calculate final amount
-      const finalAmount = earlyPaymentInfo.eligible 
-        ? this.applyDiscount(request.amount, earlyPaymentInfo.discountBps)
-        : request.amount;
+      const finalAmount = isLate
+        ? Money.parse(request.amount, request.currency).add(lateFeeInfo.lateFee).toDecimalString()
+        : earlyPaymentInfo.eligible 
+          ? this.applyDiscount(request.amount, request.currency, earlyPaymentInfo.discountBps)
+          : request.amount;
 
       // Create payment status
       const paymentStatus: PaymentStatus = {
@@ -81,34 +192,38 @@ class PaymentService {
         status: 'processing',
         amount: finalAmount,
         currency: request.currency,
+        exchangeRate: await this.snapshotRate(request.currency),
         earlyPayment: earlyPaymentInfo.eligible,
-        discountApplied: earlyPaymentInfo.eligible ? earlyPaymentInfo.discountBps.toString() : undefined
+        discountApplied: earlyPaymentInfo.eligible ? earlyPaymentInfo.discountBps.toString() : undefined,
+        lateFee: isLate ? lateFeeInfo.lateFee.toDecimalString() : undefined,
+        daysOverdue: lateFeeInfo.daysOverdue > 0 ? lateFeeInfo.daysOverdue : undefined
       };
+      await this.ledger.transition(payment.id, 'processing', paymentStatus);
 
-      // Simulate blockchain transaction
-      const txResult = await this.executeBlockchainPayment(request, finalAmount);
-      
-      paymentStatus.txHash = txResult.hash;
-      paymentStatus.status = 'confirmed';
-      paymentStatus.paidAt = Date.now();
-      paymentStatus.confirmations = txResult.confirmations;
-      paymentStatus.gasUsed = txResult.gasUsed;
-      paymentStatus.gasPrice = txResult.gasPrice;
+      // Claimed only now, so a payment rejected above leaves the quote usable
+      if (request.quoteId) {
+        await this.quotes.redeem(request.quoteId, payment.id);
+      }
 
-      // Store payment history
-      this.paymentHistory.set(request.invoiceId, paymentStatus);
+      const tx = await this.executeBlockchainPayment({ ...request, paymentMethod }, principal);
+      await this.ledger.transition(payment.id, 'processing', { txHash: tx.hash, nonce: tx.nonce });
 
-      return paymentStatus;
+      // Usually mined within seconds; the watcher follows it to finality (or failure) from here
+      await tx.wait(1, INCLUSION_TIMEOUT_MS).catch(error => {
+        console.warn(`⚠️ Payment ${payment.id} not yet mined:`, error.shortMessage || error.message);
+      });
+      return await this.watcher.track(payment.id);
 
     } catch (error) {
-      const failedStatus: PaymentStatus = {
-        invoiceId: request.invoiceId,
-        status: 'failed',
-        amount: request.amount,
-        currency: request.currency
-      };
-      
-      this.paymentHistory.set(request.invoiceId, failedStatus);
+      // Once a transaction is submitted, only the watcher decides that it failed
+      const current = await this.ledger.get(payment.id);
+      if (!current?.txHash) {
+        await this.ledger.transition(payment.id, 'failed', {}, error.message)
+          .catch(ledgerError => console.error(`⚠️ Could not record failure of payment ${payment.id}:`, ledgerError.message));
+        if (request.quoteId) {
+          await this.quotes.release(request.quoteId, payment.id);
+        }
+      }
       throw error;
     }
   }
@@ -124,12 +239,10 @@ class PaymentService {
       errors.push("Invalid payer address");
     }
 
-    if (!request.amount || parseFloat(request.amount) <= 0) {
-      errors.push("Invalid payment amount");
-    }
-
     if (!request.currency) {
       errors.push("Currency is required");
+    } else if (!isPositiveAmount(request.amount, request.currency)) {
+      errors.push("Invalid payment amount");
     }
 
     return {
@@ -138,67 +251,390 @@ class PaymentService {
     };
   }
 
-  private async checkEarlyPaymentDiscount(_invoiceId: number): Promise<{
+  /**
+   * Whether paying at `at` (unix seconds) earns the invoice's early payment discount, from its on-chain terms
+   */
+  async checkEarlyPaymentDiscount(invoiceId: number, at: number = Math.floor(Date.now() / 1000)): Promise<{
     eligible: boolean;
     discountBps: number;
     deadline?: number;
   }> {
-    // In real app, fetch from smart contract or database
-    // Mock early payment check
-    const mockInvoice = {
-      createdAt: Date.now() - (5 * 24 * 60 * 60 * 1000), // 5 days ago
-      paymentWindow: 30 * 24 * 60 * 60 * 1000, // 30 days
-      earlyPaymentDiscountBps: 200, // 2%
-      earlyPaymentDeadline: 10 * 24 * 60 * 60 * 1000 // 10 days for discount
-    };
+    try {
+      const invoice = await this.escrow.getInvoice(invoiceId);
+      const discountBps = Number(invoice[5][1]);
+      const deadline = Number(invoice[5][2]);
+      
+      return {
+        eligible: discountBps > 0 && at <= deadline,
+        discountBps,
+        deadline: discountBps > 0 ? deadline * 1000 : undefined
+      };
+    } catch (error) {
+      // The contract still grants the discount; without its terms the payment is quoted at face value
+      console.error(`⚠️ Could not read early payment terms for invoice ${invoiceId}:`, error.message);
+      return { eligible: false, discountBps: 0 };
+    }
+  }
 
-    const timeElapsed = Date.now() - mockInvoice.createdAt;
-    const isEarlyPayment = timeElapsed <= mockInvoice.earlyPaymentDeadline;
+  /**
+   * What paying off the invoice costs now, and while the early payment discount runs,
+   * what it will cost once the discount deadline has passed
+   */
+  async quotePayment(invoiceId: number, at: number = Math.floor(Date.now() / 1000)): Promise<PaymentQuote> {
+    try {
+      const invoice = await this.escrow.getInvoice(invoiceId);
+      const token = await this.tokens.getByAddress(invoice[4]);
+      const balanceDue = Money.fromMinor(invoice[12], token.symbol, token.decimals);
+      
+      // The contract's own price for the current block; zero once the invoice can no longer be paid
+      const [amount, lateFee] = await this.escrow.getPaymentAmount(invoiceId);
+      const amountDueNow = Money.fromMinor(amount, token.symbol, token.decimals);
+      if (!amountDueNow.isPositive()) {
+        throw new Error(`Invoice #${invoiceId} has nothing left to pay`);
+      }
+      
+      const early = await this.checkEarlyPaymentDiscount(invoiceId, at);
+      const quote: PaymentQuote = {
+        invoiceId,
+        balanceDue,
+        amountDueNow,
+        lateFee: Money.fromMinor(lateFee, token.symbol, token.decimals),
+        earlyPayment: early.eligible,
+        discountBps: early.discountBps,
+        discountDeadline: early.deadline,
+        dueDate: Number(invoice[8]) * 1000
+      };
+      
+      if (early.eligible && early.deadline) {
+        const deadline = early.deadline / 1000;
+        quote.timeRemainingMs = (deadline - at) * 1000;
+        quote.amountAfterDeadline = (await this.quoteEscrowPayment(invoiceId, balanceDue, deadline + 1)).amount;
+      }
+      return quote;
+    } catch (error) {
+      console.error("Error quoting payment:", error);
+      throw new Error(`Failed to quote payment: ${error.message}`);
+    }
+  }
 
-    return {
-      eligible: isEarlyPayment && mockInvoice.earlyPaymentDiscountBps > 0,
-      discountBps: mockInvoice.earlyPaymentDiscountBps,
-      deadline: mockInvoice.createdAt + mockInvoice.earlyPaymentDeadline
-    };
+  /**
+   * Locks what paying toward an invoice in its token costs for a given value in another currency,
+   * e.g. $150 of a SEI invoice. Without a value the whole balance due is quoted.
+   */
+  async quoteConversion(invoiceId: number, value: Money | null, payCurrency: string, payer?: string, now: Date = new Date()): Promise<ConversionQuote> {
+    try {
+      // The escrow only takes the invoice's own token
+      const invoice = await this.escrow.getInvoice(invoiceId);
+      const token = await this.tokens.getByAddress(invoice[4]);
+      const requested = await this.tokens.resolveCurrency(payCurrency);
+      if (requested.address.toLowerCase() !== token.address.toLowerCase()) {
+        throw new Error(`Invoice #${invoiceId} is payable in ${token.symbol}, not ${payCurrency}`);
+      }
+      const balanceDue = Money.fromMinor(invoice[12], token.symbol, token.decimals);
+      
+      let payAmount: Money;
+      let rate: RateSnapshot;
+      if (value) {
+        rate = await this.rates.snapshot(value.currency, token.symbol, now);
+        payAmount = convertAt(value, rate, token.decimals);
+      } else {
+        rate = await this.rates.snapshot('USD', token.symbol, now);
+        payAmount = balanceDue;
+        value = balanceDue.convert('USD', divideRatios(rate.toUsd, rate.fromUsd));
+      }
+      
+      if (!payAmount.isPositive()) {
+        throw new Error(`${value.format()} is less than the smallest ${token.symbol} amount`);
+      }
+      if (payAmount.greaterThan(balanceDue)) {
+        throw new Error(`${value.format()} is ${payAmount.format()}, more than the ${balanceDue.format()} still due on invoice #${invoiceId}`);
+      }
+      
+      return await this.quotes.issue({
+        invoiceId,
+        amount: value.toDecimalString(),
+        currency: value.currency,
+        payAmount: payAmount.toDecimalString(),
+        payCurrency: token.symbol,
+        rate,
+        payer
+      }, DEFAULT_QUOTE_TTL_MS, now);
+    } catch (error) {
+      console.error("Error quoting conversion:", error);
+      throw new Error(`Failed to quote conversion: ${error.message}`);
+    }
   }
 
-  private applyDiscount(amount: string, discountBps: number): string {
-    const amountNum = parseFloat(amount);
-    const discountAmount = (amountNum * discountBps) / 10000;
-    return (amountNum - discountAmount).toString();
+  /**
+   * Pays the amount locked by a conversion quote, given by ID or as the client holds it
+   */
+  async payWithQuote(quote: ConversionQuote | string, payerAddress: string): Promise<PaymentRecord> {
+    const verified = await this.quotes.verify(quote);
+    if (verified.payer && verified.payer.toLowerCase() !== payerAddress.toLowerCase()) {
+      throw new Error(`Quote ${verified.id} was issued to ${verified.payer}`);
+    }
+    
+    return this.processPayment({
+      invoiceId: verified.invoiceId,
+      payerAddress,
+      amount: verified.payAmount,
+      currency: verified.payCurrency,
+      paymentMethod: 'native', // Replaced by the token registry's answer when processed
+      quoteId: verified.id
+    });
   }
 
-  private async executeBlockchainPayment(
-    _request: PaymentRequest, 
-    _finalAmount: string
-  ): Promise<{
-    hash: string;
-    confirmations: number;
-    gasUsed: string;
-    gasPrice: string;
+  /**
+   * Late fee on paying `amount` now, using the policy the invoice was created with.
+   * Mirrors InvoiceEscrow.makePayment, so the agent sends exactly what the contract will charge.
+   */
+  async checkLateFee(invoiceId: number, amount: string, currency: string, at: number = Math.floor(Date.now() / 1000)): Promise<{
+    lateFee: Money;
+    daysOverdue: number;
+    policy?: LateFeePolicy;
   }> {
-    // In real app, this would interact with smart contracts
-    // Mock blockchain transaction
-    const mockTxHash = `0x${Math.random().toString(16).substring(2).padStart(64, '0')}`;
+    const none = { lateFee: Money.zero(currency), daysOverdue: 0 };
     
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    let dueDate: number;
+    let policy: LateFeePolicy;
+    try {
+      const invoice = await this.escrow.getInvoice(invoiceId);
+      dueDate = Number(invoice[8]);
+      policy = lateFeePolicyFromChain(await this.escrow.lateFeePolicies(invoiceId));
+    } catch (error) {
+      // The contract still enforces the fee; without its terms we can only pass the amount through
+      console.error(`⚠️ Could not read late fee terms for invoice ${invoiceId}:`, error.message);
+      return none;
+    }
     
+    const daysOverdue = Math.max(0, Math.floor((at - dueDate) / (24 * 60 * 60)));
+    const lateFee = calculateLateFee(Money.parse(amount, currency), dueDate, policy, at);
+    
+    if (lateFee.isPositive()) {
+      console.log(`⏰ Invoice ${invoiceId} is ${daysOverdue} days overdue (${describeLateFeePolicy(policy)}): late fee ${lateFee.format()}`);
+    }
+    return { lateFee, daysOverdue, policy };
+  }
+
+  // The invoice's provider, so payments can be looked up from either side
+  private async getInvoiceProvider(invoiceId: number): Promise<string | undefined> {
+    try {
+      const invoice = await this.escrow.getInvoice(invoiceId);
+      return invoice[1];
+    } catch (error) {
+      console.error(`⚠️ Could not read the provider of invoice ${invoiceId}:`, error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Principal paid so far and still owed on the escrowed invoice, or null when the escrow
+   * can't be read or the invoice is in another currency than the payment
+   */
+  async getOutstanding(invoiceId: number, currency: string): Promise<{ amountPaid: Money; balanceDue: Money } | null> {
+    try {
+      const invoice = await this.escrow.getInvoice(invoiceId);
+      const amountPaid = await this.tokens.toMoney(invoice[4], invoice[11]);
+      const balanceDue = await this.tokens.toMoney(invoice[4], invoice[12]);
+      if (balanceDue.currency !== currency.toUpperCase()) {
+        return null;
+      }
+      return { amountPaid, balanceDue };
+    } catch (error) {
+      console.error(`⚠️ Could not read the balance of invoice ${invoiceId}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Agrees to pay the invoice's remaining balance in `count` equal installments, `intervalDays` apart
+   */
+  async scheduleInstallments(invoiceId: number, count: number, intervalDays: number): Promise<{ plan: InstallmentPlan; dueDate: number }> {
+    try {
+      const invoice = await this.escrow.getInvoice(invoiceId);
+      const balanceDue = await this.tokens.toMoney(invoice[4], invoice[12]);
+      const plan = await this.installmentPlans.create(invoiceId, balanceDue, count, intervalDays);
+      return { plan, dueDate: Number(invoice[8]) * 1000 };
+    } catch (error) {
+      console.error("Error scheduling installments:", error);
+      throw new Error(`Failed to schedule installments: ${error.message}`);
+    }
+  }
+
+  async resolvePaymentMethod(currency: string): Promise<'native' | 'erc20'> {
+    const token = await this.tokens.resolveCurrency(currency);
+    return token.native ? 'native' : 'erc20';
+  }
+
+  private applyDiscount(amount: string, currency: string, discountBps: number): string {
+    // Rounds the discount down, matching InvoiceEscrow.makePayment
+    return Money.parse(amount, currency).applyDiscountBps(discountBps).toDecimalString();
+  }
+
+  /**
+   * Pays the escrow from the agent's wallet: the exact native value, or an ERC20 approval followed by
+   * the payment. Less than the balance due goes through `makePartialPayment`. The amount is priced
+   * against the latest block the way the contract prices it; a native payment mined after the discount
+   * deadline or a late fee day boundary no longer matches and reverts, and is not re-quoted here.
+   * Returns once the payment is submitted; what it did is read from its receipt by `readPaymentReceipt`.
+   */
+  private async executeBlockchainPayment(request: PaymentRequest, principal: Money): Promise<ethers.TransactionResponse> {
+    try {
+      if (!this.signer) {
+        throw new Error("No PRIVATE_KEY is configured, so the agent cannot sign payments");
+      }
+      if (request.payerAddress.toLowerCase() !== this.signer.address.toLowerCase()) {
+        throw new Error(`Payments are sent from the agent wallet ${this.signer.address}, not ${request.payerAddress}`);
+      }
+
+      const invoice = await this.escrow.getInvoice(request.invoiceId);
+      if (invoice[2].toLowerCase() !== this.signer.address.toLowerCase()) {
+        throw new Error(`Only the invoice's client (${invoice[2]}) can pay invoice #${request.invoiceId}`);
+      }
+      const token = await this.tokens.getByAddress(invoice[4]);
+      const requested = await this.tokens.resolveCurrency(request.currency);
+      if (requested.address.toLowerCase() !== token.address.toLowerCase()) {
+        throw new Error(`Invoice #${request.invoiceId} is payable in ${token.symbol}, not ${request.currency}`);
+      }
+
+      const amountDue = Money.fromMinor(principal.rescale(token.decimals).minor, token.symbol, token.decimals);
+      const isInstallment = amountDue.minor < BigInt(invoice[12]);
+      const latest = await this.provider.getBlock('latest');
+      const quote = await this.quoteEscrowPayment(request.invoiceId, amountDue, latest!.timestamp);
+
+      // Tracks the nonce locally so the payment can follow the approval without waiting on the node
+      const signer = new ethers.NonceManager(this.signer);
+      const escrowAddress = await this.escrow.getAddress();
+      const escrow = this.escrow.connect(signer) as ethers.Contract;
+      const overrides = token.native ? { value: quote.amount.minor } : {};
+      
+      if (!token.native) {
+        const erc20 = new ethers.Contract(token.address, ERC20_ABI, signer);
+        const allowance: bigint = await erc20.allowance(this.signer.address, escrowAddress);
+        if (allowance < quote.amount.minor) {
+          const approval = await erc20.approve(escrowAddress, quote.amount.minor);
+          await approval.wait();
+        }
+      }
+      
+      return isInstallment
+        ? await escrow.makePartialPayment(request.invoiceId, amountDue.minor, overrides)
+        : await escrow.makePayment(request.invoiceId, overrides);
+    } catch (error) {
+      console.error("Error executing payment:", error);
+      throw new Error(`Failed to execute payment: ${error.message}`);
+    }
+  }
+
+  /**
+   * What InvoiceEscrow charges to settle `amountDue` at `at` (unix seconds): less the early payment
+   * discount until its deadline, otherwise plus any late fee. Mirrors `_paymentAmount`, rounding
+   * down in the token's base units.
+   */
+  private async quoteEscrowPayment(invoiceId: number, amountDue: Money, at: number): Promise<{ amount: Money; earlyPayment: boolean }> {
+    const invoice = await this.escrow.getInvoice(invoiceId);
+    const discountBps = Number(invoice[5][1]);
+    if (discountBps > 0 && at <= Number(invoice[5][2])) {
+      return { amount: amountDue.applyDiscountBps(discountBps), earlyPayment: true };
+    }
+
+    const policy = lateFeePolicyFromChain(await this.escrow.lateFeePolicies(invoiceId));
+    return { amount: amountDue.add(calculateLateFee(amountDue, Number(invoice[8]), policy, at)), earlyPayment: false };
+  }
+
+  /**
+   * What a mined payment did, from the InstallmentPaid / PaymentMade events in its receipt and the
+   * escrow's state as of its block, so a payment re-mined after a reorg is read afresh
+   */
+  private async readPaymentReceipt(payment: PaymentRecord, receipt: ethers.TransactionReceipt): Promise<PaymentReceiptDetails> {
+    // InstallmentPaid covers this transaction; PaymentMade, once settled, covers every installment
+    const installment = this.findEvent(receipt, 'InstallmentPaid');
+    const settlement = this.findEvent(receipt, 'PaymentMade');
+    if (!installment) {
+      throw new Error(`InstallmentPaid event not found in transaction ${receipt.hash}`);
+    }
+
+    const invoice = await this.escrow.getInvoice(payment.invoiceId, { blockTag: receipt.blockNumber });
+    const token = await this.tokens.getByAddress(invoice[4]);
+    const block = await this.provider.getBlock(receipt.blockNumber);
+
+    const principal = Money.fromMinor(installment.args.amount, token.symbol, token.decimals);
+    const actualAmount = Money.fromMinor(installment.args.actualAmount, token.symbol, token.decimals);
+    const onlyPayment = settlement && settlement.args.amount === installment.args.amount;
+    const earlyPayment = onlyPayment ? settlement.args.earlyPayment : actualAmount.lessThan(principal);
     return {
-      hash: mockTxHash,
-      confirmations: 12,
-      gasUsed: "85000",
-      gasPrice: "20000000000" // 20 gwei
+      amount: actualAmount.toDecimalString(),
+      currency: token.symbol,
+      principal: principal.toDecimalString(),
+      paidAt: block ? block.timestamp * 1000 : undefined,
+      earlyPayment,
+      discountApplied: earlyPayment ? String(Number(invoice[5][1])) : undefined,
+      lateFee: actualAmount.greaterThan(principal) ? actualAmount.subtract(principal).toDecimalString() : undefined,
+      amountPaid: Money.fromMinor(invoice[11], token.symbol, token.decimals).toDecimalString(),
+      balanceDue: Money.fromMinor(installment.args.balanceDue, token.symbol, token.decimals).toDecimalString(),
+      gasUsed: receipt.gasUsed.toString(),
+      gasPrice: receipt.gasPrice.toString(),
+      settled: !!settlement
     };
   }
 
+  /**
+   * Counts a final payment against the invoice's installment plan, if it has one
+   */
+  private async recordInstallment(payment: PaymentRecord): Promise<PaymentRecord | void> {
+    const plan = await this.installmentPlans.recordPayment(payment.invoiceId, {
+      amount: payment.principal || payment.amount,
+      paidAmount: payment.amount,
+      paidAt: payment.paidAt || Date.now(),
+      txHash: payment.txHash!
+    });
+    if (plan) {
+      return this.ledger.update(payment.id, { installments: plan.installments });
+    }
+  }
+
+  private findEvent(receipt: ethers.TransactionReceipt, name: string): ethers.LogDescription | undefined {
+    const escrowAddress = String(this.escrow.target).toLowerCase();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== escrowAddress) continue;
+      const parsed = this.escrow.interface.parseLog(log);
+      if (parsed?.name === name) {
+        return parsed;
+      }
+    }
+    return undefined;
+  }
+
   async getPaymentStatus(invoiceId: number): Promise<PaymentStatus | null> {
-    return this.paymentHistory.get(invoiceId) || null;
+    let payment = await this.ledger.latestForInvoice(invoiceId);
+    if (payment?.status === 'processing' && payment.txHash) {
+      // Catch up on blocks mined since it was last checked, e.g. across a restart
+      payment = await this.watcher.track(payment.id);
+    }
+    const plan = await this.installmentPlans.get(invoiceId);
+    if (!plan) {
+      return payment || null;
+    }
+
+    // An agreed schedule is reported even before its first installment is paid
+    const balanceDue = Money.sum(plan.installments.map(installment => installmentBalance(installment, plan.currency)), plan.currency);
+    const amountPaid = Money.parse(plan.total, plan.currency).subtract(balanceDue);
+    return {
+      invoiceId,
+      currency: plan.currency,
+      amount: plan.total,
+      ...payment,
+      status: payment?.status === 'processing' || payment?.status === 'failed' || payment?.status === 'refunded'
+        ? payment.status
+        : balanceDue.isZero() ? 'confirmed' : amountPaid.isPositive() ? 'partially_paid' : 'pending',
+      amountPaid: amountPaid.toDecimalString(),
+      balanceDue: balanceDue.toDecimalString(),
+      installments: plan.installments
+    };
   }
 
-  async getPaymentHistory(_userAddress: string): Promise<PaymentStatus[]> {
-    // In real app, filter by user address
-    return Array.from(this.paymentHistory.values());
+  async getPaymentHistory(query: PaymentQuery = {}): Promise<PaymentRecord[]> {
+    return this.ledger.query(query);
   }
 
   async calculateOptimalGasPrice(): Promise<{
@@ -221,66 +657,189 @@ class PaymentService {
     fromCurrency: string, 
     toCurrency: string
   ): Promise<string> {
-    const fromRate = this.exchangeRates[fromCurrency];
-    const toRate = this.exchangeRates[toCurrency];
-    
-    if (!fromRate || !toRate) {
-      throw new Error(`Exchange rate not available for ${fromCurrency} or ${toCurrency}`);
+    const { amount: converted } = await this.rates.convert(Money.parse(amount, fromCurrency), toCurrency);
+    return converted.toDecimalString();
+  }
+
+  /**
+   * USD rate of the token a currency settles in, taken when a payment is made so its value can be
+   * audited later. A missing rate is logged rather than holding up the payment.
+   */
+  private async snapshotRate(currency: string): Promise<RateSnapshot | undefined> {
+    try {
+      const token = await this.tokens.resolveCurrency(currency);
+      return await this.rates.snapshot(token.symbol, 'USD');
+    } catch (error) {
+      console.warn(`⚠️ No exchange rate snapshot for ${currency}:`, error.message);
+      return undefined;
     }
-    
-    const amountNum = parseFloat(amount);
-    const usdAmount = amountNum * fromRate;
-    const convertedAmount = usdAmount / toRate;
-    
-    return convertedAmount.toFixed(6);
   }
 
-  async getPaymentAnalytics(_timeframe: '7d' | '30d' | '90d' = '30d'): Promise<PaymentAnalytics> {
-    const payments = Array.from(this.paymentHistory.values());
-    const confirmedPayments = payments.filter(p => p.status === 'confirmed');
-    
-    // Calculate metrics
-    const totalProcessed = confirmedPayments
-      .reduce((sum, p) => sum + parseFloat(p.amount), 0)
-      .toString();
-    
-    const averagePaymentTime = confirmedPayments.length > 0
-      ? confirmedPayments.reduce((sum, p) => sum + (p.paidAt || 0), 0) / confirmedPayments.length
-      : 0;
-    
-    const earlyPayments = confirmedPayments.filter(p => p.earlyPayment).length;
-    const earlyPaymentRate = confirmedPayments.length > 0 
-      ? (earlyPayments / confirmedPayments.length) * 100 
-      : 0;
-    
-    const failedPayments = payments.filter(p => p.status === 'failed').length;
-    const failureRate = payments.length > 0 
-      ? (failedPayments / payments.length) * 100 
-      : 0;
-    
-    // Currency breakdown
-    const currencyBreakdown: Record<string, string> = {};
-    confirmedPayments.forEach(payment => {
-      if (!currencyBreakdown[payment.currency]) {
-        currencyBreakdown[payment.currency] = '0';
+  // USD value of an amount from a payment, at the rate recorded when it was made or today's rate otherwise
+  private async toUsd(amount: Money, rate?: RateSnapshot, decimals?: number): Promise<Money> {
+    const snapshot = rate?.from === amount.currency && rate.to === 'USD'
+      ? rate
+      : await this.rates.snapshot(amount.currency, 'USD');
+    return convertAt(amount, snapshot, decimals);
+  }
+
+  /**
+   * Payment and receivables metrics for a window, from the payment ledger and the escrow's invoice
+   * records. Payments count in the window they were made; invoices in the window they were created.
+   */
+  async getPaymentAnalytics(timeframe: AnalyticsTimeframe = '30d', now: Date = new Date()): Promise<PaymentAnalytics> {
+    try {
+      const { from, to } = analyticsWindow(timeframe, now);
+      const payments = await this.ledger.query({ from, to });
+      const settledPayments = payments.filter(p => p.status === 'confirmed' || p.status === 'partially_paid');
+      const failedPayments = payments.filter(p => p.status === 'failed');
+
+      // The invoices behind those payments, plus every invoice the agent's wallet issued or was billed
+      const walletInvoiceIds = this.signer
+        ? [...await this.escrow.getProviderInvoices(this.signer.address), ...await this.escrow.getClientInvoices(this.signer.address)]
+        : [];
+      const invoices = await this.readInvoices([...payments.map(p => p.invoiceId), ...walletInvoiceIds.map(Number)]);
+
+      // Mixed currencies are totalled in their USD equivalent
+      const totalProcessed = Money.sum(
+        await Promise.all(settledPayments.map(p => this.toUsd(Money.parse(p.amount, p.currency), p.exchangeRate))),
+        'USD'
+      );
+
+      const daysToPay = settledPayments
+        .filter(p => p.paidAt && invoices.has(p.invoiceId))
+        .map(p => (p.paidAt! - Number(invoices.get(p.invoiceId)[7]) * 1000) / DAY_MS);
+
+      // What the provider gave up: the principal settled less what was actually paid
+      const discounts = settledPayments
+        .filter(p => p.earlyPayment && p.principal)
+        .map(p => ({ payment: p, discount: Money.parse(p.principal!, p.currency).subtract(Money.parse(p.amount, p.currency)) }))
+        .filter(({ discount }) => discount.isPositive());
+      const discountCost = Money.sum(
+        await Promise.all(discounts.map(({ payment, discount }) => this.toUsd(discount, payment.exchangeRate))),
+        'USD'
+      );
+
+      const failureCauses: Record<string, number> = {};
+      failedPayments.forEach(payment => {
+        const cause = classifyFailure(payment.failureReason);
+        failureCauses[cause] = (failureCauses[cause] || 0) + 1;
+      });
+
+      // Reverted transactions burn gas too, so every attempt with a receipt counts
+      const gasCosts = payments
+        .filter(p => p.gasUsed && p.gasPrice)
+        .map(p => ({ payment: p, cost: Money.fromMinor(BigInt(p.gasUsed!) * BigInt(p.gasPrice!), 'SEI') }));
+      const gasSpent = Money.sum(gasCosts.map(({ cost }) => cost), 'SEI');
+      // Each transaction costs a fraction of a cent, so they are valued at full precision and rounded once
+      const gasSpentUsd = Money.sum(
+        await Promise.all(gasCosts.map(({ payment, cost }) => this.toUsd(cost, payment.exchangeRate, cost.decimals))),
+        'USD',
+        decimalsFor('SEI')
+      ).rescale(decimalsFor('USD'));
+
+      const { billed, outstanding } = await this.receivables(invoices, from, to);
+      const windowDays = (to.getTime() - from.getTime()) / DAY_MS;
+
+      // Currency breakdown
+      const totalsByCurrency: Record<string, Money> = {};
+      settledPayments.forEach(payment => {
+        const amount = Money.parse(payment.amount, payment.currency);
+        const current = totalsByCurrency[payment.currency];
+        totalsByCurrency[payment.currency] = current ? current.add(amount) : amount;
+      });
+
+      const currencyBreakdown: Record<string, string> = {};
+      Object.entries(totalsByCurrency).forEach(([currency, total]) => {
+        currencyBreakdown[currency] = total.toDecimalString();
+      });
+
+      return {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        paymentCount: payments.length,
+        totalProcessed: totalProcessed.toDecimalString(),
+        averageDaysToPay: daysToPay.length > 0
+          ? daysToPay.reduce((sum, days) => sum + days, 0) / daysToPay.length
+          : null,
+        billed: billed.toDecimalString(),
+        outstanding: outstanding.toDecimalString(),
+        // Outstanding share of the window's billing, in days of the window
+        daysSalesOutstanding: billed.isPositive()
+          ? (outstanding.toNumber() / billed.toNumber()) * windowDays
+          : null,
+        earlyPaymentRate: settledPayments.length > 0
+          ? (settledPayments.filter(p => p.earlyPayment).length / settledPayments.length) * 100
+          : 0,
+        discountCost: discountCost.toDecimalString(),
+        failureRate: payments.length > 0
+          ? (failedPayments.length / payments.length) * 100
+          : 0,
+        failureCauses,
+        gasSpent: gasSpent.toDecimalString(),
+        gasSpentUsd: gasSpentUsd.toDecimalString(),
+        currencyBreakdown
+      };
+    } catch (error) {
+      console.error("Error generating payment analytics:", error);
+      throw new Error(`Failed to generate payment analytics: ${error.message}`);
+    }
+  }
+
+  // Escrow records for each invoice, read once; invoices that can't be read are left out
+  private async readInvoices(invoiceIds: number[]): Promise<Map<number, any>> {
+    const invoices = new Map<number, any>();
+    for (const invoiceId of new Set(invoiceIds)) {
+      try {
+        invoices.set(invoiceId, await this.escrow.getInvoice(invoiceId));
+      } catch (error) {
+        console.warn(`⚠️ Could not read invoice #${invoiceId}:`, error.message);
       }
-      currencyBreakdown[payment.currency] = (
-        parseFloat(currencyBreakdown[payment.currency]) + parseFloat(payment.amount)
-      ).toString();
-    });
+    }
+    return invoices;
+  }
 
-    return {
-      totalProcessed,
-      averagePaymentTime,
-      earlyPaymentRate,
-      failureRate,
-      gasEfficiency: 85, // Mock efficiency score
-      currencyBreakdown
-    };
+  /**
+   * USD value billed on invoices created in the window, and how much of it was still owed when the
+   * window ended: today's balance plus any principal the ledger shows was paid after that
+   */
+  private async receivables(invoices: Map<number, any>, from: Date, to: Date): Promise<{ billed: Money; outstanding: Money }> {
+    const paidSince = await this.ledger.query({ from: to, status: ['confirmed', 'partially_paid'] });
+    const billed: Money[] = [];
+    const outstanding: Money[] = [];
+
+    for (const [invoiceId, invoice] of invoices) {
+      const createdAt = Number(invoice[7]) * 1000;
+      const status = Number(invoice[6]);
+      if (createdAt < from.getTime() || createdAt >= to.getTime() ||
+          [ESCROW_CANCELLED, ESCROW_REFUNDED, ESCROW_SUPERSEDED].includes(status)) {
+        continue;
+      }
+
+      const token = await this.tokens.getByAddress(invoice[4]);
+      const amount = Money.fromMinor(invoice[3], token.symbol, token.decimals);
+      const paidLater = Money.sum(
+        paidSince
+          .filter(p => p.invoiceId === invoiceId)
+          .map(p => Money.parse(p.principal || p.amount, token.symbol, token.decimals)),
+        token.symbol,
+        token.decimals
+      );
+      const owed = Money.fromMinor(invoice[12], token.symbol, token.decimals).add(paidLater);
+
+      billed.push((await this.rates.convert(amount, 'USD')).amount);
+      outstanding.push((await this.rates.convert(owed.greaterThan(amount) ? amount : owed, 'USD')).amount);
+    }
+
+    return { billed: Money.sum(billed, 'USD'), outstanding: Money.sum(outstanding, 'USD') };
   }
 
+  /**
+   * The escrow has no refund the payer can trigger: money only goes back to the client through a
+   * credit note the provider issues or a dispute resolution. Nothing is recorded until one happens.
+   */
   async refundPayment(invoiceId: number, _reason: string): Promise<PaymentStatus> {
-    const payment = this.paymentHistory.get(invoiceId);
+    const payment = await this.ledger.latestForInvoice(invoiceId);
     
     if (!payment) {
       throw new Error("Payment not found");
@@ -290,53 +849,72 @@ class PaymentService {
       throw new Error("Can only refund confirmed payments");
     }
 
-    // Mock refund transaction
-    const refundTxHash = `0x${Math.random().toString(16).substring(2).padStart(64, '0')}`;
-    
-    const refundedPayment: PaymentStatus = {
-      ...payment,
-      status: 'refunded',
-      txHash: refundTxHash
-    };
-    
-    this.paymentHistory.set(invoiceId, refundedPayment);
-    
-    return refundedPayment;
+    throw new Error(`Payment for invoice #${invoiceId} can't be refunded directly; ask the provider for a credit note or raise a dispute`);
   }
 
   async estimatePaymentFees(
     amount: string,
-    _currency: string,
+    currency: string,
     paymentMethod: 'native' | 'erc20'
   ): Promise<{
     networkFee: string;
     platformFee: string;
     totalFees: string;
     estimatedTime: string;
+    exchangeRates: RateSnapshot[];
   }> {
     const gasPrices = await this.calculateOptimalGasPrice();
     const gasUsed = paymentMethod === 'native' ? '21000' : '65000';
     
     const networkFeeWei = BigInt(gasPrices.recommended) * BigInt(gasUsed);
-    const networkFeeEth = ethers.formatEther(networkFeeWei);
     
-    // Convert to USD (mock conversion)
-    const networkFeeUsd = (parseFloat(networkFeeEth) * 2400).toFixed(2); // ETH price mock
+    // Gas is paid in native SEI
+    const networkFee = await this.rates.convert(Money.fromMinor(networkFeeWei, 'SEI'), 'USD');
+    const networkFeeUsd = networkFee.amount;
     
-    const platformFeeRate = 0.005; // 0.5%
-    const platformFee = (parseFloat(amount) * platformFeeRate).toFixed(2);
+    const platformFeeBps = 50; // 0.5%
+    const paymentUsd = await this.rates.convert(Money.parse(amount, currency), 'USD');
+    const platformFee = paymentUsd.amount.basisPoints(platformFeeBps);
     
-    const totalFees = (parseFloat(networkFeeUsd) + parseFloat(platformFee)).toFixed(2);
+    const totalFees = networkFeeUsd.add(platformFee);
     
     return {
-      networkFee: networkFeeUsd,
-      platformFee,
-      totalFees,
-      estimatedTime: "< 1 minute" // Sei network speed
+      networkFee: networkFeeUsd.toFixed(2),
+      platformFee: platformFee.toFixed(2),
+      totalFees: totalFees.toFixed(2),
+      estimatedTime: "< 1 minute", // Sei network speed
+      exchangeRates: [networkFee.snapshot, paymentUsd.snapshot]
     };
   }
 }
 
+// Background service that keeps following submitted payments to finality from the moment the agent
+// starts, instead of waiting for the next payment to be tracked
+class PaymentWatcherService extends Service {
+  static serviceType = 'payment-watcher';
+  capabilityDescription = 'Follows submitted payment transactions to finality, including those left processing by a restart';
+
+  private paymentService: PaymentService;
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+    this.paymentService = new PaymentService(runtime);
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<PaymentWatcherService> {
+    const service = new PaymentWatcherService(runtime);
+    // A node that is down now is retried on the next block
+    await service.paymentService.startWatching()
+      .catch(error => console.error('❌ Could not catch up on processing payments:', error.message));
+    console.log('👀 Payment watcher started');
+    return service;
+  }
+
+  async stop(): Promise<void> {
+    this.paymentService.stopWatching();
+  }
+}
+
 // ElizaOS Actions
 const processPaymentAction: Action = {
   name: "PROCESS_PAYMENT",
@@ -349,10 +927,15 @@ const processPaymentAction: Action = {
   ],
   validate: async (_runtime: IAgentRuntime, message: Memory) => {
     const text = message.content.text?.toLowerCase() || '';
+    // "pay invoice #12 with quote qt-1a2b3c4d"
+    if (QUOTE_ID_PATTERN.test(text)) {
+      return text.includes("pay");
+    }
     return (text.includes("process") || text.includes("make") || text.includes("pay")) && 
-           text.includes("payment");
+           text.includes("payment") && !INSTALLMENT_PLAN_PATTERN.test(text) && !PAYMENT_QUOTE_PATTERN.test(text) &&
+           !CONVERSION_QUOTE_PATTERN.test(text);
   },
-  description: "Processes a payment for an invoice",
+  description: "Processes a payment for an invoice; less than the balance due is paid as an installment, and a conversion quote ID pays the amount it locked",
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
@@ -363,22 +946,62 @@ const processPaymentAction: Action = {
     try {
       const paymentService = new PaymentService(runtime);
       
-      // Extract payment details from message
-      const paymentRequest = extractPaymentRequest(message.content.text || '');
+      const payer = message.content.payerAddress as string || paymentService.walletAddress;
+      
+      // A quote is redeemed as issued: the client may hand back the whole quote or just its ID
+      const quote = message.content.quote as ConversionQuote | undefined || (message.content.text || '').match(QUOTE_ID_PATTERN)?.[0];
       
       // Process the payment
-      const paymentStatus = await paymentService.processPayment(paymentRequest);
+      const paymentStatus = quote
+        ? await paymentService.payWithQuote(quote, payer || '')
+        : await paymentService.processPayment(await withBalanceDue(paymentService, extractPaymentRequest(message.content.text || '', payer)));
+      if (paymentStatus.status === 'failed') {
+        const reason = paymentStatus.failureReason || 'The payment transaction failed';
+        throw new Error(PRICE_CHANGED_PATTERN.test(reason)
+          ? `${reason}. The amount was priced at the latest block, and the escrow only accepts the exact amount it charges when the ` +
+            `transaction is mined; it was mined after the early payment deadline or a late fee day boundary. ` +
+            `Only gas was spent; pay again to send it at the new price.`
+          : reason);
+      }
+
+      // Still short of the finality depth: report it as submitted and let the watcher finish it
+      if (paymentStatus.status === 'processing') {
+        callback({
+          text: `⏳ **Payment Submitted**\n\n` +
+            `**Invoice:** #${paymentStatus.invoiceId}\n` +
+            `**Amount:** ${Money.parse(paymentStatus.amount, paymentStatus.currency).format()}\n` +
+            `${paymentStatus.quoteId ? `**Quote:** ${paymentStatus.quoteId}\n` : ''}` +
+            `**Transaction Hash:** \`${paymentStatus.txHash}\`\n` +
+            `**Confirmations:** ${paymentStatus.confirmations || 0} of ${paymentService.finalityDepth}\n\n` +
+            `The payment will be marked confirmed once the transaction is ${paymentService.finalityDepth} blocks deep. ` +
+            `The amount was priced at the latest block: if the transaction is mined after the early payment deadline or a ` +
+            `late fee day boundary, the escrow charges a different amount and the payment fails; send it again to re-quote. ` +
+            `Ask for the payment status of invoice #${paymentStatus.invoiceId} to follow it.`,
+          action: "PROCESS_PAYMENT_SUCCESS",
+          data: paymentStatus
+        });
+        return;
+      }
+
+      const isInstallment = paymentStatus.status === 'partially_paid';
+      const upcoming = paymentStatus.installments && nextInstallment(paymentStatus.installments);
       
-      const responseText = `💰 **Payment Processed Successfully!**\n\n` +
+      const responseText = `💰 **${isInstallment ? 'Installment' : 'Payment'} Processed Successfully!**\n\n` +
         `**Invoice:** #${paymentStatus.invoiceId}\n` +
-        `**Amount:** ${parseFloat(paymentStatus.amount).toLocaleString()} ${paymentStatus.currency}\n` +
+        `**Amount:** ${Money.parse(paymentStatus.amount, paymentStatus.currency).format()}\n` +
+        `${isInstallment ? `**Paid So Far:** ${Money.parse(paymentStatus.amountPaid!, paymentStatus.currency).format()}\n**Balance Due:** ${Money.parse(paymentStatus.balanceDue!, paymentStatus.currency).format()}\n` : ''}` +
+        `${isInstallment && upcoming ? `**Next Installment:** ${installmentBalance(upcoming, paymentStatus.currency).format()} due ${new Date(upcoming.dueDate).toLocaleDateString()}\n` : ''}` +
+        `${paymentStatus.quoteId ? `**Quote:** ${paymentStatus.quoteId}\n` : ''}` +
         `**Transaction Hash:** \`${paymentStatus.txHash}\`\n` +
         `**Status:** ${paymentStatus.status.charAt(0).toUpperCase() + paymentStatus.status.slice(1)}\n` +
         `**Confirmations:** ${paymentStatus.confirmations}\n` +
         `${paymentStatus.earlyPayment ? `**🎉 Early Payment Discount Applied:** ${parseFloat(paymentStatus.discountApplied || '0') / 100}%\n` : ''}` +
+        `${paymentStatus.lateFee ? `**⏰ Late Fee Included:** ${Money.parse(paymentStatus.lateFee, paymentStatus.currency).format()} (${paymentStatus.daysOverdue} days overdue)\n` : ''}` +
         `**Gas Used:** ${paymentStatus.gasUsed} gas\n` +
         `**Network:** Sei Network (Sub-400ms finality)\n\n` +
-        `✅ Payment is now in escrow and will be released according to the invoice terms.`;
+        (isInstallment
+          ? `✅ Installment is held in escrow; funds are released once the balance is paid.`
+          : `✅ Payment is now in escrow and will be released according to the invoice terms.`);
 
       callback({
         text: responseText,
@@ -456,18 +1079,22 @@ const checkPaymentStatusAction: Action = {
         'pending': '⏳',
         'processing': '🔄',
         'confirmed': '✅',
+        'partially_paid': '🧩',
         'failed': '❌',
         'refunded': '↩️'
       };
 
       const responseText = `${statusEmoji[paymentStatus.status]} **Payment Status: ${paymentStatus.status.toUpperCase()}**\n\n` +
         `**Invoice:** #${paymentStatus.invoiceId}\n` +
-        `**Amount:** ${parseFloat(paymentStatus.amount).toLocaleString()} ${paymentStatus.currency}\n` +
+        `**Amount:** ${Money.parse(paymentStatus.amount, paymentStatus.currency).format()}\n` +
         `${paymentStatus.txHash ? `**Transaction:** \`${paymentStatus.txHash}\`\n` : ''}` +
-        `${paymentStatus.confirmations ? `**Confirmations:** ${paymentStatus.confirmations}\n` : ''}` +
+        `${paymentStatus.failureReason ? `**Reason:** ${paymentStatus.failureReason}\n` : ''}` +
+        `${paymentStatus.status === 'processing' && paymentStatus.txHash ? `**Confirmations:** ${paymentStatus.confirmations || 0} of ${paymentService.finalityDepth}\n` : paymentStatus.confirmations ? `**Confirmations:** ${paymentStatus.confirmations}\n` : ''}` +
         `${paymentStatus.paidAt ? `**Paid At:** ${new Date(paymentStatus.paidAt).toLocaleString()}\n` : ''}` +
         `${paymentStatus.earlyPayment ? `**Early Payment Discount:** ${parseFloat(paymentStatus.discountApplied || '0') / 100}% ✨\n` : ''}` +
-        `${paymentStatus.gasUsed ? `**Gas Used:** ${paymentStatus.gasUsed}\n` : ''}\n` +
+        `${paymentStatus.gasUsed ? `**Gas Used:** ${paymentStatus.gasUsed}\n` : ''}` +
+        `${paymentStatus.balanceDue ? `**Paid So Far:** ${Money.parse(paymentStatus.amountPaid || '0', paymentStatus.currency).format()}\n**Balance Due:** ${Money.parse(paymentStatus.balanceDue, paymentStatus.currency).format()}\n` : ''}` +
+        `${paymentStatus.installments ? `\n**Installments:**\n${formatInstallments(paymentStatus.installments, paymentStatus.currency)}\n` : ''}\n` +
         `${getStatusDescription(paymentStatus.status)}`;
 
       callback({
@@ -508,42 +1135,49 @@ const paymentAnalyticsAction: Action = {
     "payment statistics", 
     "payment metrics",
     "payment insights",
-    "payment report"
+    "payment report",
+    "days sales outstanding"
   ],
   validate: async (_runtime: IAgentRuntime, message: Memory) => {
     const text = message.content.text?.toLowerCase() || '';
-    return text.includes("payment") && (
+    return /\bdso\b|days sales outstanding/.test(text) || text.includes("payment") && (
       text.includes("analytics") || text.includes("statistics") || 
       text.includes("metrics") || text.includes("insights") || text.includes("report")
     );
   },
-  description: "Provides payment analytics and insights",
+  description: "Reports payment analytics over the last 7, 30 or 90 days or a custom date range: volume, days to pay, DSO, discount cost, failure causes and gas spent",
   handler: async (
     runtime: IAgentRuntime,
-    _message: Memory,
+    message: Memory,
     _state: any,
     _options: any,
     callback: HandlerCallback
   ) => {
     try {
       const paymentService = new PaymentService(runtime);
-      
-      // Get analytics
-      const analytics = await paymentService.getPaymentAnalytics('30d');
-      
-      const responseText = `📊 **Payment Analytics (Last 30 Days)**\n\n` +
-        `**💰 Total Processed:** ${parseFloat(analytics.totalProcessed).toLocaleString()}\n` +
+      const now = new Date();
+      const timeframe = extractAnalyticsTimeframe(message.content.text || '', now);
+      const analytics = await paymentService.getPaymentAnalytics(timeframe, now);
+
+      const usd = (amount: string) => Money.parse(amount, 'USD').format();
+      const days = (value: number | null) => value === null ? 'n/a' : `${value.toFixed(1)} days`;
+      const failureCauses = Object.entries(analytics.failureCauses)
+        .sort(([, a], [, b]) => b - a)
+        .map(([cause, count]) => `• ${cause}: ${count}`);
+
+      const responseText = `📊 **Payment Analytics (${describeAnalyticsWindow(analytics.from, analytics.to, now)})**\n\n` +
+        `**💰 Total Processed:** ${usd(analytics.totalProcessed)} across ${analytics.paymentCount} payment attempt${analytics.paymentCount === 1 ? '' : 's'}\n` +
+        `**⏱️ Average Days to Pay:** ${days(analytics.averageDaysToPay)}\n` +
+        `**📒 Billed:** ${usd(analytics.billed)} (${usd(analytics.outstanding)} outstanding at period end)\n` +
+        `**📅 Days Sales Outstanding:** ${days(analytics.daysSalesOutstanding)}\n` +
         `**⚡ Early Payment Rate:** ${analytics.earlyPaymentRate.toFixed(1)}%\n` +
+        `**🏷️ Discount Cost:** ${usd(analytics.discountCost)}\n` +
         `**📉 Failure Rate:** ${analytics.failureRate.toFixed(1)}%\n` +
-        `**⛽ Gas Efficiency Score:** ${analytics.gasEfficiency}%\n\n` +
+        `${failureCauses.length > 0 ? `${failureCauses.join('\n')}\n` : ''}` +
+        `**⛽ Gas Spent:** ${Money.parse(analytics.gasSpent, 'SEI').format()} (${usd(analytics.gasSpentUsd)})\n\n` +
         `**💱 Currency Breakdown:**\n${Object.entries(analytics.currencyBreakdown)
-          .map(([currency, amount]) => `• ${currency}: ${parseFloat(amount).toLocaleString()}`)
-          .join('\n')}\n\n` +
-        `**📈 Key Insights:**\n` +
-        `• ${analytics.earlyPaymentRate > 50 ? 'Excellent early payment adoption!' : 'Consider increasing early payment incentives'}\n` +
-        `• ${analytics.failureRate < 5 ? 'Very low failure rate - great payment flow' : 'Payment failures may need attention'}\n` +
-        `• Sei Network provides sub-400ms transaction finality\n` +
-        `• Average gas costs optimized for efficiency`;
+          .map(([currency, amount]) => `• ${currency}: ${Money.parse(amount, currency).format()}`)
+          .join('\n') || '• No settled payments'}`;
 
       callback({
         text: responseText,
@@ -572,6 +1206,19 @@ const paymentAnalyticsAction: Action = {
           action: "PAYMENT_ANALYTICS"
         }
       }
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Payment report from 2026-01-01 to 2026-03-31" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "I'll report on payments made and invoices created in Q1...",
+          action: "PAYMENT_ANALYTICS"
+        }
+      }
     ]
   ]
 };
@@ -605,15 +1252,17 @@ const estimateFeesAction: Action = {
       const { amount, currency } = extractAmountAndCurrency(message.content.text || '');
       
       // Estimate fees
-      const fees = await paymentService.estimatePaymentFees(amount, currency, 'native');
+      const paymentMethod = await paymentService.resolvePaymentMethod(currency);
+      const fees = await paymentService.estimatePaymentFees(amount, currency, paymentMethod);
       
       const responseText = `💳 **Payment Fee Estimate**\n\n` +
-        `**Payment Amount:** ${parseFloat(amount).toLocaleString()} ${currency}\n\n` +
+        `**Payment Amount:** ${Money.parse(amount, currency).format()}\n\n` +
         `**Fee Breakdown:**\n` +
         `• Network Fee: ${fees.networkFee}\n` +
         `• Platform Fee (0.5%): ${fees.platformFee}\n` +
         `• **Total Fees: ${fees.totalFees}**\n\n` +
         `**Estimated Time:** ${fees.estimatedTime}\n` +
+        `${fees.exchangeRates.some(rate => rate.from !== rate.to) ? `**Rates Used:** ${fees.exchangeRates.filter(rate => rate.from !== rate.to).map(formatRateSnapshot).join(', ')}\n` : ''}` +
         `**Network:** Sei (Ultra-fast finality)\n\n` +
         `💡 **Fee Optimization Tips:**\n` +
         `• Sei Network offers some of the lowest fees in DeFi\n` +
@@ -651,17 +1300,284 @@ const estimateFeesAction: Action = {
   ]
 };
 
+const scheduleInstallmentsAction: Action = {
+  name: "SCHEDULE_INSTALLMENTS",
+  similes: [
+    "installment plan",
+    "pay in installments",
+    "split payment",
+    "payment plan",
+    "pay in parts"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return INSTALLMENT_PLAN_PATTERN.test(text);
+  },
+  description: "Splits the remaining balance of an invoice into equal installments on a schedule",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const paymentService = new PaymentService(runtime);
+      
+      const text = message.content.text || '';
+      const invoiceId = extractInvoiceId(text);
+      const { count, intervalDays } = extractInstallmentTerms(text);
+      
+      const { plan, dueDate } = await paymentService.scheduleInstallments(invoiceId, count, intervalDays);
+      const last = plan.installments[plan.installments.length - 1];
+      
+      const responseText = `🧩 **Installment Plan Agreed**\n\n` +
+        `**Invoice:** #${invoiceId}\n` +
+        `**Balance:** ${Money.parse(plan.total, plan.currency).format()} in ${count} installments, every ${intervalDays} days\n\n` +
+        `${formatInstallments(plan.installments, plan.currency)}\n\n` +
+        (last.dueDate > dueDate
+          ? `⚠️ Installments paid after the invoice due date (${new Date(dueDate).toLocaleDateString()}) may incur late fees.\n`
+          : '') +
+        `Each installment is held in escrow until the balance is paid.`;
+
+      callback({
+        text: responseText,
+        action: "SCHEDULE_INSTALLMENTS_SUCCESS",
+        data: plan
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to schedule installments: ${error.message}`,
+        action: "SCHEDULE_INSTALLMENTS_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Split invoice #123 into 3 monthly installments" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "I'll set up a 3-installment plan for invoice #123...",
+          action: "SCHEDULE_INSTALLMENTS"
+        }
+      }
+    ]
+  ]
+};
+
+const quotePaymentAction: Action = {
+  name: "QUOTE_PAYMENT",
+  similes: [
+    "quote payment",
+    "payment quote",
+    "how much do I owe",
+    "amount due",
+    "early payment discount"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return PAYMENT_QUOTE_PATTERN.test(text) && !CONVERSION_QUOTE_PATTERN.test(text) && !QUOTE_ID_PATTERN.test(text);
+  },
+  description: "Quotes the exact amount due on an invoice now, what it will be once the early payment discount ends, and how long the discount lasts",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const paymentService = new PaymentService(runtime);
+      
+      const invoiceId = extractInvoiceId(message.content.text || '');
+      const quote = await paymentService.quotePayment(invoiceId);
+      
+      let terms: string;
+      if (quote.earlyPayment) {
+        terms = `**Pay Now:** ${quote.amountDueNow.format()} (${quote.discountBps / 100}% early payment discount)\n` +
+          `**Time Remaining:** ${formatTimeRemaining(quote.timeRemainingMs!)} (until ${new Date(quote.discountDeadline!).toLocaleString()})\n` +
+          `**After the Discount Ends:** ${quote.amountAfterDeadline!.format()}\n`;
+      } else if (quote.lateFee.isPositive()) {
+        terms = `**Pay Now:** ${quote.amountDueNow.format()} (includes a ${quote.lateFee.format()} late fee)\n`;
+      } else {
+        terms = `**Pay Now:** ${quote.amountDueNow.format()}\n` +
+          (quote.discountDeadline ? `The ${quote.discountBps / 100}% early payment discount ended ${new Date(quote.discountDeadline).toLocaleString()}.\n` : '');
+      }
+      
+      const responseText = `🧾 **Payment Quote for Invoice #${invoiceId}**\n\n` +
+        `**Balance Due:** ${quote.balanceDue.format()}\n` +
+        terms +
+        `**Due Date:** ${new Date(quote.dueDate).toLocaleDateString()}\n\n` +
+        (quote.earlyPayment
+          ? `💡 Paying before the deadline saves ${quote.amountAfterDeadline!.subtract(quote.amountDueNow).format()}.`
+          : `Say "pay invoice #${invoiceId}" when you're ready.`);
+
+      callback({
+        text: responseText,
+        action: "QUOTE_PAYMENT_SUCCESS",
+        data: quote
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to quote payment: ${error.message}`,
+        action: "QUOTE_PAYMENT_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "How much do I owe on invoice #123 if I pay today?" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Let me price invoice #123 against its on-chain terms...",
+          action: "QUOTE_PAYMENT"
+        }
+      }
+    ]
+  ]
+};
+
+const quoteConversionAction: Action = {
+  name: "QUOTE_CONVERSION",
+  similes: [
+    "conversion quote",
+    "lock exchange rate",
+    "quote payment in SEI",
+    "pay in another currency"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return CONVERSION_QUOTE_PATTERN.test(text) && !QUOTE_ID_PATTERN.test(text);
+  },
+  description: "Locks how much of an invoice's token pays a given value in another currency (e.g. $150 in SEI) with a signed quote that expires",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const paymentService = new PaymentService(runtime);
+      
+      const request = extractConversionRequest(message.content.text || '');
+      const value = request.amount ? Money.parse(request.amount, request.currency) : null;
+      const payer = message.content.payerAddress as string || paymentService.walletAddress;
+      const quote = await paymentService.quoteConversion(request.invoiceId, value, request.payCurrency, payer);
+      
+      const expiresIn = Date.parse(quote.expiresAt) - Date.now();
+      const responseText = `🔒 **Conversion Quote ${quote.id}**\n\n` +
+        `**Invoice:** #${quote.invoiceId}\n` +
+        `**You Pay:** ${Money.parse(quote.payAmount, quote.payCurrency).format()}\n` +
+        `**Provider Receives:** ${Money.parse(quote.amount, quote.currency).format()}\n` +
+        `**Rate:** ${formatRateSnapshot(quote.rate)}\n` +
+        `**Expires:** ${new Date(quote.expiresAt).toLocaleString()} (in ${formatTimeRemaining(expiresIn)})\n\n` +
+        `Say "pay invoice #${quote.invoiceId} with quote ${quote.id}" before it expires to pay at this rate. ` +
+        `Any early payment discount or late fee is applied on top, as usual.`;
+
+      callback({
+        text: responseText,
+        action: "QUOTE_CONVERSION_SUCCESS",
+        data: quote
+      });
+
+    } catch (error) {
+      callback({
+        text: `❌ Failed to quote conversion: ${error.message}`,
+        action: "QUOTE_CONVERSION_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Quote paying $150 of invoice #12 in SEI" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Let me lock a SEI conversion quote for $150 on invoice #12...",
+          action: "QUOTE_CONVERSION"
+        }
+      }
+    ]
+  ]
+};
+
+// "quote payment for #12", "how much do I owe", "amount due on invoice 12"
+const PAYMENT_QUOTE_PATTERN = /\bquote\b.*\b(pay|payment|invoice)\b|\b(payment|invoice)\b.*\bquote\b|\bhow much\b.*\b(owe|pay|due)\b|\bamount due\b/;
+
+// "split into 3 installments", "installment plan", "pay in 4 installments"
+// "quote paying $150 of invoice #12 in SEI", "conversion quote for invoice 12", "lock the rate"
+const CONVERSION_QUOTE_PATTERN = /\b(conversion|convert|exchange)\b.*\bquote\b|\bquote\b.*\b(conversion|convert|exchange)\b|\bquote\b.*\b(?:in|with|using)\s+(?:sei|usdc|usdt)\b|\block\b.*\brate\b/;
+
+const QUOTE_ID_PATTERN = /\bqt-[0-9a-f]{8}\b/i;
+
+const INSTALLMENT_PLAN_PATTERN = /\binstall?ments?\b.*\b(plan|schedule)\b|\b(split|spread|schedule|plan)\b.*\binstall?ments?\b|\bin\s+\d+\s+install?ments?\b/;
+
 // Helper functions
-function extractPaymentRequest(text: string): PaymentRequest {
-  const invoiceIdMatch = text.match(/#?(\d+)/);
-  const amountMatch = text.match(/\$?(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/);
+// The amount is null when none was given; the payment then settles the invoice's balance due
+function extractPaymentRequest(text: string, defaultPayer?: string): Omit<PaymentRequest, 'amount'> & { amount: string | null } {
+  const payerMatch = text.match(/\b0x[a-fA-F0-9]{40}\b/);
+  const currencyMatch = text.match(/\b(USDC|USDT|USD|SEI)\b/i);
+  // Money is moved on these, so the invoice reference and address are never read as the amount,
+  // and a bare number is never taken for the invoice
+  const rest = text.replace(/\b0x[a-fA-F0-9]{40}\b/g, '');
+  const invoiceIdMatch = rest.match(/(?:invoice\s*#?|#)(\d+)/i);
+  if (!invoiceIdMatch) {
+    throw new Error('Please say which invoice to pay, e.g. "pay 500 USDC on invoice #12"');
+  }
   
   return {
-    invoiceId: invoiceIdMatch ? parseInt(invoiceIdMatch[1]) : 1,
-    payerAddress: "0x742d35Cc6634C0532925a3b8D084d54b8a11D3", // Mock address
-    amount: amountMatch ? amountMatch[1].replace(',', '') : "1000",
-    currency: "USD",
-    paymentMethod: 'native'
+    invoiceId: parseInt(invoiceIdMatch[1]),
+    payerAddress: payerMatch ? payerMatch[0] : defaultPayer || "",
+    amount: findAmount(rest.replace(invoiceIdMatch[0], '')),
+    currency: currencyMatch ? currencyMatch[1].toUpperCase() : "USD",
+    paymentMethod: 'native' // Replaced by the token registry's answer when processed
+  };
+}
+
+// A request without an amount pays whatever is still due, in the invoice's own token
+async function withBalanceDue(service: PaymentService, request: Omit<PaymentRequest, 'amount'> & { amount: string | null }): Promise<PaymentRequest> {
+  if (request.amount) {
+    return { ...request, amount: request.amount };
+  }
+  const { balanceDue } = await service.quotePayment(request.invoiceId);
+  return { ...request, amount: balanceDue.toDecimalString(), currency: balanceDue.currency };
+}
+
+function extractConversionRequest(text: string): { invoiceId: number; amount: string | null; currency: string; payCurrency: string } {
+  const invoiceIdMatch = text.match(/(?:invoice\s*#?|#)(\d+)/i);
+  if (!invoiceIdMatch) {
+    throw new Error('Please say which invoice, e.g. "quote paying $150 of invoice #12 in SEI"');
+  }
+  const payMatch = text.match(/\b(?:in|with|using)\s+(USDC|USDT|USD|SEI)\b/i);
+  if (!payMatch) {
+    throw new Error('Please say which currency you will pay in, e.g. "quote paying $150 of invoice #12 in SEI"');
+  }
+  
+  // The value is whatever amount and currency remain once the invoice and payment currency are taken out
+  const rest = text.replace(invoiceIdMatch[0], '').replace(payMatch[0], '');
+  const currencyMatch = rest.match(/\b(USDC|USDT|USD|SEI)\b/i);
+  return {
+    invoiceId: parseInt(invoiceIdMatch[1]),
+    amount: findAmount(rest),
+    currency: currencyMatch ? currencyMatch[1].toUpperCase() : 'USD',
+    payCurrency: payMatch[1].toUpperCase()
   };
 }
 
@@ -670,9 +1586,101 @@ function extractInvoiceId(text: string): number {
   return match ? parseInt(match[1]) : 1;
 }
 
+function formatTimeRemaining(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`;
+  
+  if (days > 0) return hours > 0 ? `${plural(days, 'day')} ${plural(hours, 'hour')}` : plural(days, 'day');
+  if (hours > 0) return `${plural(hours, 'hour')} ${plural(minutes % 60, 'minute')}`;
+  return plural(minutes, 'minute');
+}
+
+function analyticsWindow(timeframe: AnalyticsTimeframe, now: Date): { from: Date; to: Date } {
+  if (typeof timeframe === 'string') {
+    return { from: new Date(now.getTime() - ANALYTICS_PRESET_DAYS[timeframe] * DAY_MS), to: now };
+  }
+  if (Number.isNaN(timeframe.from.getTime()) || Number.isNaN(timeframe.to.getTime()) || timeframe.from >= timeframe.to) {
+    throw new Error('The analytics window must start before it ends');
+  }
+  return timeframe;
+}
+
+/**
+ * The window asked for: "from 2026-01-01 to 2026-03-31" (both days included), "last 14 days",
+ * "7d"/"90d", "this week"/"quarter", or the last 30 days
+ */
+function extractAnalyticsTimeframe(text: string, now: Date = new Date()): AnalyticsTimeframe {
+  const rangeMatch = text.match(/\b(?:from|between)\s+(\d{4}-\d{2}-\d{2})\s+(?:to|and|through|until)\s+(\d{4}-\d{2}-\d{2})/i);
+  if (rangeMatch) {
+    return { from: new Date(rangeMatch[1]), to: new Date(Date.parse(rangeMatch[2]) + DAY_MS) };
+  }
+  const sinceMatch = text.match(/\bsince\s+(\d{4}-\d{2}-\d{2})/i);
+  if (sinceMatch) {
+    return { from: new Date(sinceMatch[1]), to: now };
+  }
+
+  const lower = text.toLowerCase();
+  const lengthMatch = lower.match(/\b(\d+)\s*(d|days?|weeks?|months?)\b/);
+  const unitDays = { d: 1, day: 1, week: 7, month: 30 };
+  const days = lengthMatch ? parseInt(lengthMatch[1]) * unitDays[lengthMatch[2].replace(/s$/, '') as keyof typeof unitDays]
+    : /\bweek\b/.test(lower) ? 7
+    : /\bquarter\b/.test(lower) ? 90
+    : 30;
+  const preset = `${days}d`;
+  return preset in ANALYTICS_PRESET_DAYS
+    ? preset as keyof typeof ANALYTICS_PRESET_DAYS
+    : { from: new Date(now.getTime() - days * DAY_MS), to: now };
+}
+
+function describeAnalyticsWindow(from: string, to: string, now: Date): string {
+  const days = Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+  return Date.parse(to) === now.getTime()
+    ? `Last ${days} Days`
+    : `${from.slice(0, 10)} to ${new Date(Date.parse(to) - 1).toISOString().slice(0, 10)}`;
+}
+
+function classifyFailure(reason?: string): string {
+  if (!reason) return 'Unknown';
+  const cause = FAILURE_CAUSES.find(([pattern]) => pattern.test(reason));
+  return cause ? cause[1] : 'Other';
+}
+
+function extractInstallmentTerms(text: string): { count: number; intervalDays: number } {
+  const lower = text.toLowerCase();
+  const countMatch = lower.match(/(\d+)\s+(?:\w+\s+)?install?ments?/);
+  if (!countMatch) {
+    throw new Error(`Please say how many installments (2-${MAX_INSTALLMENTS}), e.g. "split invoice #12 into 3 monthly installments"`);
+  }
+
+  const everyMatch = lower.match(/every\s+(\d+)\s*(day|week|month)s?/);
+  const unitDays = { day: 1, week: 7, month: 30 };
+  let intervalDays = 30;
+  if (everyMatch) {
+    intervalDays = parseInt(everyMatch[1]) * unitDays[everyMatch[2] as keyof typeof unitDays];
+  } else if (/\bbi-?weekly\b|fortnightly|every other week/.test(lower)) {
+    intervalDays = 14;
+  } else if (/\bweekly\b|every week/.test(lower)) {
+    intervalDays = 7;
+  }
+
+  return { count: parseInt(countMatch[1]), intervalDays };
+}
+
+function formatInstallments(installments: Installment[], currency: string): string {
+  const icons = { paid: '✅', scheduled: '🗓️', overdue: '⏰' };
+  return installments
+    .map(installment => `${icons[installment.status]} #${installment.number}: ${Money.parse(installment.amount, currency).format()} — ` +
+      (installment.status === 'paid'
+        ? `paid ${new Date(installment.paidAt!).toLocaleDateString()}`
+        : `due ${new Date(installment.dueDate).toLocaleDateString()}` +
+          (installment.amountPaid ? ` (${installmentBalance(installment, currency).format()} left)` : '')))
+    .join('\n');
+}
+
 function extractAmountAndCurrency(text: string): { amount: string; currency: string } {
-  const amountMatch = text.match(/\$?(\d{1,3}(?:,\d{3})*(?:\.\d{2})?)/);
-  const amount = amountMatch ? amountMatch[1].replace(',', '') : "1000";
+  const amount = findAmount(text) || "1000";
   
   // Detect currency
   let currency = "USD";
@@ -683,11 +1691,25 @@ function extractAmountAndCurrency(text: string): { amount: string; currency: str
   return { amount, currency };
 }
 
-function getStatusDescription(status: string): string {
-  const descriptions: Record<string, string> = {
+function isPositiveAmount(amount: string, currency: string): boolean {
+  try {
+    return !!amount && Money.parse(amount, currency).isPositive();
+  } catch (error) {
+    return false;
+  }
+}
+
+// e.g. "1 SEI = 0.15 USD (oracle, 10/19/2026, 9:00:00 AM)"
+function formatRateSnapshot(snapshot: RateSnapshot): string {
+  return `1 ${snapshot.from} = ${snapshot.rate} ${snapshot.to} (${snapshot.source}, ${new Date(snapshot.observedAt).toLocaleString()})`;
+}
+
+function getStatusDescription(status: PaymentState): string {
+  const descriptions: Record<PaymentState, string> = {
     'pending': 'Payment is waiting to be processed.',
-    'processing': 'Payment is being processed on the blockchain.',
+    'processing': 'Payment is submitted and waiting for enough confirmations to be final.',
     'confirmed': 'Payment has been confirmed and is in escrow.',
+    'partially_paid': 'Some installments are paid and held in escrow; the rest of the balance is still due.',
     'failed': 'Payment failed. Please try again or contact support.',
     'refunded': 'Payment has been refunded to the payer.'
   };
@@ -731,7 +1753,8 @@ const paymentSuccessEvaluator: Evaluator = {
 export const paymentPlugin: Plugin = {
   name: "payment",
   description: "Handles payment processing, status tracking, and analytics with intelligent fee optimization",
-  actions: [processPaymentAction, checkPaymentStatusAction, paymentAnalyticsAction, estimateFeesAction],
+  actions: [processPaymentAction, quotePaymentAction, quoteConversionAction, checkPaymentStatusAction, scheduleInstallmentsAction, paymentAnalyticsAction, estimateFeesAction],
   evaluators: [paymentSuccessEvaluator],
-  providers: []
+  providers: [],
+  services: [PaymentWatcherService]
 };
\ No newline at end of file
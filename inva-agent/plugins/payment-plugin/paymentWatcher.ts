@@ -0,0 +1,206 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { ethers } from "ethers";
+import PaymentLedger, { PaymentRecord, PaymentStatus } from './paymentLedger.ts';
+
+export const DEFAULT_FINALITY_DEPTH = 12;
+const DEFAULT_DROP_TIMEOUT_MS = 10 * 60 * 1000;
+
+// What a mined payment transaction did, read from its receipt
+export type PaymentReceiptDetails = Partial<PaymentStatus> & { settled: boolean };
+
+export interface PaymentWatcherOptions {
+  finalityDepth?: number; // confirmations before a payment counts as final
+  dropTimeoutMs?: number; // how long an unmined transaction may be missing from the node before it is failed
+  read: (payment: PaymentRecord, receipt: ethers.TransactionReceipt) => Promise<PaymentReceiptDetails>;
+  onFinal?: (payment: PaymentRecord) => Promise<PaymentRecord | void>; // e.g. record it against an installment plan
+}
+
+// One watcher per agent, so every handler's PaymentService shares the same block subscription
+const watchers: Map<string, PaymentWatcher> = new Map();
+
+/**
+ * Follows submitted payment transactions block by block. A payment stays `processing` until its
+ * transaction is `finalityDepth` blocks deep; reverted, replaced and dropped transactions are failed
+ * with the reason, and a reorg that moves or removes the transaction is recorded on the payment.
+ * The ledger is the only state, so payments still processing after a restart are picked up again.
+ * Checks of the same payment run one at a time, so it reaches finality (and onFinal runs) once.
+ */
+export default class PaymentWatcher {
+  private provider: ethers.Provider;
+  private ledger: PaymentLedger;
+  private finalityDepth: number;
+  private dropTimeoutMs: number;
+  private read: PaymentWatcherOptions['read'];
+  private onFinal?: PaymentWatcherOptions['onFinal'];
+  private listening = false;
+  private pendingPoll: Promise<void> | null = null;
+  private checks: Map<string, Promise<PaymentRecord | undefined>> = new Map(); // latest check queued per payment
+
+  constructor(runtime: IAgentRuntime, provider: ethers.Provider, options: PaymentWatcherOptions) {
+    this.provider = provider;
+    this.ledger = new PaymentLedger(runtime);
+    this.finalityDepth = Math.max(1, options.finalityDepth ?? DEFAULT_FINALITY_DEPTH);
+    this.dropTimeoutMs = options.dropTimeoutMs ?? DEFAULT_DROP_TIMEOUT_MS;
+    this.read = options.read;
+    this.onFinal = options.onFinal;
+  }
+
+  static forRuntime(runtime: IAgentRuntime, provider: ethers.Provider, options: PaymentWatcherOptions): PaymentWatcher {
+    const key = String(runtime.agentId ?? 'default');
+    if (!watchers.has(key)) {
+      watchers.set(key, new PaymentWatcher(runtime, provider, options));
+    }
+    return watchers.get(key)!;
+  }
+
+  get depth(): number {
+    return this.finalityDepth;
+  }
+
+  start(): void {
+    if (this.listening) return;
+    this.listening = true;
+    this.provider.on('block', this.onBlock);
+  }
+
+  stop(): void {
+    if (!this.listening) return;
+    this.listening = false;
+    this.provider.off('block', this.onBlock);
+  }
+
+  /**
+   * Checks one payment right away and keeps following it on every new block
+   */
+  async track(paymentId: string): Promise<PaymentRecord> {
+    this.start();
+
+    const payment = await this.ledger.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+    return payment.status === 'processing' && payment.txHash
+      ? (await this.check(payment.id, await this.provider.getBlockNumber())) || payment
+      : payment;
+  }
+
+  /**
+   * Re-checks every payment still processing against the chain head
+   */
+  async poll(head?: number): Promise<void> {
+    // A block that arrives mid-poll is covered by the next one
+    if (this.pendingPoll) return this.pendingPoll;
+
+    this.pendingPoll = (async () => {
+      const current = head ?? await this.provider.getBlockNumber();
+      const payments = await this.ledger.query({ status: 'processing' });
+      for (const payment of payments.filter(payment => payment.txHash)) {
+        await this.check(payment.id, current)
+          .catch(error => console.error(`⚠️ Could not check payment ${payment.id}:`, error.message));
+      }
+    })().finally(() => {
+      this.pendingPoll = null;
+    });
+    return this.pendingPoll;
+  }
+
+  private onBlock = (blockNumber: number) => {
+    this.poll(blockNumber).catch(error => console.error("⚠️ Payment watcher poll failed:", error.message));
+  };
+
+  /**
+   * Queues a check behind any already running for the payment (from track() or a poll)
+   */
+  private check(paymentId: string, head: number): Promise<PaymentRecord | undefined> {
+    const previous = this.checks.get(paymentId) || Promise.resolve(undefined);
+    const run = () => this.checkLatest(paymentId, head);
+    const next = previous.then(run, run);
+    this.checks.set(paymentId, next);
+
+    const forget = () => {
+      if (this.checks.get(paymentId) === next) this.checks.delete(paymentId);
+    };
+    next.then(forget, forget);
+    return next;
+  }
+
+  // Reads the payment again, since a check queued before this one may already have finished it
+  private async checkLatest(paymentId: string, head: number): Promise<PaymentRecord | undefined> {
+    const payment = await this.ledger.get(paymentId);
+    if (!payment || payment.status !== 'processing' || !payment.txHash) {
+      return payment;
+    }
+    return this.checkReceipt(payment, head);
+  }
+
+  private async checkReceipt(payment: PaymentRecord, head: number): Promise<PaymentRecord> {
+    const receipt = await this.provider.getTransactionReceipt(payment.txHash!);
+    if (!receipt) {
+      return this.checkUnmined(payment);
+    }
+
+    if (receipt.status === 0) {
+      return this.ledger.transition(payment.id, 'failed', {
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        gasUsed: receipt.gasUsed.toString(),
+        gasPrice: receipt.gasPrice.toString()
+      }, `Transaction reverted in block ${receipt.blockNumber}`);
+    }
+
+    let current = payment;
+    const confirmations = Math.max(head - receipt.blockNumber + 1, 1);
+
+    if (receipt.blockHash !== payment.blockHash) {
+      // First sighting, or the transaction was re-mined in another block after a reorg
+      const { settled: _settled, ...details } = await this.read(payment, receipt);
+      const changes = { ...details, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash, confirmations };
+      current = payment.blockHash
+        ? await this.ledger.transition(payment.id, 'processing', changes, `Re-mined in block ${receipt.blockNumber} after a reorg`)
+        : await this.ledger.update(payment.id, changes);
+    } else if (confirmations !== payment.confirmations) {
+      current = await this.ledger.update(payment.id, { confirmations });
+    }
+
+    if (confirmations < this.finalityDepth) {
+      return current;
+    }
+
+    // Final: read the receipt once more so the recorded outcome is the one that stuck
+    const { settled, ...details } = await this.read(current, receipt);
+    const final = await this.ledger.transition(payment.id, settled ? 'confirmed' : 'partially_paid', { ...details, confirmations });
+    if (!this.onFinal) {
+      return final;
+    }
+    const recorded = await this.onFinal(final)
+      .catch(error => console.error(`⚠️ Could not finish recording payment ${payment.id}:`, error.message));
+    return recorded || final;
+  }
+
+  private async checkUnmined(payment: PaymentRecord): Promise<PaymentRecord> {
+    const pending = await this.provider.getTransaction(payment.txHash!);
+    if (!pending) {
+      // Gone from the node: another transaction took its nonce, or it was dropped
+      if (payment.nonce !== undefined) {
+        const minedNonces = await this.provider.getTransactionCount(payment.payer, 'latest');
+        if (minedNonces > payment.nonce) {
+          return this.ledger.transition(payment.id, 'failed', { confirmations: 0 },
+            `Replaced by another transaction with nonce ${payment.nonce}`);
+        }
+      }
+
+      // Counted from submission, or from the reorg that took it out of its block
+      const missingFor = Date.now() - Date.parse(payment.history[payment.history.length - 1].at);
+      if (missingFor > this.dropTimeoutMs) {
+        return this.ledger.transition(payment.id, 'failed', { confirmations: 0 },
+          `Dropped: not mined or pending after ${Math.round(missingFor / 60000)} minutes`);
+      }
+    }
+
+    // The last block it was seen in is kept, so it is reported as re-mined when it comes back
+    return payment.blockHash && payment.confirmations
+      ? this.ledger.transition(payment.id, 'processing', { confirmations: 0 },
+        `Removed from block ${payment.blockNumber} by a reorg; waiting to be mined again`)
+      : payment;
+  }
+}
@@ -0,0 +1,254 @@
+import { IAgentRuntime, ModelType } from "@elizaos/core";
+import { randomBytes } from 'crypto';
+import RuntimeStore from '../../src/services/runtimeStore.ts';
+import { DisputeParty } from '../../src/services/disputeRoles.ts';
+
+export type { DisputeParty };
+
+// open: collecting evidence; proposed: a settlement awaits the arbitrator; resolved: split on-chain
+export type DisputeCaseStatus = 'open' | 'proposed' | 'resolved';
+
+export interface DisputeEvidence {
+  id: string;
+  party: DisputeParty;
+  submittedBy?: string; // chat entity that submitted it
+  signer?: string; // wallet that signed the statement, which is what makes it this party's
+  statement: string;
+  ipfsHash?: string; // pinned copy, so the record outlives the chat
+  submittedAt: string;
+}
+
+export interface SettlementProposal {
+  providerShareBps: number;
+  reasoning: string;
+  providerSummary: string;
+  clientSummary: string;
+  source: 'model' | 'heuristic';
+  proposedAt: string;
+}
+
+export interface DisputeCase {
+  invoiceId: number;
+  reason: string;
+  raisedBy: DisputeParty;
+  status: DisputeCaseStatus;
+  evidence: DisputeEvidence[];
+  proposal?: SettlementProposal;
+  resolution?: {
+    providerShareBps: number;
+    resolution: string;
+    txHash: string;
+    resolvedAt: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the mediator knows about the disputed invoice
+export interface DisputeContext {
+  amount: string; // formatted escrow amount
+  description?: string;
+}
+
+const MAX_STATEMENT_LENGTH = 2000;
+
+/**
+ * Off-chain record of a dispute: the evidence each side submits and the agent's proposed
+ * settlement. The escrow itself only stores the reason and the final split.
+ */
+export default class DisputeCases {
+  private store: RuntimeStore<DisputeCase>;
+
+  constructor(runtime: IAgentRuntime) {
+    this.store = new RuntimeStore<DisputeCase>(runtime, 'dispute-cases');
+  }
+
+  async get(invoiceId: number): Promise<DisputeCase | undefined> {
+    return this.store.get(String(invoiceId));
+  }
+
+  /**
+   * Opens a case, or returns the existing one if the dispute was already raised (e.g. on-chain)
+   */
+  async open(invoiceId: number, reason: string, raisedBy: DisputeParty, now: Date = new Date()): Promise<DisputeCase> {
+    const timestamp = now.toISOString();
+    const opened = await this.store.update(String(invoiceId), current => current && current.status !== 'resolved'
+      ? undefined
+      : {
+        invoiceId,
+        reason,
+        raisedBy,
+        status: 'open',
+        evidence: [],
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+    return opened || await this.get(invoiceId);
+  }
+
+  async addEvidence(invoiceId: number, evidence: Omit<DisputeEvidence, 'id' | 'submittedAt'>, now: Date = new Date()): Promise<DisputeCase> {
+    const statement = evidence.statement.trim();
+    if (!statement) {
+      throw new Error("Evidence statement is empty");
+    }
+    if (statement.length > MAX_STATEMENT_LENGTH) {
+      throw new Error(`Evidence statements are limited to ${MAX_STATEMENT_LENGTH} characters`);
+    }
+
+    return this.change(invoiceId, current => ({
+      ...current,
+      // New evidence invalidates a proposal made without it
+      status: 'open',
+      proposal: undefined,
+      evidence: [...current.evidence, {
+        ...evidence,
+        statement,
+        id: `ev-${randomBytes(4).toString('hex')}`,
+        submittedAt: now.toISOString()
+      }]
+    }), now);
+  }
+
+  async setProposal(invoiceId: number, proposal: SettlementProposal, now: Date = new Date()): Promise<DisputeCase> {
+    return this.change(invoiceId, current => ({ ...current, status: 'proposed', proposal }), now);
+  }
+
+  async markResolved(invoiceId: number, resolution: DisputeCase['resolution'], now: Date = new Date()): Promise<DisputeCase> {
+    return this.change(invoiceId, current => ({ ...current, status: 'resolved', resolution }), now);
+  }
+
+  private async change(invoiceId: number, apply: (current: DisputeCase) => DisputeCase, now: Date): Promise<DisputeCase> {
+    let missing = false;
+    let resolved = false;
+    const updated = await this.store.update(String(invoiceId), current => {
+      if (!current) {
+        missing = true;
+        return undefined;
+      }
+      if (current.status === 'resolved') {
+        resolved = true;
+        return undefined;
+      }
+      return { ...apply(current), updatedAt: now.toISOString() };
+    });
+
+    if (missing) {
+      throw new Error(`No open dispute for invoice #${invoiceId}`);
+    }
+    if (resolved) {
+      throw new Error(`The dispute on invoice #${invoiceId} has already been resolved`);
+    }
+    return updated!;
+  }
+}
+
+/**
+ * Summarizes both sides of a dispute and proposes how to split the escrow.
+ * Uses the agent's language model when one is registered, and a conservative
+ * rule of thumb otherwise. The proposal is advisory: only the arbitrator can accept it.
+ */
+export class DisputeMediator {
+  private runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  async propose(dispute: DisputeCase, context: DisputeContext, now: Date = new Date()): Promise<SettlementProposal> {
+    const modelProposal = await this.proposeWithModel(dispute, context);
+    return { ...(modelProposal || proposeHeuristically(dispute)), proposedAt: now.toISOString() };
+  }
+
+  private async proposeWithModel(dispute: DisputeCase, context: DisputeContext): Promise<Omit<SettlementProposal, 'proposedAt'> | null> {
+    if (typeof this.runtime?.useModel !== 'function') {
+      return null;
+    }
+
+    try {
+      const response = await this.runtime.useModel(ModelType.TEXT_LARGE, {
+        prompt: buildMediationPrompt(dispute, context)
+      });
+
+      const json = String(response).match(/\{[\s\S]*\}/);
+      if (!json) return null;
+
+      const parsed = JSON.parse(json[0]);
+      const providerSharePercent = Number(parsed.providerSharePercent);
+      if (!Number.isFinite(providerSharePercent) || providerSharePercent < 0 || providerSharePercent > 100 || !parsed.reasoning) {
+        return null;
+      }
+
+      return {
+        providerShareBps: Math.round(providerSharePercent * 100),
+        reasoning: String(parsed.reasoning).trim(),
+        providerSummary: String(parsed.providerSummary || summarize(dispute, 'provider')).trim(),
+        clientSummary: String(parsed.clientSummary || summarize(dispute, 'client')).trim(),
+        source: 'model'
+      };
+    } catch (error) {
+      console.warn('⚠️ Model dispute mediation unavailable, using heuristic:', error.message);
+      return null;
+    }
+  }
+}
+
+/**
+ * Without a model: a completion figure stated in the evidence ("80% delivered") sets the split;
+ * otherwise a side that submitted nothing loses ground, and even evidence splits evenly.
+ */
+export function proposeHeuristically(dispute: DisputeCase): Omit<SettlementProposal, 'proposedAt'> {
+  const providerSummary = summarize(dispute, 'provider');
+  const clientSummary = summarize(dispute, 'client');
+
+  const completions = dispute.evidence
+    .map(evidence => evidence.statement.match(/(\d{1,3})\s*%\s*(?:of (?:the )?work\s+)?(?:complete[d]?|delivered|done|finished)/i))
+    .filter((match): match is RegExpMatchArray => !!match && parseInt(match[1]) <= 100)
+    .map(match => parseInt(match[1]));
+
+  let providerShareBps = 5000;
+  let reasoning: string;
+  if (completions.length > 0) {
+    const average = completions.reduce((sum, value) => sum + value, 0) / completions.length;
+    providerShareBps = Math.round(average) * 100;
+    reasoning = `The evidence puts the work at about ${Math.round(average)}% complete, so the provider is paid for that share and the rest is refunded.`;
+  } else {
+    const providerCount = dispute.evidence.filter(evidence => evidence.party === 'provider').length;
+    const clientCount = dispute.evidence.filter(evidence => evidence.party === 'client').length;
+    if (providerCount > 0 && clientCount === 0) {
+      providerShareBps = 7500;
+      reasoning = "Only the provider has submitted evidence; the client has not substantiated the dispute.";
+    } else if (clientCount > 0 && providerCount === 0) {
+      providerShareBps = 2500;
+      reasoning = "Only the client has submitted evidence; the provider has not responded to the dispute.";
+    } else {
+      reasoning = "Neither side's evidence clearly outweighs the other's, so the escrow is split evenly.";
+    }
+  }
+
+  return { providerShareBps, reasoning, providerSummary, clientSummary, source: 'heuristic' };
+}
+
+function summarize(dispute: DisputeCase, party: DisputeParty): string {
+  const statements = dispute.evidence.filter(evidence => evidence.party === party).map(evidence => evidence.statement);
+  if (statements.length === 0) {
+    return "No evidence submitted.";
+  }
+  const joined = statements.join(' ');
+  return joined.length > 280 ? `${joined.slice(0, 277)}...` : joined;
+}
+
+function buildMediationPrompt(dispute: DisputeCase, context: DisputeContext): string {
+  const evidence = dispute.evidence
+    .map(item => `[${item.party}] ${item.statement}`)
+    .join('\n');
+
+  return `You are mediating a dispute over an invoice held in escrow.\n` +
+    `Escrowed amount: ${context.amount}\n` +
+    (context.description ? `Work invoiced: ${context.description}\n` : '') +
+    `Dispute raised by the ${dispute.raisedBy}: ${dispute.reason}\n\n` +
+    `Evidence:\n${evidence || '(none submitted)'}\n\n` +
+    `Summarize each side in one or two sentences and propose what percentage of the escrow the provider should receive ` +
+    `(the client is refunded the rest). Base it only on the evidence; do not invent facts.\n` +
+    `Respond with JSON only, in this shape:\n` +
+    `{"providerSummary":string,"clientSummary":string,"providerSharePercent":number,"reasoning":string}`;
+}
@@ -1,41 +1,65 @@
 import { Plugin, IAgentRuntime, Memory, Action, HandlerCallback } from "@elizaos/core";
 import { ethers } from "ethers";
-
-// Smart contract ABIs (simplified for key functions)
-const INVOICE_ESCROW_ABI = [
-  "function createInvoice(address client, uint256 amount, address token, tuple(uint256,uint256,uint256,bool,address) terms, string ipfsHash) external returns (uint256)",
-  "function makePayment(uint256 invoiceId) external payable",
-  "function approveInvoice(uint256 invoiceId) external",
-  "function raiseDispute(uint256 invoiceId, string reason) external",
-  "function resolveDispute(uint256 invoiceId, bool favorProvider) external",
-  "function getInvoice(uint256 invoiceId) external view returns (tuple(uint256,address,address,uint256,address,tuple(uint256,uint256,uint256,bool,address),uint8,uint256,uint256,uint256,string))",
-  "function getProviderInvoices(address provider) external view returns (uint256[])",
-  "function getClientInvoices(address client) external view returns (uint256[])",
-  "event InvoiceCreated(uint256 indexed invoiceId, address indexed provider, address indexed client, uint256 amount, address token, string ipfsHash)",
-  "event PaymentMade(uint256 indexed invoiceId, address indexed payer, uint256 amount, uint256 actualAmount, bool earlyPayment)",
-  "event FundsReleased(uint256 indexed invoiceId, address indexed recipient, uint256 amount, uint256 platformFee)",
-  "event DisputeRaised(uint256 indexed invoiceId, address indexed initiator, string reason)",
-  "event DisputeResolved(uint256 indexed invoiceId, address indexed resolver, bool favorProvider)"
-];
+import { LateFeePolicy, describeLateFeePolicy, lateFeePolicyFromChain, validateLateFeePolicy } from "../../src/services/lateFees.ts";
+import IdempotencyStore, { EXPLICIT_KEY_TTL_MS, deriveInvoiceKey, idempotencyWindowMs, scopeIdempotencyKey } from "../../src/services/idempotencyStore.ts";
+import MetadataStore from "../../src/services/metadataStore.ts";
+import Money, { CURRENCY_DECIMALS, findAmount } from "../../src/services/money.ts";
+import TokenRegistry from "../../src/services/tokenRegistry.ts";
+import { ERC20_ABI, INVOICE_ESCROW_ABI } from "../../src/services/contractAbis.ts";
+import { identifyParty, isDisputeArbitrator, sameAddress } from "../../src/services/disputeRoles.ts";
+import DisputeCases, { DisputeCase, DisputeMediator, DisputeParty } from "./disputeMediator.ts";
 
 interface SmartContractConfig {
   rpcUrl: string;
   contractAddress: string;
   privateKey: string;
   chainId: number;
+  supportedTokens?: Record<string, string>; // symbol -> address, checked against the escrow allow-list
 }
 
 interface InvoiceData {
   id: number;
   provider: string;
   client: string;
-  amount: string;
+  amount: Money;
   token: string;
   status: number;
   terms: PaymentTerms;
   createdAt: number;
   dueDate: number;
   ipfsHash: string;
+  amountPaid: Money; // principal settled by installments so far
+  balanceDue: Money;
+  approvalDeadline: number; // set once paid with approval required; anyone can release after it
+  disputeDeadline: number; // set when disputed; anyone can apply the default split after it
+}
+
+interface CreditNote {
+  id: number;
+  invoiceId: number;
+  amount: Money;
+  refunded: Money;
+  createdAt: number;
+  ipfsHash: string;
+}
+
+// How an arbitrator split a disputed escrow
+interface DisputeResolution {
+  providerShareBps: number;
+  providerAmount: Money; // after the platform fee
+  clientAmount: Money;
+  resolver: string;
+  resolvedAt: number;
+  resolution: string;
+}
+
+// Corrections recorded against an invoice: credit notes and the amendment chain it belongs to
+interface InvoiceHistory {
+  amountDue: Money;
+  creditNotes: CreditNote[];
+  amendmentOf?: number; // the invoice this one replaced
+  supersededBy?: number; // the amendment that replaced this one
+  latestVersion: number;
 }
 
 interface PaymentTerms {
@@ -46,10 +70,21 @@ interface PaymentTerms {
   arbitrator: string;
 }
 
+// InvoiceEscrow.InvoiceStatus values the plugin acts on
+const STATUS_CREATED = 0;
+const STATUS_PAID = 1;
+const STATUS_COMPLETED = 3;
+const STATUS_DISPUTED = 4;
+const STATUS_PARTIALLY_PAID = 8;
+
+// Cap used when a late fee policy is set without one
+const DEFAULT_LATE_FEE_CAP_BPS = 1000;
+
 class SmartContractService {
   private provider: ethers.Provider;
   private signer: ethers.Wallet;
   private contract: ethers.Contract;
+  private tokens: TokenRegistry;
   private _config: SmartContractConfig;
 
   constructor(config: SmartContractConfig) {
@@ -61,17 +96,22 @@ class SmartContractService {
       INVOICE_ESCROW_ABI,
       this.signer
     );
+    this.tokens = TokenRegistry.forEscrow(this.provider, config.contractAddress, {
+      knownTokens: config.supportedTokens
+    });
   }
 
   async createInvoice(
     clientAddress: string,
-    amount: string,
-    tokenAddress: string,
+    amount: Money,
     terms: PaymentTerms,
     ipfsHash: string
-  ): Promise<{ invoiceId: number; txHash: string }> {
+  ): Promise<{ invoiceId: number; txHash: string; token: string }> {
     try {
-      const amountWei = ethers.parseUnits(amount, tokenAddress === ethers.ZeroAddress ? 18 : 6);
+      const token = await this.tokens.resolveCurrency(amount.currency);
+      
+      // Base units straight from the bigint amount, never via a float
+      const amountWei = amount.rescale(token.decimals).minor;
       
       const termsArray = [
         terms.paymentWindow,
@@ -84,7 +124,7 @@ class SmartContractService {
       const tx = await this.contract.createInvoice(
         clientAddress,
         amountWei,
-        tokenAddress,
+        token.address,
         termsArray,
         ipfsHash
       );
@@ -100,7 +140,8 @@ class SmartContractService {
 
       return {
         invoiceId,
-        txHash: receipt.hash
+        txHash: receipt.hash,
+        token: token.address
       };
     } catch (error) {
       console.error("Error creating invoice:", error);
@@ -116,7 +157,7 @@ class SmartContractService {
         id: invoice[0],
         provider: invoice[1],
         client: invoice[2],
-        amount: ethers.formatUnits(invoice[3], invoice[4] === ethers.ZeroAddress ? 18 : 6),
+        amount: await this.tokens.toMoney(invoice[4], invoice[3]),
         token: invoice[4],
         status: invoice[6],
         terms: {
@@ -128,7 +169,11 @@ class SmartContractService {
         },
         createdAt: invoice[7],
         dueDate: invoice[8],
-        ipfsHash: invoice[10]
+        ipfsHash: invoice[10],
+        amountPaid: await this.tokens.toMoney(invoice[4], invoice[11]),
+        balanceDue: await this.tokens.toMoney(invoice[4], invoice[12]),
+        approvalDeadline: Number(invoice[13]),
+        disputeDeadline: Number(invoice[14])
       };
     } catch (error) {
       console.error("Error fetching invoice:", error);
@@ -149,16 +194,16 @@ class SmartContractService {
     }
   }
 
-  async makePayment(invoiceId: number, amount?: string): Promise<string> {
+  async makePayment(invoiceId: number, amount?: Money): Promise<string> {
     try {
       const invoice = await this.getInvoice(invoiceId);
-      const paymentAmount = amount || invoice.amount;
+      // By default pay what the contract charges now, including any discount or late fee
+      const paymentAmount = amount || await this.getPaymentAmount(invoiceId).then(quote => quote.amount);
       
       let tx;
       if (invoice.token === ethers.ZeroAddress) {
         // Native SEI payment
-        const amountWei = ethers.parseEther(paymentAmount);
-        tx = await this.contract.makePayment(invoiceId, { value: amountWei });
+        tx = await this.contract.makePayment(invoiceId, { value: paymentAmount.minor });
       } else {
         // ERC20 token payment (requires pre-approval)
         tx = await this.contract.makePayment(invoiceId);
@@ -172,6 +217,51 @@ class SmartContractService {
     }
   }
 
+  async getPaymentAmount(invoiceId: number): Promise<{ amount: Money; lateFee: Money }> {
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      const [amount, lateFee] = await this.contract.getPaymentAmount(invoiceId);
+      return {
+        amount: await this.tokens.toMoney(invoice.token, amount),
+        lateFee: await this.tokens.toMoney(invoice.token, lateFee)
+      };
+    } catch (error) {
+      console.error("Error fetching payment amount:", error);
+      throw new Error(`Failed to fetch payment amount: ${error.message}`);
+    }
+  }
+
+  /**
+   * Sets the late fee policy for the signer's future invoices; existing invoices keep theirs
+   */
+  async setLateFeePolicy(policy: LateFeePolicy): Promise<string> {
+    try {
+      const tx = await this.contract.setLateFeePolicy([
+        policy.gracePeriod,
+        policy.flatFeeBps,
+        policy.dailyInterestBps,
+        policy.maxFeeBps
+      ]);
+      const receipt = await tx.wait();
+      return receipt.hash;
+    } catch (error) {
+      console.error("Error setting late fee policy:", error);
+      throw new Error(`Failed to set late fee policy: ${error.message}`);
+    }
+  }
+
+  async getLateFeePolicy(invoiceId?: number): Promise<LateFeePolicy> {
+    try {
+      const raw = invoiceId !== undefined
+        ? await this.contract.lateFeePolicies(invoiceId)
+        : await this.contract.providerLateFeePolicies(await this.signer.getAddress());
+      return lateFeePolicyFromChain(raw);
+    } catch (error) {
+      console.error("Error fetching late fee policy:", error);
+      throw new Error(`Failed to fetch late fee policy: ${error.message}`);
+    }
+  }
+
   async approveInvoice(invoiceId: number): Promise<string> {
     try {
       const tx = await this.contract.approveInvoice(invoiceId);
@@ -194,17 +284,206 @@ class SmartContractService {
     }
   }
 
-  async resolveDispute(invoiceId: number, favorProvider: boolean): Promise<string> {
+  /**
+   * Splits the disputed escrow: `providerShareBps` to the provider (less the platform fee), the rest back to the client
+   */
+  async resolveDispute(invoiceId: number, providerShareBps: number, resolution: string): Promise<{ txHash: string; resolution: DisputeResolution }> {
     try {
-      const tx = await this.contract.resolveDispute(invoiceId, favorProvider);
+      if (!Number.isInteger(providerShareBps) || providerShareBps < 0 || providerShareBps > 10000) {
+        throw new Error("Provider share must be between 0% and 100%");
+      }
+      // The agent signs with a party's wallet on most invoices, and a party can't judge its own dispute
+      const invoice = await this.getInvoice(invoiceId);
+      if (sameAddress(this.signer.address, invoice.provider) || sameAddress(this.signer.address, invoice.client)) {
+        throw new Error(`The agent's wallet is a party to invoice #${invoiceId}; its arbitrator (${invoice.terms.arbitrator}) must resolve the dispute`);
+      }
+
+      const tx = await this.contract.resolveDispute(invoiceId, providerShareBps, resolution);
       const receipt = await tx.wait();
-      return receipt.hash;
+      return {
+        txHash: receipt.hash,
+        resolution: await this.getDisputeResolution(invoiceId)
+      };
     } catch (error) {
       console.error("Error resolving dispute:", error);
       throw new Error(`Failed to resolve dispute: ${error.message}`);
     }
   }
 
+  /**
+   * Applies the escrow's default outcome once the approval or dispute deadline has passed.
+   * Permissionless on-chain, so the agent can call it for either party.
+   */
+  async enforceDeadline(invoiceId: number): Promise<{ txHash: string; status: number }> {
+    try {
+      const tx = await this.contract.enforceDeadline(invoiceId);
+      const receipt = await tx.wait();
+      const invoice = await this.getInvoice(invoiceId);
+      return { txHash: receipt.hash, status: Number(invoice.status) };
+    } catch (error) {
+      console.error("Error enforcing deadline:", error);
+      throw new Error(`Failed to enforce deadline: ${error.message}`);
+    }
+  }
+
+  async getEscrowBalance(invoiceId: number): Promise<Money> {
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      return await this.tokens.toMoney(invoice.token, await this.contract.getEscrowBalance(invoiceId));
+    } catch (error) {
+      console.error("Error fetching escrow balance:", error);
+      throw new Error(`Failed to fetch escrow balance: ${error.message}`);
+    }
+  }
+
+  async getDisputeReason(invoiceId: number): Promise<string> {
+    try {
+      return await this.contract.getDisputeReason(invoiceId);
+    } catch (error) {
+      console.error("Error fetching dispute reason:", error);
+      throw new Error(`Failed to fetch dispute reason: ${error.message}`);
+    }
+  }
+
+  async getDisputeResolution(invoiceId: number): Promise<DisputeResolution | null> {
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      const raw = await this.contract.getDisputeResolution(invoiceId);
+      if (Number(raw[4]) === 0) {
+        return null;
+      }
+
+      return {
+        providerShareBps: Number(raw[0]),
+        providerAmount: await this.tokens.toMoney(invoice.token, raw[1]),
+        clientAmount: await this.tokens.toMoney(invoice.token, raw[2]),
+        resolver: raw[3],
+        resolvedAt: Number(raw[4]),
+        resolution: raw[5]
+      };
+    } catch (error) {
+      console.error("Error fetching dispute resolution:", error);
+      throw new Error(`Failed to fetch dispute resolution: ${error.message}`);
+    }
+  }
+
+  /**
+   * Credits part of an invoice. For a completed invoice the escrow has already paid out,
+   * so the refund it owes the client is sent along with the transaction.
+   */
+  async issueCreditNote(invoiceId: number, amount: Money, ipfsHash: string): Promise<{ creditNoteId: number; txHash: string; refunded: Money }> {
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      const token = await this.tokens.getByAddress(invoice.token);
+      const creditWei = amount.rescale(token.decimals).minor;
+
+      let refundWei = 0n;
+      if (Number(invoice.status) === STATUS_COMPLETED) {
+        refundWei = await this.contract.getCreditRefund(invoiceId, creditWei);
+      }
+
+      if (refundWei > 0n && invoice.token !== ethers.ZeroAddress) {
+        // The escrow pulls the refund from the provider's wallet
+        const erc20 = new ethers.Contract(invoice.token, ERC20_ABI, this.signer);
+        const allowance: bigint = await erc20.allowance(await this.signer.getAddress(), this._config.contractAddress);
+        if (allowance < refundWei) {
+          await (await erc20.approve(this._config.contractAddress, refundWei)).wait();
+        }
+      }
+
+      const tx = await this.contract.issueCreditNote(invoiceId, creditWei, ipfsHash, {
+        value: invoice.token === ethers.ZeroAddress ? refundWei : 0n
+      });
+      const receipt = await tx.wait();
+
+      const event = this.findEvent(receipt, "CreditNoteIssued");
+      return {
+        creditNoteId: Number(event.args.creditNoteId),
+        txHash: receipt.hash,
+        refunded: await this.tokens.toMoney(invoice.token, event.args.refunded)
+      };
+    } catch (error) {
+      console.error("Error issuing credit note:", error);
+      throw new Error(`Failed to issue credit note: ${error.message}`);
+    }
+  }
+
+  /**
+   * Replaces an unpaid invoice with a new version; the original stays on-chain as Superseded
+   */
+  async amendInvoice(invoiceId: number, amount: Money, terms: PaymentTerms, ipfsHash: string): Promise<{ invoiceId: number; txHash: string }> {
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      const token = await this.tokens.getByAddress(invoice.token);
+
+      const termsArray = [
+        terms.paymentWindow,
+        terms.earlyPaymentDiscountBps,
+        terms.earlyPaymentDeadline,
+        terms.requiresApproval,
+        terms.arbitrator
+      ];
+
+      const tx = await this.contract.amendInvoice(invoiceId, amount.rescale(token.decimals).minor, termsArray, ipfsHash);
+      const receipt = await tx.wait();
+
+      const event = this.findEvent(receipt, "InvoiceAmended");
+      return {
+        invoiceId: Number(event.args.newInvoiceId),
+        txHash: receipt.hash
+      };
+    } catch (error) {
+      console.error("Error amending invoice:", error);
+      throw new Error(`Failed to amend invoice: ${error.message}`);
+    }
+  }
+
+  async getInvoiceHistory(invoiceId: number): Promise<InvoiceHistory> {
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      const [amountDue, notes, amendmentOf, supersededBy, latestVersion] = await Promise.all([
+        this.contract.getAmountDue(invoiceId),
+        this.contract.getCreditNotes(invoiceId),
+        this.contract.amendmentOf(invoiceId),
+        this.contract.supersededBy(invoiceId),
+        this.contract.getLatestVersion(invoiceId)
+      ]);
+
+      const creditNotes: CreditNote[] = [];
+      for (const note of notes) {
+        creditNotes.push({
+          id: Number(note[0]),
+          invoiceId: Number(note[1]),
+          amount: await this.tokens.toMoney(invoice.token, note[2]),
+          refunded: await this.tokens.toMoney(invoice.token, note[3]),
+          createdAt: Number(note[4]),
+          ipfsHash: note[5]
+        });
+      }
+
+      return {
+        amountDue: await this.tokens.toMoney(invoice.token, amountDue),
+        creditNotes,
+        amendmentOf: Number(amendmentOf) || undefined,
+        supersededBy: Number(supersededBy) || undefined,
+        latestVersion: Number(latestVersion)
+      };
+    } catch (error) {
+      console.error("Error fetching invoice history:", error);
+      throw new Error(`Failed to fetch invoice history: ${error.message}`);
+    }
+  }
+
+  private findEvent(receipt: ethers.TransactionReceipt, name: string): ethers.LogDescription {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === name) {
+        return parsed;
+      }
+    }
+    throw new Error(`${name} event not found in transaction ${receipt.hash}`);
+  }
+
   async listenToEvents(callback: (event: any) => void): Promise<void> {
     // Listen to all invoice-related events
     const eventFilters = [
@@ -233,7 +512,7 @@ const createInvoiceAction: Action = {
   ],
   validate: async (_runtime: IAgentRuntime, message: Memory) => {
     const text = message.content.text?.toLowerCase() || "";
-    return text.includes("create") && text.includes("invoice");
+    return text.includes("create") && text.includes("invoice") && !text.includes("credit note") && !text.includes("amend");
   },
   description: "Creates a new invoice on the blockchain",
   handler: async (
@@ -248,18 +527,43 @@ const createInvoiceAction: Action = {
       const service = new SmartContractService(config);
 
       // Extract invoice parameters from message (simplified parsing)
-      const params = extractInvoiceParams(message.content.text || "");
+      const text = message.content.text || "";
+      const params = extractInvoiceParams(text);
       
-      const result = await service.createInvoice(
-        params.clientAddress,
-        params.amount,
-        params.tokenAddress || ethers.ZeroAddress,
-        params.terms,
-        params.ipfsHash || ""
+      // A retried message (same sender, client, amount and wording) returns the invoice it already created
+      const explicitKey = message.content.idempotencyKey as string | undefined;
+      const key = explicitKey
+        ? scopeIdempotencyKey(message.entityId, explicitKey)
+        : deriveInvoiceKey({
+            providerId: message.entityId,
+            clientAddress: params.clientAddress,
+            amount: params.amount.toDecimalString(),
+            currency: params.amount.currency,
+            description: text
+          });
+      
+      const { result, replayed } = await new IdempotencyStore<{ invoiceId: number; txHash: string; token: string }>(runtime, "contract-invoices").run(
+        key,
+        explicitKey ? EXPLICIT_KEY_TTL_MS : idempotencyWindowMs(),
+        () => service.createInvoice(
+          params.clientAddress,
+          params.amount,
+          params.terms,
+          params.ipfsHash || ""
+        )
       );
 
+      if (replayed) {
+        callback({
+          text: `♻️ This invoice was already created, nothing new was deployed.\n\n**Invoice ID:** ${result.invoiceId}\n**Transaction:** ${result.txHash}`,
+          action: "CREATE_INVOICE_SUCCESS",
+          data: { ...result, replayed }
+        });
+        return;
+      }
+
       callback({
-        text: `✅ Invoice created successfully!\n\n**Invoice ID:** ${result.invoiceId}\n**Transaction:** ${result.txHash}\n**Amount:** ${params.amount} ${params.token || 'SEI'}\n**Payment Terms:** Net ${params.terms.paymentWindow / (24 * 60 * 60)} days\n\nThe invoice has been deployed to the blockchain and is ready for payment.`,
+        text: `✅ Invoice created successfully!\n\n**Invoice ID:** ${result.invoiceId}\n**Transaction:** ${result.txHash}\n**Amount:** ${params.amount.format()}\n**Payment Terms:** Net ${params.terms.paymentWindow / (24 * 60 * 60)} days\n\nThe invoice has been deployed to the blockchain and is ready for payment.`,
         action: "CREATE_INVOICE_SUCCESS",
         data: result
       });
@@ -316,14 +620,19 @@ const getInvoiceAction: Action = {
 
       const invoiceId = extractInvoiceId(message.content.text || "");
       const invoice = await service.getInvoice(invoiceId);
+      const metadata = await resolveInvoiceMetadata(invoice.ipfsHash);
+
+      const history = await service.getInvoiceHistory(invoiceId).catch((): InvoiceHistory | null => null);
+      const lateFee = await service.getLateFeePolicy(invoiceId).catch((): LateFeePolicy | null => null);
+      const dispute = await service.getDisputeResolution(invoiceId).catch((): DisputeResolution | null => null);
 
       const statusText = getStatusText(invoice.status);
       const daysUntilDue = Math.ceil((invoice.dueDate * 1000 - Date.now()) / (1000 * 60 * 60 * 24));
 
       callback({
-        text: `📋 **Invoice #${invoice.id}**\n\n**Amount:** ${invoice.amount} ${getTokenSymbol(invoice.token)}\n**Status:** ${statusText}\n**Provider:** ${invoice.provider}\n**Client:** ${invoice.client}\n**Payment Terms:** Net ${invoice.terms.paymentWindow / (24 * 60 * 60)} days\n**Days Until Due:** ${daysUntilDue}\n**Early Payment Discount:** ${invoice.terms.earlyPaymentDiscountBps / 100}%\n\nNeed help with next steps? I can assist with payments, approvals, or dispute resolution.`,
+        text: `📋 **Invoice #${invoice.id}**\n\n**Amount:** ${invoice.amount.format()}\n**Status:** ${statusText}\n${formatDeadline(invoice)}${Number(invoice.status) === STATUS_PARTIALLY_PAID ? `**Paid So Far:** ${invoice.amountPaid.format()}\n**Balance Due:** ${invoice.balanceDue.format()}\n` : ""}**Provider:** ${invoice.provider}\n**Client:** ${invoice.client}\n**Payment Terms:** Net ${invoice.terms.paymentWindow / (24 * 60 * 60)} days\n**Days Until Due:** ${daysUntilDue}\n**Early Payment Discount:** ${invoice.terms.earlyPaymentDiscountBps / 100}%\n${lateFee ? `**Late Fees:** ${describeLateFeePolicy(lateFee)}\n` : ""}${formatInvoiceHistory(invoice, history)}${formatDisputeResolution(dispute)}\n${formatInvoiceMetadata(invoice.ipfsHash, metadata)}\n\nNeed help with next steps? I can assist with payments, approvals, or dispute resolution.`,
         action: "GET_INVOICE_SUCCESS",
-        data: invoice
+        data: { ...invoice, metadata, history, lateFeePolicy: lateFee, disputeResolution: dispute }
       });
     } catch (error) {
       callback({
@@ -350,50 +659,950 @@ const getInvoiceAction: Action = {
   ]
 };
 
-// Helper functions
-function extractInvoiceParams(text: string): any {
-  // Simple parameter extraction (you can enhance this with better NLP)
-  const amountMatch = text.match(/\$?(\d+(?:,\d{3})*(?:\.\d{2})?)/);
-  const addressMatch = text.match(/0x[a-fA-F0-9]{40}/);
-  
-  return {
-    amount: amountMatch ? amountMatch[1].replace(',', '') : "1000",
-    clientAddress: addressMatch ? addressMatch[0] : ethers.ZeroAddress,
-    tokenAddress: ethers.ZeroAddress, // Default to native SEI
-    terms: {
-      paymentWindow: 30 * 24 * 60 * 60, // 30 days
-      earlyPaymentDiscountBps: 200, // 2%
-      earlyPaymentDeadline: 0,
-      requiresApproval: false,
-      arbitrator: ethers.ZeroAddress
-    },
-    ipfsHash: "QmDefaultHash123"
-  };
-}
+const issueCreditNoteAction: Action = {
+  name: "ISSUE_CREDIT_NOTE",
+  similes: [
+    "credit note",
+    "credit invoice",
+    "issue credit",
+    "partial refund on invoice",
+    "reduce invoice"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || "";
+    return text.includes("credit note") || /\bcredit\b.*\binvoice\b/.test(text);
+  },
+  description: "Issues a credit note against an invoice, reducing what the client owes (or refunding them if already paid)",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const config = runtime.getSetting("SMART_CONTRACT_CONFIG") as SmartContractConfig;
+      const service = new SmartContractService(config);
 
-function extractInvoiceId(text: string): number {
-  const match = text.match(/#?(\d+)/);
-  return match ? parseInt(match[1]) : 1;
-}
+      const text = message.content.text || "";
+      const invoiceId = extractReferencedInvoiceId(text);
+      const invoice = await service.getInvoice(invoiceId);
 
-function getStatusText(status: number): string {
-  const statuses = [
-    "Created", "Paid", "Approved", "Completed", 
-    "Disputed", "Cancelled", "Refunded"
-  ];
-  return statuses[status] || "Unknown";
-}
+      const value = findAmount(stripInvoiceReferences(text));
+      if (!value) {
+        throw new Error("Please say how much to credit, e.g. \"credit $250 on invoice #12\"");
+      }
+      const amount = Money.parse(value, invoice.amount.currency);
+      const reason = extractReason(text) || "Credit note";
 
-function getTokenSymbol(tokenAddress: string): string {
-  if (tokenAddress === ethers.ZeroAddress) return "SEI";
-  // Add token address to symbol mapping
-  return "TOKEN";
-}
+      // The credit note document: what was credited and why, linked to the original invoice
+      const { cid } = await MetadataStore.fromEnv().pin({
+        type: "credit-note",
+        invoiceId,
+        invoiceIpfsHash: invoice.ipfsHash,
+        amount: amount.toDecimalString(),
+        currency: amount.currency,
+        reason,
+        issuedAt: new Date().toISOString()
+      });
 
-export const smartContractPlugin: Plugin = {
-  name: "smartContract",
-  description: "Handles blockchain interactions for invoice management",
-  actions: [createInvoiceAction, getInvoiceAction],
+      const result = await service.issueCreditNote(invoiceId, amount, cid);
+      const history = await service.getInvoiceHistory(invoiceId);
+
+      callback({
+        text: `🧾 **Credit Note #${result.creditNoteId} Issued**\n\n**Invoice:** #${invoiceId}\n**Credited:** ${amount.format()}\n**Reason:** ${reason}\n` +
+          (result.refunded.isZero() ? "" : `**Refunded to client:** ${result.refunded.format()}\n`) +
+          `**Still Due:** ${history.amountDue.format()}\n**Transaction:** ${result.txHash}\n**Document:** \`${cid}\``,
+        action: "ISSUE_CREDIT_NOTE_SUCCESS",
+        data: { ...result, invoiceId, amount: amount.toJSON(), reason, ipfsHash: cid, history }
+      });
+    } catch (error) {
+      callback({
+        text: `❌ Failed to issue credit note: ${error.message}`,
+        action: "ISSUE_CREDIT_NOTE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Issue a credit note of $250 on invoice #12 for \"one day not delivered\"" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Issuing a $250 credit note against invoice #12...",
+          action: "ISSUE_CREDIT_NOTE"
+        }
+      }
+    ]
+  ]
+};
+
+const amendInvoiceAction: Action = {
+  name: "AMEND_INVOICE",
+  similes: [
+    "amend invoice",
+    "correct invoice",
+    "revise invoice",
+    "reissue invoice"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || "";
+    return /\b(amend|revise|reissue|correct)\b/.test(text) && text.includes("invoice");
+  },
+  description: "Supersedes an unpaid invoice with an amended version, keeping both linked on-chain",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const config = runtime.getSetting("SMART_CONTRACT_CONFIG") as SmartContractConfig;
+      const service = new SmartContractService(config);
+
+      const text = message.content.text || "";
+      const invoiceId = extractReferencedInvoiceId(text);
+      const invoice = await service.getInvoice(invoiceId);
+      if (Number(invoice.status) !== STATUS_CREATED) {
+        throw new Error(`Invoice #${invoiceId} is ${getStatusText(invoice.status)}; only unpaid invoices can be amended. Issue a credit note instead.`);
+      }
+
+      const changes = extractAmendment(text, invoice.amount.currency);
+      if (!changes.amount && !changes.paymentWindowDays && !changes.description) {
+        throw new Error("Please say what to change, e.g. \"amend invoice #12 amount to $4,500\" or \"net 15\"");
+      }
+
+      const amount = changes.amount || invoice.amount;
+      const terms: PaymentTerms = {
+        ...invoice.terms,
+        paymentWindow: changes.paymentWindowDays ? changes.paymentWindowDays * 24 * 60 * 60 : Number(invoice.terms.paymentWindow),
+        earlyPaymentDiscountBps: Number(invoice.terms.earlyPaymentDiscountBps),
+        earlyPaymentDeadline: 0 // recomputed by the contract
+      };
+
+      // The amended metadata carries the original forward and records what it replaces
+      const original = await resolveInvoiceMetadata(invoice.ipfsHash);
+      const { cid } = await MetadataStore.fromEnv().pin({
+        ...original,
+        description: changes.description || original?.description,
+        amount: amount.toDecimalString(),
+        currency: amount.currency,
+        amends: { invoiceId, ipfsHash: invoice.ipfsHash },
+        amendmentReason: extractReason(text),
+        createdAt: new Date().toISOString()
+      });
+
+      const result = await service.amendInvoice(invoiceId, amount, terms, cid);
+
+      callback({
+        text: `📝 **Invoice #${invoiceId} Amended**\n\n**New Invoice:** #${result.invoiceId} (supersedes #${invoiceId})\n**Amount:** ${amount.format()}` +
+          (amount.equals(invoice.amount) ? "" : ` (was ${invoice.amount.format()})`) +
+          `\n**Payment Terms:** Net ${terms.paymentWindow / (24 * 60 * 60)} days\n**Transaction:** ${result.txHash}\n\n` +
+          `Invoice #${invoiceId} can no longer be paid; the client should pay #${result.invoiceId}.`,
+        action: "AMEND_INVOICE_SUCCESS",
+        data: { ...result, originalInvoiceId: invoiceId, amount: amount.toJSON(), terms, ipfsHash: cid }
+      });
+    } catch (error) {
+      callback({
+        text: `❌ Failed to amend invoice: ${error.message}`,
+        action: "AMEND_INVOICE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Amend invoice #12: amount to $4,500, net 15" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Replacing invoice #12 with an amended version...",
+          action: "AMEND_INVOICE"
+        }
+      }
+    ]
+  ]
+};
+
+const setLateFeePolicyAction: Action = {
+  name: "SET_LATE_FEE_POLICY",
+  similes: [
+    "late fee",
+    "late payment fee",
+    "late interest",
+    "grace period",
+    "overdue fee"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || "";
+    return /\b(late fees?|late payment|interest|grace period|overdue fees?)\b/.test(text) &&
+      /\b(set|charge|add|apply|configure|change|use|remove|disable|no)\b/.test(text);
+  },
+  description: "Sets the grace period and late fee (flat and/or daily interest, capped) charged on the provider's future invoices paid after their due date",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const config = runtime.getSetting("SMART_CONTRACT_CONFIG") as SmartContractConfig;
+      const service = new SmartContractService(config);
+
+      // Structured policy (from a settings form) takes precedence over the chat text
+      const policy: LateFeePolicy = message.content.lateFeePolicy as LateFeePolicy ||
+        extractLateFeePolicy(message.content.text || "", await service.getLateFeePolicy());
+
+      const errors = validateLateFeePolicy(policy);
+      if (errors.length > 0) {
+        throw new Error(errors.join("; "));
+      }
+
+      const txHash = await service.setLateFeePolicy(policy);
+
+      callback({
+        text: `⏰ **Late Fee Policy Updated**\n\n**Policy:** ${describeLateFeePolicy(policy)}\n**Transaction:** ${txHash}\n\n` +
+          `Applies to invoices you create from now on; existing invoices keep the policy they were issued with.`,
+        action: "SET_LATE_FEE_POLICY_SUCCESS",
+        data: { policy, txHash }
+      });
+    } catch (error) {
+      callback({
+        text: `❌ Failed to set late fee policy: ${error.message}`,
+        action: "SET_LATE_FEE_POLICY_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Charge a 2% late fee plus 0.1% per day after a 5 day grace period, capped at 10%" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Setting your late fee policy...",
+          action: "SET_LATE_FEE_POLICY"
+        }
+      }
+    ]
+  ]
+};
+
+const raiseDisputeAction: Action = {
+  name: "RAISE_DISPUTE",
+  similes: [
+    "raise dispute",
+    "dispute invoice",
+    "open dispute",
+    "contest invoice"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || "";
+    return /\bdisput(e|ing)\b/.test(text) && !DISPUTE_FOLLOW_UP_PATTERN.test(text);
+  },
+  description: "Raises a dispute on a paid invoice, freezing its escrow until the arbitrator resolves it",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const config = runtime.getSetting("SMART_CONTRACT_CONFIG") as SmartContractConfig;
+      const service = new SmartContractService(config);
+
+      const text = message.content.text || "";
+      const invoiceId = extractReferencedInvoiceId(text);
+      const reason = (message.content.reason as string) || extractReason(text);
+      if (!reason) {
+        throw new Error("Please give a reason, e.g. \"dispute invoice #12 because the designs were never delivered\"");
+      }
+      const invoice = await service.getInvoice(invoiceId);
+      const { party } = identifyParty(invoice, reason, { entityId: message.entityId, signature: message.content.signature as string });
+
+      // A dispute raised directly on-chain only needs its case opened here
+      const txHash = Number(invoice.status) === STATUS_DISPUTED ? undefined : await service.raiseDispute(invoiceId, reason);
+      const dispute = await new DisputeCases(runtime).open(invoiceId, reason, party);
+
+      callback({
+        text: `⚖️ **Dispute Raised on Invoice #${invoiceId}**\n\n**Raised By:** ${capitalize(party)}\n**Reason:** ${dispute.reason}\n` +
+          `**Escrow:** ${(await service.getEscrowBalance(invoiceId)).format()} frozen until resolved\n` +
+          (txHash ? `**Transaction:** ${txHash}\n` : "") +
+          `\nBoth sides can now submit evidence (e.g. "evidence for invoice #${invoiceId}: ..."). ` +
+          `When ready, ask me to propose a settlement.`,
+        action: "RAISE_DISPUTE_SUCCESS",
+        data: { invoiceId, txHash, dispute }
+      });
+    } catch (error) {
+      callback({
+        text: `❌ Failed to raise dispute: ${error.message}`,
+        action: "RAISE_DISPUTE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Dispute invoice #12 because the final designs were never delivered" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Raising a dispute on invoice #12...",
+          action: "RAISE_DISPUTE"
+        }
+      }
+    ]
+  ]
+};
+
+const submitDisputeEvidenceAction: Action = {
+  name: "SUBMIT_DISPUTE_EVIDENCE",
+  similes: [
+    "submit evidence",
+    "dispute evidence",
+    "add evidence",
+    "respond to dispute"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || "";
+    return /\bevidence\b/.test(text);
+  },
+  description: "Records a party's evidence for a disputed invoice, pinned alongside the invoice metadata",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const config = runtime.getSetting("SMART_CONTRACT_CONFIG") as SmartContractConfig;
+      const service = new SmartContractService(config);
+
+      const text = message.content.text || "";
+      const invoiceId = extractReferencedInvoiceId(text);
+      const statement = (message.content.evidence as string) || extractEvidenceStatement(text);
+      if (!statement) {
+        throw new Error(`Please include the evidence, e.g. "evidence for invoice #${invoiceId}: the client approved the drafts on May 3"`);
+      }
+      const { party, signer } = identifyParty(await service.getInvoice(invoiceId), statement, {
+        entityId: message.entityId,
+        signature: message.content.signature as string
+      });
+
+      const cases = new DisputeCases(runtime);
+      await openDisputeCase(service, cases, invoiceId);
+
+      const submittedAt = new Date().toISOString();
+      const { cid } = await MetadataStore.fromEnv().pin({
+        type: "dispute-evidence",
+        invoiceId,
+        party,
+        statement,
+        signer,
+        signature: message.content.signature,
+        submittedAt
+      });
+
+      const dispute = await cases.addEvidence(invoiceId, {
+        party,
+        submittedBy: message.entityId,
+        signer,
+        statement,
+        ipfsHash: cid
+      });
+
+      callback({
+        text: `📎 **Evidence Recorded for Invoice #${invoiceId}**\n\n**From:** ${capitalize(party)}\n**Statement:** ${statement}\n**Document:** \`${cid}\`\n\n` +
+          `Evidence so far: ${countEvidence(dispute, 'provider')} from the provider, ${countEvidence(dispute, 'client')} from the client.`,
+        action: "SUBMIT_DISPUTE_EVIDENCE_SUCCESS",
+        data: { invoiceId, ipfsHash: cid, dispute }
+      });
+    } catch (error) {
+      callback({
+        text: `❌ Failed to submit evidence: ${error.message}`,
+        action: "SUBMIT_DISPUTE_EVIDENCE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Evidence for invoice #12: the client approved all three drafts by email on May 3" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Adding that to the dispute record for invoice #12...",
+          action: "SUBMIT_DISPUTE_EVIDENCE"
+        }
+      }
+    ]
+  ]
+};
+
+const proposeSettlementAction: Action = {
+  name: "PROPOSE_SETTLEMENT",
+  similes: [
+    "propose settlement",
+    "mediate dispute",
+    "suggest split",
+    "settlement proposal"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || "";
+    return /\b(propose|suggest|mediate|recommend)\b/.test(text) && /\b(settlement|split|dispute)\b/.test(text);
+  },
+  description: "Summarizes both sides' evidence and proposes how to split the disputed escrow, with reasoning",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const config = runtime.getSetting("SMART_CONTRACT_CONFIG") as SmartContractConfig;
+      const service = new SmartContractService(config);
+
+      const invoiceId = extractReferencedInvoiceId(message.content.text || "");
+      const cases = new DisputeCases(runtime);
+      const dispute = await openDisputeCase(service, cases, invoiceId);
+
+      const invoice = await service.getInvoice(invoiceId);
+      const escrow = await service.getEscrowBalance(invoiceId);
+      const metadata = await resolveInvoiceMetadata(invoice.ipfsHash);
+
+      const proposal = await new DisputeMediator(runtime).propose(dispute, {
+        amount: escrow.format(),
+        description: metadata?.description
+      });
+      await cases.setProposal(invoiceId, proposal);
+
+      const [providerShare, clientShare] = splitEscrow(escrow, proposal.providerShareBps);
+
+      callback({
+        text: `🤝 **Proposed Settlement for Invoice #${invoiceId}**\n\n` +
+          `**Provider's Case:** ${proposal.providerSummary}\n**Client's Case:** ${proposal.clientSummary}\n\n` +
+          `**Proposed Split:** ${proposal.providerShareBps / 100}% to provider (${providerShare.format()} before the 0.5% platform fee), ` +
+          `${(10000 - proposal.providerShareBps) / 100}% to client (${clientShare.format()})\n` +
+          `**Reasoning:** ${proposal.reasoning}\n\n` +
+          `This is a recommendation only. The arbitrator can accept it ("accept settlement for invoice #${invoiceId}") ` +
+          `or resolve with a different split.`,
+        action: "PROPOSE_SETTLEMENT_SUCCESS",
+        data: { invoiceId, proposal, escrow: escrow.toJSON() }
+      });
+    } catch (error) {
+      callback({
+        text: `❌ Failed to propose settlement: ${error.message}`,
+        action: "PROPOSE_SETTLEMENT_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Propose a settlement for the dispute on invoice #12" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Reviewing both sides' evidence for invoice #12...",
+          action: "PROPOSE_SETTLEMENT"
+        }
+      }
+    ]
+  ]
+};
+
+const resolveDisputeAction: Action = {
+  name: "RESOLVE_DISPUTE",
+  similes: [
+    "resolve dispute",
+    "accept settlement",
+    "settle dispute",
+    "arbitrate dispute"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || "";
+    return /\b(resolve|accept|settle|arbitrate)\b/.test(text) && /\b(dispute|settlement)\b/.test(text) &&
+      !/\b(propose|suggest|mediate|recommend)\b/.test(text);
+  },
+  description: "Resolves a dispute on-chain as the arbitrator, accepting the proposed settlement or an explicit split",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const config = runtime.getSetting("SMART_CONTRACT_CONFIG") as SmartContractConfig;
+      const service = new SmartContractService(config);
+
+      if (!isDisputeArbitrator(message.entityId)) {
+        throw new Error("Only the configured arbitrator can resolve disputes");
+      }
+
+      const text = message.content.text || "";
+      const invoiceId = extractReferencedInvoiceId(text);
+      const cases = new DisputeCases(runtime);
+      const dispute = await cases.get(invoiceId);
+
+      // An explicit split overrides the proposal; otherwise the arbitrator is accepting it
+      const providerShareBps = message.content.providerShareBps as number ?? extractProviderShareBps(text) ?? dispute?.proposal?.providerShareBps;
+      if (providerShareBps === undefined) {
+        throw new Error(`No settlement has been proposed for invoice #${invoiceId}. Ask me to propose one, or give a split, e.g. "resolve invoice #${invoiceId} 70% to provider"`);
+      }
+      const resolution = (extractReason(text) || (providerShareBps === dispute?.proposal?.providerShareBps ? dispute.proposal.reasoning : undefined) ||
+        `Resolved by arbitrator: ${providerShareBps / 100}% to provider`).slice(0, MAX_RESOLUTION_LENGTH);
+
+      const result = await service.resolveDispute(invoiceId, providerShareBps, resolution);
+      if (dispute && dispute.status !== 'resolved') {
+        await cases.markResolved(invoiceId, {
+          providerShareBps,
+          resolution,
+          txHash: result.txHash,
+          resolvedAt: new Date().toISOString()
+        });
+      }
+
+      callback({
+        text: `✅ **Dispute on Invoice #${invoiceId} Resolved**\n\n` +
+          `**Provider Receives:** ${result.resolution.providerAmount.format()} (${providerShareBps / 100}%, after platform fee)\n` +
+          `**Client Refunded:** ${result.resolution.clientAmount.format()}\n` +
+          `**Resolution:** ${resolution}\n**Transaction:** ${result.txHash}`,
+        action: "RESOLVE_DISPUTE_SUCCESS",
+        data: { invoiceId, ...result }
+      });
+    } catch (error) {
+      callback({
+        text: `❌ Failed to resolve dispute: ${error.message}`,
+        action: "RESOLVE_DISPUTE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Accept the proposed settlement for invoice #12" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Resolving the dispute on invoice #12 on-chain...",
+          action: "RESOLVE_DISPUTE"
+        }
+      }
+    ]
+  ]
+};
+
+const enforceDeadlineAction: Action = {
+  name: "ENFORCE_DEADLINE",
+  similes: [
+    "enforce deadline",
+    "release expired escrow",
+    "claim timeout",
+    "apply dispute deadline"
+  ],
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || "";
+    return /\b(deadline|timeout|timed out|expired)\b/.test(text) && /\b(enforce|release|claim|apply|trigger)\b/.test(text);
+  },
+  description: "Releases a payment left unapproved, or applies the default split to a dispute left unresolved, once its deadline has passed",
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: any,
+    _options: any,
+    callback: HandlerCallback
+  ) => {
+    try {
+      const config = runtime.getSetting("SMART_CONTRACT_CONFIG") as SmartContractConfig;
+      const service = new SmartContractService(config);
+
+      const invoiceId = extractReferencedInvoiceId(message.content.text || "");
+      const invoice = await service.getInvoice(invoiceId);
+      const deadline = pendingDeadline(invoice);
+      if (!deadline) {
+        throw new Error(`Invoice #${invoiceId} is ${getStatusText(invoice.status).toLowerCase()}; only payments awaiting approval and open disputes have deadlines`);
+      }
+      if (deadline.at * 1000 > Date.now()) {
+        throw new Error(`The ${deadline.kind} deadline for invoice #${invoiceId} is ${new Date(deadline.at * 1000).toLocaleString()}; it cannot be enforced before then`);
+      }
+
+      const { txHash } = await service.enforceDeadline(invoiceId);
+
+      let outcome: string;
+      let disputeResolution: DisputeResolution | null = null;
+      if (deadline.kind === 'dispute') {
+        disputeResolution = await service.getDisputeResolution(invoiceId);
+        const cases = new DisputeCases(runtime);
+        const dispute = await cases.get(invoiceId);
+        if (dispute && dispute.status !== 'resolved' && disputeResolution) {
+          await cases.markResolved(invoiceId, {
+            providerShareBps: disputeResolution.providerShareBps,
+            resolution: disputeResolution.resolution,
+            txHash,
+            resolvedAt: new Date().toISOString()
+          });
+        }
+        outcome = disputeResolution
+          ? `The arbitrator did not resolve the dispute in time, so the default split applied.\n\n` +
+            `**Provider Receives:** ${disputeResolution.providerAmount.format()} (after platform fee)\n` +
+            `**Client Refunded:** ${disputeResolution.clientAmount.format()}`
+          : "The default dispute split has been applied.";
+      } else {
+        outcome = `The payment was not approved in time, so the escrowed funds were released to the provider.`;
+      }
+
+      callback({
+        text: `⏰ **Deadline Enforced on Invoice #${invoiceId}**\n\n${outcome}\n\n**Transaction:** ${txHash}`,
+        action: "ENFORCE_DEADLINE_SUCCESS",
+        data: { invoiceId, deadline: deadline.kind, txHash, disputeResolution }
+      });
+    } catch (error) {
+      callback({
+        text: `❌ Failed to enforce deadline: ${error.message}`,
+        action: "ENFORCE_DEADLINE_ERROR",
+        data: { error: error.message }
+      });
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "The approval deadline on invoice #8 has passed, release the escrow" }
+      },
+      {
+        name: "{{agentName}}",
+        content: {
+          text: "Enforcing the approval deadline on invoice #8...",
+          action: "ENFORCE_DEADLINE"
+        }
+      }
+    ]
+  ]
+};
+
+// Helper functions
+function extractInvoiceParams(text: string): any {
+  // Simple parameter extraction (you can enhance this with better NLP)
+  const addressMatch = text.match(/0x[a-fA-F0-9]{40}/);
+  const currencyMatch = text.match(/\b(USDC|USDT|USD|SEI)\b/i);
+  
+  return {
+    // Currency resolves to a token through the registry; defaults to native SEI
+    amount: Money.parse(findAmount(text) || "1000", currencyMatch ? currencyMatch[1] : "SEI"),
+    clientAddress: addressMatch ? addressMatch[0] : ethers.ZeroAddress,
+    terms: {
+      paymentWindow: 30 * 24 * 60 * 60, // 30 days
+      earlyPaymentDiscountBps: 200, // 2%
+      earlyPaymentDeadline: 0,
+      requiresApproval: false,
+      arbitrator: ethers.ZeroAddress
+    },
+    ipfsHash: "QmDefaultHash123"
+  };
+}
+
+function extractInvoiceId(text: string): number {
+  const match = text.match(/#?(\d+)/);
+  return match ? parseInt(match[1]) : 1;
+}
+
+// "invoice #12", "invoice 12" or "#12"; unlike extractInvoiceId it never picks up an amount
+function extractReferencedInvoiceId(text: string): number {
+  const match = text.match(/\binvoice\s*#?\s*(\d+)\b/i) || text.match(/#\s*(\d+)\b/);
+  if (!match) {
+    throw new Error("Please say which invoice, e.g. \"invoice #12\"");
+  }
+  return parseInt(match[1]);
+}
+
+function stripInvoiceReferences(text: string): string {
+  return text.replace(/\binvoice\s*#?\s*\d+\b/gi, "").replace(/#\s*\d+\b/g, "");
+}
+
+// A quoted reason, or whatever follows "for"/"because"/"reason:"
+function extractReason(text: string): string | undefined {
+  const quoted = text.match(/["“]([^"”]+)["”]/);
+  if (quoted) {
+    return quoted[1].trim();
+  }
+  const match = text.match(/\b(?:because|reason:?|due to)\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+function extractAmendment(text: string, currency: string): { amount?: Money; paymentWindowDays?: number; description?: string } {
+  const stripped = stripInvoiceReferences(text);
+  const amountMatch = stripped.match(/\b(?:amount|total|price)\s+(?:to|=|:|is|of)?\s*(\$?\s*[\d,]+(?:\.\d+)?)/i);
+  const amountValue = amountMatch && findAmount(amountMatch[1]);
+  const windowMatch = stripped.match(/\bnet\s*(\d{1,2})\b|\b(?:payment window|terms|due in)\s+(?:to\s+)?(\d{1,2})\s*days?\b/i);
+  const descriptionMatch = stripped.match(/\bdescription\s+(?:to\s+)?["“]([^"”]+)["”]/i);
+
+  return {
+    amount: amountValue ? Money.parse(amountValue, currency) : undefined,
+    paymentWindowDays: windowMatch ? parseInt(windowMatch[1] || windowMatch[2]) : undefined,
+    description: descriptionMatch ? descriptionMatch[1].trim() : undefined
+  };
+}
+
+/**
+ * Reads "5 day grace period", "2% late fee", "0.1% per day" and "capped at 10%" from the text.
+ * Anything not mentioned keeps its current value; "no late fees" clears the policy.
+ */
+function extractLateFeePolicy(text: string, current: LateFeePolicy): LateFeePolicy {
+  if (/\b(no|remove|disable)\s+(?:the\s+)?late fees?\b/i.test(text)) {
+    return { gracePeriod: 0, flatFeeBps: 0, dailyInterestBps: 0, maxFeeBps: 0 };
+  }
+
+  const percentBps = (value: string) => Math.round(parseFloat(value) * 100);
+  const grace = text.match(/(\d+)[\s-]*days?\s+(?:of\s+)?grace|grace(?:\s+period)?\s+(?:of\s+|to\s+)?(\d+)\s*days?/i);
+  const daily = text.match(/(\d+(?:\.\d+)?)\s*%\s*(?:interest\s+)?(?:per|a|each|every)\s+day|(\d+(?:\.\d+)?)\s*%\s*daily/i);
+  const cap = text.match(/(?:cap(?:ped)?|max(?:imum)?|up to)\s+(?:at\s+|of\s+)?(\d+(?:\.\d+)?)\s*%/i);
+  // A percentage that is neither the daily rate nor the cap is the flat fee
+  const flat = text
+    .replace(daily?.[0] || "", "")
+    .replace(cap?.[0] || "", "")
+    .match(/(\d+(?:\.\d+)?)\s*%/);
+
+  const policy: LateFeePolicy = {
+    gracePeriod: grace ? parseInt(grace[1] || grace[2]) * 24 * 60 * 60 : current.gracePeriod,
+    flatFeeBps: flat ? percentBps(flat[1]) : current.flatFeeBps,
+    dailyInterestBps: daily ? percentBps(daily[1] || daily[2]) : current.dailyInterestBps,
+    maxFeeBps: cap ? percentBps(cap[1]) : current.maxFeeBps
+  };
+
+  if (!grace && !flat && !daily && !cap) {
+    throw new Error("Please describe the policy, e.g. \"2% late fee plus 0.1% per day after a 5 day grace period, capped at 10%\"");
+  }
+  // Without an explicit cap, a fee that the current cap would swallow gets the default one
+  const charges = policy.flatFeeBps > 0 || policy.dailyInterestBps > 0;
+  if (!cap && charges && (policy.maxFeeBps === 0 || policy.maxFeeBps < policy.flatFeeBps)) {
+    policy.maxFeeBps = Math.max(policy.flatFeeBps, DEFAULT_LATE_FEE_CAP_BPS);
+  }
+  return policy;
+}
+
+// Messages about an existing dispute, handled by the evidence, settlement and resolution actions
+const DISPUTE_FOLLOW_UP_PATTERN = /\b(evidence|settlement|settle|resolve|resolution|mediate|propose|accept|arbitrate|split)\b/;
+
+// Resolution strings are stored on-chain, so keep them short
+const MAX_RESOLUTION_LENGTH = 500;
+
+/**
+ * The dispute case for an invoice, opened from the on-chain reason if the dispute
+ * was raised outside the chat
+ */
+async function openDisputeCase(service: SmartContractService, cases: DisputeCases, invoiceId: number): Promise<DisputeCase> {
+  const existing = await cases.get(invoiceId);
+  if (existing && existing.status !== 'resolved') {
+    return existing;
+  }
+
+  const invoice = await service.getInvoice(invoiceId);
+  if (Number(invoice.status) !== STATUS_DISPUTED) {
+    throw new Error(`Invoice #${invoiceId} is ${getStatusText(invoice.status)}, not disputed`);
+  }
+  // Not raised through the agent, whose wallet is the provider's, so most likely by the client
+  return cases.open(invoiceId, await service.getDisputeReason(invoiceId), 'client');
+}
+
+// Quoted text, or whatever follows the first colon
+function extractEvidenceStatement(text: string): string | undefined {
+  const quoted = text.match(/["“]([^"”]+)["”]/);
+  if (quoted) {
+    return quoted[1].trim();
+  }
+  const colon = text.indexOf(":");
+  return colon >= 0 ? text.slice(colon + 1).trim() || undefined : undefined;
+}
+
+// "70% to provider", "40% to the client"
+function extractProviderShareBps(text: string): number | undefined {
+  const match = text.match(/(\d{1,3}(?:\.\d{1,2})?)\s*%\s*(?:to|for)\s+(?:the\s+)?(provider|client)\b/i);
+  if (!match) {
+    return undefined;
+  }
+  const bps = Math.round(parseFloat(match[1]) * 100);
+  return match[2].toLowerCase() === 'provider' ? bps : 10000 - bps;
+}
+
+// Mirrors InvoiceEscrow.resolveDispute: the provider's share rounds down
+function splitEscrow(escrow: Money, providerShareBps: number): [Money, Money] {
+  const providerShare = escrow.basisPoints(providerShareBps);
+  return [providerShare, escrow.subtract(providerShare)];
+}
+
+function countEvidence(dispute: DisputeCase, party: DisputeParty): number {
+  return dispute.evidence.filter(evidence => evidence.party === party).length;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+async function resolveInvoiceMetadata(ipfsHash: string): Promise<any | null> {
+  try {
+    return await MetadataStore.fromEnv().resolve(ipfsHash);
+  } catch (error) {
+    // Missing metadata should not hide the on-chain invoice itself
+    console.error("Error resolving invoice metadata:", error);
+    return null;
+  }
+}
+
+function formatInvoiceMetadata(ipfsHash: string, metadata: any | null): string {
+  if (!metadata) {
+    return `**Metadata:** Not available for \`${ipfsHash}\``;
+  }
+
+  const lineItems = (metadata.lineItems || [])
+    .map((item: any) => `• ${item.description}: ${formatMetadataAmount(item.total, metadata.currency)}`)
+    .join("\n");
+
+  return `**${metadata.title}**\n${metadata.description}\n` +
+    (lineItems ? `\n**Line Items:**\n${lineItems}\n` : "") +
+    formatTaxBreakdown(metadata) +
+    `\n**Metadata CID:** \`${ipfsHash}\``;
+}
+
+function formatTaxBreakdown(metadata: any): string {
+  const tax = metadata.tax;
+  if (!tax) {
+    return "";
+  }
+
+  const rates = (tax.rates || [])
+    .filter((rate: any) => rate.rateBps > 0)
+    .map((rate: any) => `• ${tax.taxName} ${rate.rateBps / 100}% on ${formatMetadataAmount(rate.net, metadata.currency)}: ${formatMetadataAmount(rate.tax, metadata.currency)}`)
+    .join("\n");
+
+  return `\n**Subtotal:** ${formatMetadataAmount(tax.subtotal, metadata.currency)}\n` +
+    (rates ? `${rates}\n` : `• ${tax.taxName}: ${formatMetadataAmount(tax.taxTotal, metadata.currency)}\n`) +
+    `**Total incl. ${tax.taxName}:** ${formatMetadataAmount(tax.total, metadata.currency)}\n` +
+    (tax.note ? `_${tax.note}_\n` : "");
+}
+
+function formatMetadataAmount(value: string | number, currency?: string): string {
+  if (currency && CURRENCY_DECIMALS[currency.toUpperCase()] !== undefined) {
+    return Money.parse(value, currency).format();
+  }
+  return `${value} ${currency || ""}`.trim();
+}
+
+function formatInvoiceHistory(invoice: InvoiceData, history: InvoiceHistory | null): string {
+  if (!history) {
+    return "";
+  }
+
+  const lines: string[] = [];
+  if (history.creditNotes.length > 0) {
+    const notes = history.creditNotes
+      .map(note => `• Credit note #${note.id}: -${note.amount.format()}` + (note.refunded.isZero() ? "" : ` (${note.refunded.format()} refunded)`))
+      .join("\n");
+    lines.push(`**Credit Notes:**\n${notes}`);
+    if (Number(invoice.status) === STATUS_CREATED) {
+      lines.push(`**Amount Due:** ${history.amountDue.format()}`);
+    }
+  }
+  if (history.amendmentOf) {
+    lines.push(`**Amends:** Invoice #${history.amendmentOf}`);
+  }
+  if (history.supersededBy) {
+    lines.push(`**Superseded By:** Invoice #${history.supersededBy}` +
+      (history.latestVersion !== history.supersededBy ? ` (current version: #${history.latestVersion})` : ""));
+  }
+
+  return lines.length > 0 ? `\n${lines.join("\n")}\n` : "";
+}
+
+function formatDisputeResolution(dispute: DisputeResolution | null): string {
+  if (!dispute) {
+    return "";
+  }
+
+  return `\n**Dispute Resolved:** ${dispute.providerShareBps / 100}% to provider (${dispute.providerAmount.format()} after fees), ` +
+    `${(10000 - dispute.providerShareBps) / 100}% to client (${dispute.clientAmount.format()})\n**Resolution:** ${dispute.resolution}\n`;
+}
+
+// The escrow deadline currently running on an invoice, if any
+function pendingDeadline(invoice: InvoiceData): { kind: 'approval' | 'dispute'; at: number } | null {
+  const status = Number(invoice.status);
+  if (status === STATUS_PAID && invoice.approvalDeadline > 0) {
+    return { kind: 'approval', at: invoice.approvalDeadline };
+  }
+  if (status === STATUS_DISPUTED && invoice.disputeDeadline > 0) {
+    return { kind: 'dispute', at: invoice.disputeDeadline };
+  }
+  return null;
+}
+
+function formatDeadline(invoice: InvoiceData, now: number = Date.now()): string {
+  const deadline = pendingDeadline(invoice);
+  if (!deadline) {
+    return "";
+  }
+
+  const passed = deadline.at * 1000 <= now;
+  const date = new Date(deadline.at * 1000).toLocaleString();
+  if (deadline.kind === 'approval') {
+    return `**Approval Deadline:** ${date} ` +
+      (passed ? "(passed: anyone can now release the funds to the provider)\n" : "(funds release to the provider if not approved by then)\n");
+  }
+  return `**Dispute Deadline:** ${date} ` +
+    (passed ? "(passed: anyone can now apply the default 50/50 split)\n" : "(the escrow is split 50/50 if the arbitrator has not resolved it by then)\n");
+}
+
+function getStatusText(status: number): string {
+  const statuses = [
+    "Created", "Paid", "Approved", "Completed", 
+    "Disputed", "Cancelled", "Refunded", "Superseded", "Partially Paid"
+  ];
+  return statuses[status] || "Unknown";
+}
+
+
+export const smartContractPlugin: Plugin = {
+  name: "smartContract",
+  description: "Handles blockchain interactions for invoice management",
+  actions: [
+    createInvoiceAction,
+    getInvoiceAction,
+    issueCreditNoteAction,
+    amendInvoiceAction,
+    setLateFeePolicyAction,
+    raiseDisputeAction,
+    submitDisputeEvidenceAction,
+    proposeSettlementAction,
+    resolveDisputeAction,
+    enforceDeadlineAction
+  ],
   evaluators: [],
   providers: []
 };
\ No newline at end of file
@@ -0,0 +1,60 @@
+// Human-readable ABIs shared by every plugin that talks to the contracts
+
+export const INVOICE_ESCROW_ABI = [
+  "function createInvoice(address client, uint256 amount, address token, tuple(uint256,uint256,uint256,bool,address) terms, string ipfsHash) external returns (uint256)",
+  "function makePayment(uint256 invoiceId) external payable",
+  "function makePartialPayment(uint256 invoiceId, uint256 amount) external payable",
+  "function approveInvoice(uint256 invoiceId) external",
+  "function raiseDispute(uint256 invoiceId, string reason) external",
+  "function resolveDispute(uint256 invoiceId, uint256 providerShareBps, string resolution) external",
+  "function enforceDeadline(uint256 invoiceId) external",
+  "function issueCreditNote(uint256 invoiceId, uint256 amount, string ipfsHash) external payable returns (uint256)",
+  "function setLateFeePolicy(tuple(uint256,uint256,uint256,uint256) policy) external",
+  "function amendInvoice(uint256 invoiceId, uint256 amount, tuple(uint256,uint256,uint256,bool,address) terms, string ipfsHash) external returns (uint256)",
+  "function getInvoice(uint256 invoiceId) external view returns (tuple(uint256,address,address,uint256,address,tuple(uint256,uint256,uint256,bool,address),uint8,uint256,uint256,uint256,string,uint256,uint256,uint256,uint256))",
+  "function getProviderInvoices(address provider) external view returns (uint256[])",
+  "function getClientInvoices(address client) external view returns (uint256[])",
+  "function getEscrowBalance(uint256 invoiceId) external view returns (uint256)",
+  "function getAmountDue(uint256 invoiceId) external view returns (uint256)",
+  "function getPaymentAmount(uint256 invoiceId) external view returns (uint256 amount, uint256 lateFee)",
+  "function getCreditRefund(uint256 invoiceId, uint256 amount) external view returns (uint256)",
+  "function lateFeePolicies(uint256 invoiceId) external view returns (uint256,uint256,uint256,uint256)",
+  "function providerLateFeePolicies(address provider) external view returns (uint256,uint256,uint256,uint256)",
+  "function lateFeesPaid(uint256 invoiceId) external view returns (uint256)",
+  "function getDisputeReason(uint256 invoiceId) external view returns (string)",
+  "function getDisputeResolution(uint256 invoiceId) external view returns (tuple(uint256,uint256,uint256,address,uint256,string))",
+  "function getCreditNotes(uint256 invoiceId) external view returns (tuple(uint256,uint256,uint256,uint256,uint256,string)[])",
+  "function getLatestVersion(uint256 invoiceId) external view returns (uint256)",
+  "function supersededBy(uint256 invoiceId) external view returns (uint256)",
+  "function amendmentOf(uint256 invoiceId) external view returns (uint256)",
+  "function supportedTokens(address token) external view returns (bool)",
+  "function addSupportedToken(address token) external",
+  "function removeSupportedToken(address token) external",
+  "event InvoiceCreated(uint256 indexed invoiceId, address indexed provider, address indexed client, uint256 amount, address token, string ipfsHash)",
+  "event InstallmentPaid(uint256 indexed invoiceId, address indexed payer, uint256 amount, uint256 actualAmount, uint256 balanceDue)",
+  "event PaymentMade(uint256 indexed invoiceId, address indexed payer, uint256 amount, uint256 actualAmount, bool earlyPayment, uint256 lateFee)",
+  "event FundsReleased(uint256 indexed invoiceId, address indexed recipient, uint256 amount, uint256 platformFee)",
+  "event DisputeRaised(uint256 indexed invoiceId, address indexed initiator, string reason)",
+  "event DisputeResolved(uint256 indexed invoiceId, address indexed resolver, uint256 providerShareBps, uint256 providerAmount, uint256 clientAmount, string resolution)",
+  "event DeadlineEnforced(uint256 indexed invoiceId, address indexed caller, uint8 outcome)",
+  "event InvoiceCancelled(uint256 indexed invoiceId, address indexed canceller)",
+  "event CreditNoteIssued(uint256 indexed creditNoteId, uint256 indexed invoiceId, uint256 amount, uint256 refunded, string ipfsHash)",
+  "event LateFeePolicyUpdated(address indexed provider, uint256 gracePeriod, uint256 flatFeeBps, uint256 dailyInterestBps, uint256 maxFeeBps)",
+  "event InvoiceAmended(uint256 indexed originalInvoiceId, uint256 indexed newInvoiceId, uint256 amount, string ipfsHash)",
+  "event SupportedTokenAdded(address indexed token)",
+  "event SupportedTokenRemoved(address indexed token)"
+];
+
+export const ERC20_ABI = [
+  "function decimals() external view returns (uint8)",
+  "function symbol() external view returns (string)",
+  "function balanceOf(address account) external view returns (uint256)",
+  "function allowance(address owner, address spender) external view returns (uint256)",
+  "function approve(address spender, uint256 amount) external returns (bool)"
+];
+
+// Chainlink-style price feed, as read by the oracle exchange rate source
+export const AGGREGATOR_V3_ABI = [
+  "function decimals() external view returns (uint8)",
+  "function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+];
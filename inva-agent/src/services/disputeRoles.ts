@@ -0,0 +1,82 @@
+import { ethers } from "ethers";
+
+/**
+ * Who may act in a dispute. Roles come from configuration and wallet signatures, never from what a
+ * message says about its sender, because evidence feeds the proposed split and the arbitrator moves funds.
+ *
+ * DISPUTE_ARBITRATOR_ADDRESS: independent wallet named as arbitrator on new invoices
+ * DISPUTE_ARBITRATOR_IDS: chat entities allowed to resolve disputes through the agent (comma-separated)
+ * PROVIDER_ENTITY_IDS: chat entities that speak for the provider whose wallet the agent holds (comma-separated)
+ */
+
+export type DisputeParty = 'provider' | 'client';
+
+/**
+ * The arbitrator for a new invoice. Without one configured the invoice names none, which leaves
+ * resolution to the escrow owner and, failing that, the default split at the dispute deadline.
+ * The invoice plugin checks the setting when it starts, so a bad one stops the agent up front.
+ */
+export function invoiceArbitrator(providerAddress?: string): string {
+  const configured = process.env.DISPUTE_ARBITRATOR_ADDRESS;
+  if (!configured) {
+    return ethers.ZeroAddress;
+  }
+  if (!ethers.isAddress(configured)) {
+    throw new Error(`DISPUTE_ARBITRATOR_ADDRESS is not a valid address: ${configured}`);
+  }
+  if (providerAddress && sameAddress(configured, providerAddress)) {
+    throw new Error("DISPUTE_ARBITRATOR_ADDRESS is the provider's own wallet; disputes need an independent arbitrator");
+  }
+  return ethers.getAddress(configured);
+}
+
+export function isDisputeArbitrator(entityId?: string): boolean {
+  return !!entityId && configuredIds('DISPUTE_ARBITRATOR_IDS').includes(entityId);
+}
+
+export function isProviderEntity(entityId?: string): boolean {
+  return !!entityId && configuredIds('PROVIDER_ENTITY_IDS').includes(entityId);
+}
+
+// What a party signs (EIP-191 personal_sign) to raise a dispute or submit evidence
+export function disputeStatementMessage(invoiceId: number, statement: string): string {
+  return `InvoiceEscrow dispute statement\nInvoice: #${invoiceId}\n\n${statement}`;
+}
+
+export function recoverStatementSigner(invoiceId: number, statement: string, signature: string): string {
+  try {
+    return ethers.verifyMessage(disputeStatementMessage(invoiceId, statement), signature);
+  } catch (error) {
+    throw new Error(`Invalid statement signature: ${error.shortMessage || error.message}`);
+  }
+}
+
+/**
+ * Which side of an invoice a statement comes from: whoever's wallet signed it, or the provider when
+ * the sender is configured to speak for it
+ */
+export function identifyParty(
+  invoice: { id: number; provider: string; client: string },
+  statement: string,
+  sender: { entityId?: string; signature?: string }
+): { party: DisputeParty; signer?: string } {
+  if (sender.signature) {
+    const signer = recoverStatementSigner(invoice.id, statement, sender.signature);
+    if (sameAddress(signer, invoice.client)) return { party: 'client', signer };
+    if (sameAddress(signer, invoice.provider)) return { party: 'provider', signer };
+    throw new Error(`The statement was signed by ${signer}, which is not a party to invoice #${invoice.id}`);
+  }
+  if (isProviderEntity(sender.entityId)) {
+    return { party: 'provider' };
+  }
+  throw new Error(`Only the client or provider of invoice #${invoice.id} can do that. ` +
+    `Sign the statement with your wallet and send the signature along with it`);
+}
+
+export function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function configuredIds(name: string): string[] {
+  return (process.env[name] || '').split(',').map(id => id.trim()).filter(Boolean);
+}
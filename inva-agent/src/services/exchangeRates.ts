@@ -0,0 +1,302 @@
+import { ethers } from 'ethers';
+import { promises as fs } from 'fs';
+import path from 'path';
+import Money, { Ratio, decimalsFor, divideRatios } from './money.ts';
+import { AGGREGATOR_V3_ABI } from './contractAbis.ts';
+
+// A source's USD price for one unit of a currency
+export interface RateQuote {
+  currency: string;
+  usd: string; // exact decimal
+  observedAt: number; // ms; when the source priced it, not when it was fetched
+}
+
+export interface ExchangeRateProvider {
+  readonly name: string;
+  // undefined when the source does not price the currency
+  getQuote(currency: string): Promise<RateQuote | undefined>;
+}
+
+/**
+ * The exact rate a conversion used, kept on the invoice or payment it priced so the
+ * conversion can be audited (and reproduced with `convertAt`) later
+ */
+export interface RateSnapshot {
+  from: string;
+  to: string;
+  rate: string; // units of `to` per unit of `from`, to 18 decimal places
+  fromUsd: string; // the two USD prices the rate is derived from; conversions use these exactly
+  toUsd: string;
+  source: string; // provider that priced each side, e.g. "oracle" or "oracle/static"
+  observedAt: string; // the older of the two prices
+  takenAt: string;
+}
+
+export interface ExchangeRateOptions {
+  cacheTtlMs?: number; // how long a fetched quote is reused before asking the sources again
+  maxAgeMs?: number; // quotes observed longer ago than this are refused
+}
+
+// Development defaults; a deployment configures a live source with EXCHANGE_RATE_SOURCES
+export const DEFAULT_STATIC_RATES: Record<string, string> = {
+  USD: '1',
+  USDC: '1',
+  USDT: '1',
+  SEI: '0.15',
+  ETH: '2400',
+  BTC: '45000'
+};
+
+const DEFAULT_CACHE_TTL_MS = 60_000;
+const DEFAULT_MAX_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Fixed table of USD prices. Never stale, so it belongs last in a chain of sources.
+ */
+export class StaticRateProvider implements ExchangeRateProvider {
+  readonly name = 'static';
+  private rates: Record<string, string>;
+
+  constructor(rates: Record<string, string | number> = DEFAULT_STATIC_RATES) {
+    this.rates = Object.fromEntries(Object.entries(rates).map(([currency, usd]) => [currency.toUpperCase(), toDecimalString(usd)]));
+  }
+
+  async getQuote(currency: string): Promise<RateQuote | undefined> {
+    const usd = this.rates[currency];
+    return usd ? { currency, usd, observedAt: Date.now() } : undefined;
+  }
+}
+
+/**
+ * Prices from a JSON feed of the form { "updatedAt": "<ISO date or unix seconds>", "rates": { "SEI": 0.15 } }
+ * in USD per unit. Without `updatedAt` the feed counts as observed when it was last modified.
+ */
+export class JsonFileRateProvider implements ExchangeRateProvider {
+  readonly name = 'file';
+  private file: string;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  async getQuote(currency: string): Promise<RateQuote | undefined> {
+    const [contents, stats] = await Promise.all([fs.readFile(this.file, 'utf8'), fs.stat(this.file)]);
+    return quoteFromFeed(JSON.parse(contents), currency, stats.mtimeMs);
+  }
+}
+
+/**
+ * Prices from an HTTP endpoint returning the same shape as the JSON file feed
+ */
+export class HttpRateProvider implements ExchangeRateProvider {
+  readonly name = 'http';
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number = 10000) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async getQuote(currency: string): Promise<RateQuote | undefined> {
+    const response = await fetch(this.url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`Price API returned HTTP ${response.status}`);
+    }
+    return quoteFromFeed(await response.json(), currency, Date.now());
+  }
+}
+
+/**
+ * Prices from Chainlink-style USD price feeds (AggregatorV3Interface), one contract per currency
+ */
+export class OracleRateProvider implements ExchangeRateProvider {
+  readonly name = 'oracle';
+  private provider: ethers.Provider;
+  private feeds: Record<string, string>;
+
+  constructor(provider: ethers.Provider, feeds: Record<string, string>) {
+    this.provider = provider;
+    this.feeds = Object.fromEntries(Object.entries(feeds).map(([currency, address]) => [currency.toUpperCase(), address]));
+  }
+
+  async getQuote(currency: string): Promise<RateQuote | undefined> {
+    const address = this.feeds[currency];
+    if (!address) return undefined;
+
+    const feed = new ethers.Contract(address, AGGREGATOR_V3_ABI, this.provider);
+    const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+    const answer: bigint = round[1];
+    if (answer <= 0n) {
+      throw new Error(`Price feed ${address} reported a non-positive ${currency} price`);
+    }
+    return { currency, usd: ethers.formatUnits(answer, decimals), observedAt: Number(round[3]) * 1000 };
+  }
+}
+
+// One service per process, so every plugin and message shares the same cache
+let shared: ExchangeRates | undefined;
+
+/**
+ * Converts between currencies through USD prices from a chain of sources, tried in order until
+ * one has a fresh quote. Quotes are cached for `cacheTtlMs`, and a quote observed more than
+ * `maxAgeMs` ago is never used: a conversion fails rather than silently pricing at an old rate.
+ */
+export default class ExchangeRates {
+  private providers: ExchangeRateProvider[];
+  private cacheTtlMs: number;
+  private maxAgeMs: number;
+  private cache: Map<string, { quote: RateQuote; source: string; fetchedAt: number }> = new Map();
+
+  constructor(providers: ExchangeRateProvider[], options: ExchangeRateOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error('At least one exchange rate source is required');
+    }
+    this.providers = providers;
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  }
+
+  /**
+   * Sources named in EXCHANGE_RATE_SOURCES (e.g. "oracle,http,static"; the static table by default):
+   * EXCHANGE_RATE_ORACLES ("SEI:0x...,ETH:0x..."), EXCHANGE_RATE_API_URL and EXCHANGE_RATE_FILE
+   * configure them, EXCHANGE_RATE_MAX_AGE_MS and EXCHANGE_RATE_CACHE_MS the limits
+   */
+  static shared(): ExchangeRates {
+    if (!shared) {
+      shared = new ExchangeRates(
+        (process.env.EXCHANGE_RATE_SOURCES || 'static').split(',').map(name => providerFromEnv(name.trim())),
+        {
+          maxAgeMs: parseInt(process.env.EXCHANGE_RATE_MAX_AGE_MS || '') || undefined,
+          cacheTtlMs: parseInt(process.env.EXCHANGE_RATE_CACHE_MS || '') || undefined
+        }
+      );
+    }
+    return shared;
+  }
+
+  async snapshot(from: string, to: string, now: Date = new Date()): Promise<RateSnapshot> {
+    const [fromQuote, toQuote] = await Promise.all([this.quote(from.toUpperCase(), now), this.quote(to.toUpperCase(), now)]);
+    const ratio = divideRatios(fromQuote.usd, toQuote.usd);
+    return {
+      from: fromQuote.currency,
+      to: toQuote.currency,
+      rate: formatRatio(ratio),
+      fromUsd: fromQuote.usd,
+      toUsd: toQuote.usd,
+      source: fromQuote.source === toQuote.source ? fromQuote.source : `${fromQuote.source}/${toQuote.source}`,
+      observedAt: new Date(Math.min(fromQuote.observedAt, toQuote.observedAt)).toISOString(),
+      takenAt: now.toISOString()
+    };
+  }
+
+  async convert(amount: Money, to: string, now: Date = new Date()): Promise<{ amount: Money; snapshot: RateSnapshot }> {
+    const snapshot = await this.snapshot(amount.currency, to, now);
+    return { amount: convertAt(amount, snapshot), snapshot };
+  }
+
+  private async quote(currency: string, now: Date): Promise<RateQuote & { source: string }> {
+    // The pivot currency is priced by definition
+    if (currency === 'USD') {
+      return { currency, usd: '1', observedAt: now.getTime(), source: 'identity' };
+    }
+
+    const cached = this.cache.get(currency);
+    if (cached && now.getTime() - cached.fetchedAt < this.cacheTtlMs && this.isFresh(cached.quote, now)) {
+      return { ...cached.quote, source: cached.source };
+    }
+
+    const problems: string[] = [];
+    for (const provider of this.providers) {
+      try {
+        const quote = await provider.getQuote(currency);
+        if (!quote) {
+          problems.push(`${provider.name}: not listed`);
+          continue;
+        }
+        if (!this.isFresh(quote, now)) {
+          problems.push(`${provider.name}: stale (observed ${new Date(quote.observedAt).toISOString()})`);
+          continue;
+        }
+        this.cache.set(currency, { quote, source: provider.name, fetchedAt: now.getTime() });
+        return { ...quote, source: provider.name };
+      } catch (error) {
+        problems.push(`${provider.name}: ${error.message}`);
+      }
+    }
+
+    // Every source failed; a cached quote still inside the staleness limit beats no quote
+    if (cached && this.isFresh(cached.quote, now)) {
+      console.warn(`⚠️ Using cached ${currency} rate from ${cached.source}:`, problems.join('; '));
+      return { ...cached.quote, source: cached.source };
+    }
+    throw new Error(`No current exchange rate for ${currency} (${problems.join('; ')})`);
+  }
+
+  private isFresh(quote: RateQuote, now: Date): boolean {
+    return now.getTime() - quote.observedAt <= this.maxAgeMs;
+  }
+}
+
+/**
+ * `amount` converted at a snapshot's rate, reproducing the original conversion exactly
+ */
+export function convertAt(amount: Money, snapshot: RateSnapshot, decimals: number = decimalsFor(snapshot.to)): Money {
+  if (amount.currency !== snapshot.from) {
+    throw new Error(`Rate snapshot converts ${snapshot.from}, not ${amount.currency}`);
+  }
+  return amount.convert(snapshot.to, divideRatios(snapshot.fromUsd, snapshot.toUsd), decimals);
+}
+
+function providerFromEnv(name: string): ExchangeRateProvider {
+  switch (name) {
+    case 'static':
+      return new StaticRateProvider();
+    case 'file':
+      return new JsonFileRateProvider(process.env.EXCHANGE_RATE_FILE || path.join(process.cwd(), 'data', 'exchange-rates.json'));
+    case 'http':
+      if (!process.env.EXCHANGE_RATE_API_URL) {
+        throw new Error('EXCHANGE_RATE_API_URL is required for the http exchange rate source');
+      }
+      return new HttpRateProvider(process.env.EXCHANGE_RATE_API_URL);
+    case 'oracle': {
+      const feeds = Object.fromEntries((process.env.EXCHANGE_RATE_ORACLES || '')
+        .split(',')
+        .filter(Boolean)
+        .map(entry => entry.split(':').map(part => part.trim())));
+      const provider = new ethers.JsonRpcProvider(process.env.SEI_RPC_URL || 'https://evm-rpc-testnet.sei-apis.com');
+      return new OracleRateProvider(provider, feeds);
+    }
+    default:
+      throw new Error(`Unknown exchange rate source: ${name}`);
+  }
+}
+
+function quoteFromFeed(feed: any, currency: string, fallbackObservedAt: number): RateQuote | undefined {
+  const entry = Object.entries(feed?.rates || {}).find(([code]) => code.toUpperCase() === currency);
+  if (!entry) return undefined;
+
+  const updatedAt = feed.updatedAt;
+  const observedAt = updatedAt === undefined
+    ? fallbackObservedAt
+    : typeof updatedAt === 'number' ? updatedAt * 1000 : Date.parse(updatedAt);
+  if (!Number.isFinite(observedAt)) {
+    throw new Error(`Invalid updatedAt in rate feed: ${updatedAt}`);
+  }
+  return { currency, usd: toDecimalString(entry[1] as string | number), observedAt };
+}
+
+// JSON numbers such as 1e-7 become plain decimals; prices must be positive
+function toDecimalString(value: string | number): string {
+  const text = typeof value === 'number'
+    ? (/e/i.test(String(value)) ? value.toFixed(20).replace(/\.?0+$/, '') : String(value))
+    : String(value).trim();
+  if (!/^\d+(\.\d+)?$/.test(text) || !/[1-9]/.test(text)) {
+    throw new Error(`Invalid price: ${value}`);
+  }
+  return text;
+}
+
+function formatRatio(ratio: Ratio): string {
+  return Money.fromMinor(1n, 'RATE', 0).convert('RATE', ratio, 18).toDecimalString();
+}
@@ -0,0 +1,185 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { createHash } from 'crypto';
+import RuntimeStore from './runtimeStore.ts';
+
+// failed: the operation threw after saving a checkpoint, so it may have taken effect
+export interface IdempotencyRecord<T, C = unknown> {
+  key: string;
+  status: 'in-progress' | 'completed' | 'failed';
+  result?: T;
+  checkpoint?: C; // progress saved before the side effect, for the next attempt to reconcile
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Handed to an operation so it can record progress before doing anything irreversible
+export interface IdempotentAttempt<C> {
+  checkpoint?: C; // saved by an earlier attempt that failed, or was interrupted, after saving it
+  save(checkpoint: C): Promise<void>;
+}
+
+export interface IdempotentResult<T> {
+  result: T;
+  replayed: boolean; // true when an earlier call with the same key produced the result
+}
+
+// What makes two invoice requests "the same" when the caller did not supply a key
+export interface InvoiceFingerprint {
+  providerId: string;
+  clientAddress: string;
+  amount: string;
+  currency: string;
+  description: string;
+}
+
+export const DEFAULT_WINDOW_MS = 10 * 60 * 1000;
+export const EXPLICIT_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const STALE_IN_PROGRESS_MS = 15 * 60 * 1000; // an operation this old was interrupted (e.g. by a restart)
+
+// Operations running in this process, so a concurrent duplicate waits for the first one's result
+const inFlight: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Remembers the outcome of side-effecting operations by key, so a repeated request
+ * (retried chat message, double-clicked submit) gets the original result instead of
+ * performing the operation again. A failed operation can be retried; if it failed after saving a
+ * checkpoint (e.g. a transaction may have been sent), the retry receives that checkpoint so it can
+ * find out what happened before acting again.
+ */
+export default class IdempotencyStore<T, C = unknown> {
+  private store: RuntimeStore<IdempotencyRecord<T, C>>;
+  private namespace: string;
+
+  constructor(runtime: IAgentRuntime, namespace: string) {
+    this.store = new RuntimeStore<IdempotencyRecord<T, C>>(runtime, `idempotency:${namespace}`);
+    this.namespace = namespace;
+  }
+
+  async get(key: string, now: Date = new Date()): Promise<IdempotencyRecord<T, C> | undefined> {
+    const record = await this.store.get(key);
+    return record && !isExpired(record, now) ? record : undefined;
+  }
+
+  async run(key: string, ttlMs: number, operation: (attempt: IdempotentAttempt<C>) => Promise<T>): Promise<IdempotentResult<T>> {
+    const flightKey = `${this.namespace}:${key}`;
+    const pending = inFlight.get(flightKey) as Promise<IdempotentResult<T>> | undefined;
+    if (pending) {
+      return { result: (await pending).result, replayed: true };
+    }
+
+    // Registered before the first await, so a duplicate arriving meanwhile finds it
+    const attempt = this.claimAndExecute(key, ttlMs, operation);
+    inFlight.set(flightKey, attempt);
+    try {
+      return await attempt;
+    } finally {
+      inFlight.delete(flightKey);
+    }
+  }
+
+  /**
+   * Replaces a completed result, e.g. once a queued invoice has landed on-chain
+   */
+  async updateResult(key: string, result: T): Promise<void> {
+    await this.store.update(key, record => record && record.status === 'completed' ? { ...record, result } : undefined);
+  }
+
+  async prune(now: Date = new Date()): Promise<number> {
+    const expired = await this.store.list(record => isExpired(record, now));
+    for (const record of expired) {
+      await this.store.delete(record.key);
+    }
+    return expired.length;
+  }
+
+  private async claimAndExecute(key: string, ttlMs: number, operation: (attempt: IdempotentAttempt<C>) => Promise<T>): Promise<IdempotentResult<T>> {
+    const now = new Date();
+    let existing = undefined as IdempotencyRecord<T, C> | undefined;
+    const claimed = await this.store.update(key, record => {
+      const live = record && !isExpired(record, now);
+      if (live && record.status !== 'failed' && !isStale(record, now)) {
+        existing = record;
+        return undefined;
+      }
+      return {
+        key,
+        status: 'in-progress',
+        // An earlier attempt that may have taken effect hands its progress on
+        checkpoint: live ? record.checkpoint : undefined,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + ttlMs).toISOString()
+      };
+    });
+
+    if (!claimed) {
+      if (existing?.status === 'completed') {
+        return { result: existing.result as T, replayed: true };
+      }
+      throw new Error(`A request with idempotency key ${key} is already in progress`);
+    }
+
+    let checkpoint = claimed.checkpoint;
+    const attempt: IdempotentAttempt<C> = {
+      checkpoint,
+      save: async (progress: C) => {
+        checkpoint = progress;
+        await this.store.update(key, record => record && { ...record, checkpoint: progress });
+      }
+    };
+
+    let result: T;
+    try {
+      result = await operation(attempt);
+    } catch (error) {
+      if (checkpoint === undefined) {
+        // Nothing happened, so the same key may try again from scratch
+        await this.store.delete(key);
+      } else {
+        // It may have taken effect; the next attempt gets the checkpoint to reconcile against
+        await this.store.set(key, { ...claimed, status: 'failed', checkpoint });
+      }
+      throw error;
+    }
+
+    await this.store.set(key, { ...claimed, status: 'completed', result, checkpoint: undefined });
+    return { result, replayed: false };
+  }
+}
+
+/**
+ * Key for a request without an explicit one: same provider, client, amount, currency and description
+ */
+export function deriveInvoiceKey(fingerprint: InvoiceFingerprint): string {
+  const descriptionHash = sha256(fingerprint.description.trim().replace(/\s+/g, ' ').toLowerCase());
+  const parts = [
+    fingerprint.providerId,
+    fingerprint.clientAddress.toLowerCase(),
+    fingerprint.amount,
+    fingerprint.currency.toUpperCase(),
+    descriptionHash
+  ];
+  return `auto:${sha256(parts.join('|'))}`;
+}
+
+// Caller-supplied keys are scoped to the provider, so two providers can't collide
+export function scopeIdempotencyKey(providerId: string, key: string): string {
+  return `key:${sha256(`${providerId}|${key}`)}`;
+}
+
+// How long a derived key suppresses duplicates; INVOICE_IDEMPOTENCY_WINDOW_MS overrides the default
+export function idempotencyWindowMs(): number {
+  const configured = parseInt(process.env.INVOICE_IDEMPOTENCY_WINDOW_MS || '');
+  return configured > 0 ? configured : DEFAULT_WINDOW_MS;
+}
+
+function isExpired(record: IdempotencyRecord<unknown>, now: Date): boolean {
+  return new Date(record.expiresAt) <= now;
+}
+
+function isStale(record: IdempotencyRecord<unknown>, now: Date): boolean {
+  return record.status === 'in-progress' && now.getTime() - new Date(record.createdAt).getTime() > STALE_IN_PROGRESS_MS;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
@@ -0,0 +1,72 @@
+import Money from './money.ts';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Mirrors InvoiceEscrow.LateFeePolicy; all zero means late payments carry no fee
+export interface LateFeePolicy {
+  gracePeriod: number; // seconds after the due date during which no fee is charged
+  flatFeeBps: number; // one-off fee once the grace period has passed
+  dailyInterestBps: number; // per full day late, counted from the due date
+  maxFeeBps: number; // cap on flat fee plus interest
+}
+
+export const NO_LATE_FEE: LateFeePolicy = { gracePeriod: 0, flatFeeBps: 0, dailyInterestBps: 0, maxFeeBps: 0 };
+
+// Limits enforced by setLateFeePolicy
+export const MAX_GRACE_PERIOD_DAYS = 30;
+export const MAX_DAILY_INTEREST_BPS = 100;
+export const MAX_LATE_FEE_BPS = 2500;
+
+/**
+ * The late fee InvoiceEscrow.makePayment adds when `amountDue` is paid at `paidAt` (unix seconds).
+ * Rounds down in the token's base units, exactly like the contract.
+ */
+export function calculateLateFee(amountDue: Money, dueDate: number, policy: LateFeePolicy, paidAt: number): Money {
+  if (paidAt <= dueDate + policy.gracePeriod) {
+    return Money.zero(amountDue.currency, amountDue.decimals);
+  }
+
+  const daysLate = Math.floor((paidAt - dueDate) / DAY_SECONDS);
+  const feeBps = Math.min(policy.flatFeeBps + daysLate * policy.dailyInterestBps, policy.maxFeeBps);
+  return amountDue.basisPoints(feeBps);
+}
+
+// From the tuple returned by lateFeePolicies(invoiceId) / providerLateFeePolicies(provider)
+export function lateFeePolicyFromChain(raw: any): LateFeePolicy {
+  return {
+    gracePeriod: Number(raw[0]),
+    flatFeeBps: Number(raw[1]),
+    dailyInterestBps: Number(raw[2]),
+    maxFeeBps: Number(raw[3])
+  };
+}
+
+export function validateLateFeePolicy(policy: LateFeePolicy): string[] {
+  const errors: string[] = [];
+
+  if (policy.gracePeriod < 0 || policy.gracePeriod > MAX_GRACE_PERIOD_DAYS * DAY_SECONDS) {
+    errors.push(`Grace period must be between 0 and ${MAX_GRACE_PERIOD_DAYS} days`);
+  }
+  if (policy.dailyInterestBps < 0 || policy.dailyInterestBps > MAX_DAILY_INTEREST_BPS) {
+    errors.push(`Daily interest must be between 0% and ${MAX_DAILY_INTEREST_BPS / 100}%`);
+  }
+  if (policy.maxFeeBps < 0 || policy.maxFeeBps > MAX_LATE_FEE_BPS) {
+    errors.push(`Late fee cap must be between 0% and ${MAX_LATE_FEE_BPS / 100}%`);
+  }
+  if (policy.flatFeeBps < 0 || policy.flatFeeBps > policy.maxFeeBps) {
+    errors.push("Flat fee cannot exceed the late fee cap");
+  }
+
+  return errors;
+}
+
+export function describeLateFeePolicy(policy: LateFeePolicy): string {
+  if (policy.maxFeeBps === 0) {
+    return "No late fees";
+  }
+
+  const parts = [];
+  if (policy.flatFeeBps > 0) parts.push(`${policy.flatFeeBps / 100}% flat`);
+  if (policy.dailyInterestBps > 0) parts.push(`${policy.dailyInterestBps / 100}% per day`);
+  return `${parts.join(' + ') || 'No fee'} after a ${policy.gracePeriod / DAY_SECONDS}-day grace period, capped at ${policy.maxFeeBps / 100}%`;
+}
@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// CIDv1 building blocks (multicodec table): json codec + sha2-256 multihash
+const CID_VERSION = 0x01;
+const JSON_CODEC = 0x0200;
+const SHA2_256 = 0x12;
+const BASE32_PREFIX = 'b';
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export interface Blockstore {
+  put(cid: string, bytes: Uint8Array): Promise<void>;
+  get(cid: string): Promise<Uint8Array | null>;
+}
+
+export interface PinnedMetadata {
+  cid: string;
+  size: number;
+}
+
+/**
+ * Stores blocks as plain files named by their CID.
+ * Used by default so invoice metadata survives agent restarts without an IPFS node.
+ */
+export class FileSystemBlockstore implements Blockstore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async put(cid: string, bytes: Uint8Array): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const target = path.join(this.directory, cid);
+    const tempFile = `${target}.${process.pid}.tmp`;
+
+    // Write then rename so a crash never leaves a truncated block behind
+    await fs.writeFile(tempFile, bytes);
+    await fs.rename(tempFile, target);
+  }
+
+  async get(cid: string): Promise<Uint8Array | null> {
+    try {
+      return await fs.readFile(path.join(this.directory, cid));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Talks to the block API of an IPFS (Kubo) node, e.g. http://127.0.0.1:5001
+ */
+export class IpfsHttpBlockstore implements Blockstore {
+  private apiUrl: string;
+  private timeoutMs: number;
+
+  constructor(apiUrl: string, timeoutMs: number = 10000) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+    this.timeoutMs = timeoutMs;
+  }
+
+  async put(cid: string, bytes: Uint8Array): Promise<void> {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(bytes)]));
+
+    const response = await fetch(
+      `${this.apiUrl}/api/v0/block/put?cid-codec=json&mhtype=sha2-256&pin=true`,
+      { method: 'POST', body: form, signal: AbortSignal.timeout(this.timeoutMs) }
+    );
+
+    if (!response.ok) {
+      throw new Error(`IPFS block/put failed with HTTP ${response.status}`);
+    }
+
+    const result = await response.json();
+    if (result.Key !== cid) {
+      throw new Error(`IPFS node returned CID ${result.Key}, expected ${cid}`);
+    }
+  }
+
+  async get(cid: string): Promise<Uint8Array | null> {
+    const response = await fetch(
+      `${this.apiUrl}/api/v0/block/get?arg=${encodeURIComponent(cid)}`,
+      { method: 'POST', signal: AbortSignal.timeout(this.timeoutMs) }
+    );
+
+    if (!response.ok) {
+      return null;
+    }
+
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Content-addressed store for invoice metadata.
+ * The CID returned by pin() is what goes on-chain as the invoice's ipfsHash.
+ */
+export default class MetadataStore {
+  private blockstore: Blockstore;
+
+  constructor(blockstore: Blockstore) {
+    this.blockstore = blockstore;
+  }
+
+  static fromEnv(): MetadataStore {
+    if (process.env.METADATA_STORE === 'ipfs') {
+      return new MetadataStore(
+        new IpfsHttpBlockstore(process.env.IPFS_API_URL || 'http://127.0.0.1:5001')
+      );
+    }
+
+    const directory = process.env.METADATA_STORE_DIR || path.join(process.cwd(), 'data', 'metadata');
+    return new MetadataStore(new FileSystemBlockstore(directory));
+  }
+
+  async pin(metadata: object): Promise<PinnedMetadata> {
+    try {
+      const bytes = Buffer.from(canonicalJson(metadata), 'utf8');
+      const cid = computeCid(bytes);
+
+      await this.blockstore.put(cid, bytes);
+
+      return { cid, size: bytes.length };
+    } catch (error) {
+      throw new Error(`Failed to pin invoice metadata: ${error.message}`);
+    }
+  }
+
+  async resolve<T = any>(cid: string): Promise<T | null> {
+    // Legacy invoices carry placeholder hashes (e.g. QmMock...) that were never stored
+    if (!isCidV1(cid)) {
+      return null;
+    }
+
+    const bytes = await this.blockstore.get(cid);
+    if (!bytes) {
+      return null;
+    }
+
+    if (computeCid(bytes) !== cid) {
+      throw new Error(`Metadata block ${cid} does not match its content hash`);
+    }
+
+    return JSON.parse(Buffer.from(bytes).toString('utf8')) as T;
+  }
+}
+
+export function computeCid(bytes: Uint8Array): string {
+  const digest = createHash('sha256').update(bytes).digest();
+
+  const cidBytes = Buffer.concat([
+    encodeVarint(CID_VERSION),
+    encodeVarint(JSON_CODEC),
+    encodeVarint(SHA2_256),
+    encodeVarint(digest.length),
+    digest
+  ]);
+
+  return BASE32_PREFIX + encodeBase32(cidBytes);
+}
+
+export function isCidV1(value: string): boolean {
+  return typeof value === 'string' && /^b[a-z2-7]{50,}$/.test(value);
+}
+
+// Sorted keys so identical metadata always serializes (and hashes) the same way
+function canonicalJson(value: any): string {
+  return JSON.stringify(sortKeys(value));
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .reduce((sorted: Record<string, any>, key) => {
+        sorted[key] = sortKeys(value[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+}
+
+function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+
+  while (remaining >= 0x80) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining >>>= 7;
+  }
+  bytes.push(remaining);
+
+  return Buffer.from(bytes);
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
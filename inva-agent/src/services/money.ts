@@ -0,0 +1,387 @@
+/**
+ * Exact money arithmetic shared by every plugin.
+ *
+ * Amounts are held as bigint minor units (cents, token base units, wei) together with
+ * their currency and decimals, so no value ever passes through a float.
+ *
+ * Rounding rules:
+ * - Discounts and fees round down (toward zero), exactly like Solidity integer division
+ *   in InvoiceEscrow, so an off-chain quote always equals what the contract charges.
+ * - Parsing, quantity multiplication and currency conversion round half-up.
+ * - Allocation never rounds: remainders go to the first parts so parts always sum to the whole.
+ */
+
+export type RoundingMode = 'down' | 'floor' | 'ceil' | 'half-up' | 'half-even'; // down: toward zero; floor: toward -infinity
+
+export interface Ratio {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+export interface MoneyJSON {
+  amount: string;
+  minor: string;
+  currency: string;
+  decimals: number;
+}
+
+export const CURRENCY_DECIMALS: Record<string, number> = {
+  USD: 2,
+  USDC: 6,
+  USDT: 6,
+  SEI: 18,
+  ETH: 18,
+  BTC: 8
+};
+
+const BPS_DENOMINATOR = 10000n;
+
+export default class Money {
+  readonly minor: bigint;
+  readonly currency: string;
+  readonly decimals: number;
+
+  private constructor(minor: bigint, currency: string, decimals: number) {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+      throw new Error(`Invalid decimals for ${currency}: ${decimals}`);
+    }
+    this.minor = minor;
+    this.currency = currency.toUpperCase();
+    this.decimals = decimals;
+  }
+
+  static fromMinor(minor: bigint | string, currency: string, decimals: number = decimalsFor(currency)): Money {
+    return new Money(BigInt(minor), currency, decimals);
+  }
+
+  static zero(currency: string, decimals: number = decimalsFor(currency)): Money {
+    return new Money(0n, currency, decimals);
+  }
+
+  /**
+   * Parses "$1,234,567.89", "1234.5", 1234.5 or "1.5e3" into an exact amount.
+   */
+  static parse(
+    value: string | number,
+    currency: string,
+    decimals: number = decimalsFor(currency),
+    rounding: RoundingMode = 'half-up'
+  ): Money {
+    const { digits, scale } = parseDecimal(value);
+    return new Money(rescaleInteger(digits, scale, decimals, rounding), currency, decimals);
+  }
+
+  static fromJSON(json: MoneyJSON): Money {
+    return new Money(BigInt(json.minor), json.currency, json.decimals);
+  }
+
+  static sum(amounts: Money[], currency: string, decimals: number = decimalsFor(currency)): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.zero(currency, decimals));
+  }
+
+  add(other: Money): Money {
+    this.assertCompatible(other);
+    return new Money(this.minor + other.minor, this.currency, this.decimals);
+  }
+
+  subtract(other: Money): Money {
+    this.assertCompatible(other);
+    return new Money(this.minor - other.minor, this.currency, this.decimals);
+  }
+
+  /**
+   * Multiplies by a decimal factor such as a quantity ("2.5") or a markup ("1.02").
+   */
+  multiply(factor: string | number, rounding: RoundingMode = 'half-up'): Money {
+    const { digits, scale } = parseDecimal(factor);
+    return new Money(divideRounded(this.minor * digits, 10n ** BigInt(scale), rounding), this.currency, this.decimals);
+  }
+
+  /**
+   * Multiplies by an exact fraction, e.g. 12/30 of a monthly fee for a partial period.
+   */
+  prorate(numerator: number | bigint, denominator: number | bigint, rounding: RoundingMode = 'half-up'): Money {
+    if (BigInt(denominator) <= 0n) {
+      throw new Error('Proration denominator must be positive');
+    }
+    return new Money(divideRounded(this.minor * BigInt(numerator), BigInt(denominator), rounding), this.currency, this.decimals);
+  }
+
+  /**
+   * The given share of this amount in basis points (100 = 1%), rounded toward zero by default
+   * so a credit's share is the exact negative of the matching charge's.
+   */
+  basisPoints(bps: number | bigint, rounding: RoundingMode = 'down'): Money {
+    return new Money(divideRounded(this.minor * BigInt(bps), BPS_DENOMINATOR, rounding), this.currency, this.decimals);
+  }
+
+  /**
+   * Amount after an early-payment discount, computed the way InvoiceEscrow.makePayment does.
+   */
+  applyDiscountBps(bps: number | bigint): Money {
+    return this.subtract(this.basisPoints(bps));
+  }
+
+  /**
+   * Converts into another currency. The rate is units of the target currency per unit of this one.
+   */
+  convert(
+    currency: string,
+    rate: string | number | Ratio,
+    decimals: number = decimalsFor(currency),
+    rounding: RoundingMode = 'half-up'
+  ): Money {
+    const { numerator, denominator } = toRatio(rate);
+    if (numerator < 0n || denominator <= 0n) {
+      throw new Error(`Invalid conversion rate ${this.currency}->${currency}`);
+    }
+
+    const minor = divideRounded(
+      this.minor * numerator * 10n ** BigInt(decimals),
+      denominator * 10n ** BigInt(this.decimals),
+      rounding
+    );
+    return new Money(minor, currency, decimals);
+  }
+
+  /**
+   * Same value expressed with a different number of decimals (e.g. 2-decimal USD to a 6-decimal stablecoin).
+   */
+  rescale(decimals: number, rounding: RoundingMode = 'half-up'): Money {
+    return new Money(rescaleInteger(this.minor, this.decimals, decimals, rounding), this.currency, decimals);
+  }
+
+  /**
+   * Splits into parts proportional to the given weights without losing a single minor unit.
+   * Weights are whole numbers, or amounts weighted by their minor units (e.g. line item nets).
+   */
+  allocate(weights: Array<number | bigint | Money>): Money[] {
+    if (weights.length === 0) {
+      return [];
+    }
+
+    const scaled = weights.map(allocationWeight);
+    const totalWeight = scaled.reduce((sum, weight) => sum + weight, 0n);
+    if (totalWeight <= 0n) {
+      throw new Error('Allocation weights must add up to more than zero');
+    }
+
+    const parts = scaled.map(weight => (this.minor * weight) / totalWeight);
+    let remainder = this.minor - parts.reduce((sum, part) => sum + part, 0n);
+
+    for (let i = 0; remainder !== 0n; i = (i + 1) % parts.length) {
+      const step = remainder > 0n ? 1n : -1n;
+      parts[i] += step;
+      remainder -= step;
+    }
+
+    return parts.map(part => new Money(part, this.currency, this.decimals));
+  }
+
+  compare(other: Money): number {
+    this.assertCompatible(other);
+    return this.minor === other.minor ? 0 : this.minor > other.minor ? 1 : -1;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.decimals === other.decimals && this.minor === other.minor;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  isZero(): boolean {
+    return this.minor === 0n;
+  }
+
+  isPositive(): boolean {
+    return this.minor > 0n;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0n;
+  }
+
+  /**
+   * Exact decimal representation without trailing zeros, e.g. "1234.5"
+   */
+  toDecimalString(): string {
+    return this.toFixed(this.decimals).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+  }
+
+  /**
+   * Decimal representation with exactly the given number of fraction digits (rounded half-up)
+   */
+  toFixed(fractionDigits: number = this.decimals): string {
+    const minor = rescaleInteger(this.minor, this.decimals, fractionDigits, 'half-up');
+    const negative = minor < 0n;
+    const digits = (negative ? -minor : minor).toString().padStart(fractionDigits + 1, '0');
+
+    const integerPart = digits.slice(0, digits.length - fractionDigits);
+    const fractionPart = digits.slice(digits.length - fractionDigits);
+
+    return `${negative ? '-' : ''}${integerPart}${fractionDigits > 0 ? `.${fractionPart}` : ''}`;
+  }
+
+  /**
+   * Only for ratios, charts and other non-monetary maths
+   */
+  toNumber(): number {
+    return Number(this.toDecimalString());
+  }
+
+  /**
+   * Human readable, e.g. "1,234.50 USDC"
+   */
+  format(maxFractionDigits: number = 6): string {
+    const fractionDigits = Math.min(this.decimals, maxFractionDigits);
+    const [integerPart, fractionPart = ''] = this.toFixed(fractionDigits).split('.');
+
+    const grouped = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    const fraction = fractionPart.replace(/0+$/, '').padEnd(Math.min(2, fractionDigits), '0');
+
+    return `${grouped}${fraction ? `.${fraction}` : ''} ${this.currency}`;
+  }
+
+  toJSON(): MoneyJSON {
+    return {
+      amount: this.toDecimalString(),
+      minor: this.minor.toString(),
+      currency: this.currency,
+      decimals: this.decimals
+    };
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  private assertCompatible(other: Money) {
+    if (this.currency !== other.currency || this.decimals !== other.decimals) {
+      throw new Error(`Cannot combine ${this.currency}/${this.decimals} with ${other.currency}/${other.decimals}`);
+    }
+  }
+}
+
+export function decimalsFor(currency: string): number {
+  const decimals = CURRENCY_DECIMALS[currency.toUpperCase()];
+  if (decimals === undefined) {
+    throw new Error(`Unknown currency: ${currency}`);
+  }
+  return decimals;
+}
+
+/**
+ * Finds the first amount in free text and returns it as a plain decimal string,
+ * e.g. "invoice for $1,234,567.50" -> "1234567.50"
+ */
+export function findAmount(text: string): string | null {
+  const match = text.match(/\$?\s*(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)/);
+  return match ? match[1].replace(/,/g, '') : null;
+}
+
+export function toRatio(value: string | number | Ratio): Ratio {
+  if (typeof value === 'object') {
+    return value;
+  }
+
+  const { digits, scale } = parseDecimal(value);
+  return { numerator: digits, denominator: 10n ** BigInt(scale) };
+}
+
+/**
+ * a / b as an exact ratio, e.g. the SEI->USDC cross rate from two USD prices
+ */
+export function divideRatios(a: string | number | Ratio, b: string | number | Ratio): Ratio {
+  const left = toRatio(a);
+  const right = toRatio(b);
+  if (right.numerator === 0n) {
+    throw new Error('Cannot divide by a zero rate');
+  }
+  return {
+    numerator: left.numerator * right.denominator,
+    denominator: left.denominator * right.numerator
+  };
+}
+
+function parseDecimal(value: string | number): { digits: bigint; scale: number } {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  const text = String(value)
+    .trim()
+    .replace(/^\$/, '')
+    .replace(/[\s_,]/g, '')
+    .replace(/(USDC|USDT|USD|SEI|ETH|BTC)$/i, '');
+
+  const match = text.match(/^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match || (match[2] === '' && (match[3] || '') === '')) {
+    throw new Error(`Invalid amount: "${value}"`);
+  }
+
+  const [, sign, integerPart, fractionPart = '', exponent = '0'] = match;
+  let digits = BigInt((integerPart + fractionPart) || '0');
+  let scale = fractionPart.length - parseInt(exponent, 10);
+
+  if (scale < 0) {
+    digits *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+
+  return { digits: sign === '-' ? -digits : digits, scale };
+}
+
+function rescaleInteger(value: bigint, fromDecimals: number, toDecimals: number, rounding: RoundingMode): bigint {
+  if (toDecimals >= fromDecimals) {
+    return value * 10n ** BigInt(toDecimals - fromDecimals);
+  }
+  return divideRounded(value, 10n ** BigInt(fromDecimals - toDecimals), rounding);
+}
+
+function allocationWeight(weight: number | bigint | Money): bigint {
+  if (weight instanceof Money) {
+    return weight.minor;
+  }
+  if (typeof weight === 'number' && !Number.isSafeInteger(weight)) {
+    throw new Error(`Allocation weights must be whole numbers, got ${weight}`);
+  }
+  return BigInt(weight);
+}
+
+function divideRounded(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+  if (denominator < 0n) {
+    return divideRounded(-numerator, -denominator, rounding);
+  }
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const sign = numerator < 0n ? -1n : 1n;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+
+  switch (rounding) {
+    case 'down':
+      return quotient;
+    case 'floor':
+      return sign < 0n ? quotient - 1n : quotient;
+    case 'ceil':
+      return sign < 0n ? quotient : quotient + 1n;
+    case 'half-even':
+      if (twiceRemainder === denominator) {
+        return quotient % 2n === 0n ? quotient : quotient + sign;
+      }
+      return twiceRemainder > denominator ? quotient + sign : quotient;
+    case 'half-up':
+    default:
+      return twiceRemainder >= denominator ? quotient + sign : quotient;
+  }
+}
@@ -0,0 +1,80 @@
+import { IAgentRuntime } from "@elizaos/core";
+
+// Pending writes per cache key, so concurrent handlers never overwrite each other's updates
+const writeQueues: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Durable keyed collection persisted through the agent's database adapter cache.
+ * Every record of a namespace lives under a single cache entry.
+ */
+export default class RuntimeStore<T> {
+  private runtime: IAgentRuntime;
+  private cacheKey: string;
+
+  constructor(runtime: IAgentRuntime, namespace: string) {
+    this.runtime = runtime;
+    this.cacheKey = `inva:${namespace}`;
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const records = await this.load();
+    return records[id];
+  }
+
+  async list(predicate?: (record: T) => boolean): Promise<T[]> {
+    const records = Object.values(await this.load());
+    return predicate ? records.filter(predicate) : records;
+  }
+
+  async set(id: string, record: T): Promise<T> {
+    await this.mutate(records => {
+      records[id] = record;
+    });
+    return record;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let existed = false;
+    await this.mutate(records => {
+      existed = id in records;
+      delete records[id];
+    });
+    return existed;
+  }
+
+  /**
+   * Read-modify-write of a single record. The updater receives the current value
+   * (or undefined) and returns the new one, or undefined to leave it untouched.
+   */
+  async update(id: string, updater: (current: T | undefined) => T | undefined): Promise<T | undefined> {
+    let result: T | undefined;
+    await this.mutate(records => {
+      result = updater(records[id]);
+      if (result !== undefined) {
+        records[id] = result;
+      }
+    });
+    return result;
+  }
+
+  private async load(): Promise<Record<string, T>> {
+    return (await this.runtime.getCache<Record<string, T>>(this.cacheKey)) || {};
+  }
+
+  private async mutate(change: (records: Record<string, T>) => void): Promise<void> {
+    const previous = writeQueues.get(this.cacheKey) || Promise.resolve();
+
+    const next = previous.catch((): void => undefined).then(async () => {
+      const records = await this.load();
+      change(records);
+
+      const saved = await this.runtime.setCache(this.cacheKey, records);
+      if (!saved) {
+        throw new Error(`Failed to persist ${this.cacheKey}`);
+      }
+    });
+
+    writeQueues.set(this.cacheKey, next);
+    await next;
+  }
+}
@@ -0,0 +1,200 @@
+import { ethers } from 'ethers';
+import Money from './money.ts';
+import { ERC20_ABI, INVOICE_ESCROW_ABI } from './contractAbis.ts';
+import contractData from './sei-testnet.json';
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+  native: boolean;
+  supported: boolean;
+}
+
+export interface TokenRegistryOptions {
+  // Tokens to check even before any allow-list event is seen, e.g. { USDC: '0x...' }
+  knownTokens?: Record<string, string>;
+  // Block the escrow was deployed at; event scanning starts here
+  fromBlock?: number;
+  syncIntervalMs?: number;
+}
+
+const NATIVE_TOKEN = { symbol: 'SEI', decimals: 18 };
+
+// Fiat denominations settle in a stablecoin of the same unit
+const SETTLEMENT_ALIASES: Record<string, string> = {
+  USD: 'USDC'
+};
+
+const DEFAULT_SYNC_INTERVAL_MS = 60_000;
+
+// One registry per escrow so every plugin shares the same view of the allow-list
+const registries: Map<string, TokenRegistry> = new Map();
+
+/**
+ * Mirror of the InvoiceEscrow `supportedTokens` allow-list with ERC20 metadata read from chain.
+ * The single place where a currency code becomes a token address (and back).
+ */
+export default class TokenRegistry {
+  private provider: ethers.Provider;
+  private escrow: ethers.Contract;
+  private knownTokens: Record<string, string>;
+  private syncIntervalMs: number;
+  private tokens: Map<string, TokenInfo> = new Map();
+  private lastScannedBlock: number;
+  private lastSyncedAt = 0;
+  private pendingSync: Promise<void> | null = null;
+
+  constructor(provider: ethers.Provider, escrowAddress: string, options: TokenRegistryOptions = {}) {
+    this.provider = provider;
+    this.escrow = new ethers.Contract(escrowAddress, INVOICE_ESCROW_ABI, provider);
+    this.knownTokens = options.knownTokens || {};
+    this.syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+    this.lastScannedBlock = (options.fromBlock ?? 0) - 1;
+  }
+
+  static forEscrow(provider: ethers.Provider, escrowAddress: string, options: TokenRegistryOptions = {}): TokenRegistry {
+    const key = escrowAddress.toLowerCase();
+    if (!registries.has(key)) {
+      registries.set(key, new TokenRegistry(provider, escrowAddress, options));
+    }
+    return registries.get(key)!;
+  }
+
+  /**
+   * Registry for the deployed testnet escrow, seeded with the tokens from its deployment config
+   */
+  static shared(): TokenRegistry {
+    const provider = new ethers.JsonRpcProvider(process.env.SEI_RPC_URL || 'https://evm-rpc-testnet.sei-apis.com');
+    return TokenRegistry.forEscrow(provider, contractData.contracts.InvoiceEscrow, {
+      knownTokens: contractData.config.supportedTokens,
+      fromBlock: parseInt(process.env.ESCROW_DEPLOYMENT_BLOCK || '0')
+    });
+  }
+
+  /**
+   * Supported token for a currency code such as "SEI", "USDC" or "USD".
+   * Throws instead of falling back, so an unsupported currency is never paid in native SEI.
+   */
+  async resolveCurrency(currency: string): Promise<TokenInfo> {
+    await this.sync();
+
+    const code = currency.trim().toUpperCase();
+    const symbol = SETTLEMENT_ALIASES[code] || code;
+    const token = Array.from(this.tokens.values()).find(info => info.supported && info.symbol.toUpperCase() === symbol);
+
+    if (!token) {
+      throw new Error(`${currency} is not a supported payment token`);
+    }
+    return token;
+  }
+
+  /**
+   * Token details for an address, including tokens that have since been removed from the allow-list
+   */
+  async getByAddress(address: string): Promise<TokenInfo> {
+    await this.sync();
+
+    const existing = this.tokens.get(address.toLowerCase());
+    if (existing) {
+      return existing;
+    }
+
+    const supported = await this.escrow.supportedTokens(address);
+    return this.remember(address, supported);
+  }
+
+  async list(includeUnsupported: boolean = false): Promise<TokenInfo[]> {
+    await this.sync();
+    return Array.from(this.tokens.values()).filter(info => includeUnsupported || info.supported);
+  }
+
+  async toMoney(address: string, minor: bigint | string): Promise<Money> {
+    const token = await this.getByAddress(address);
+    return Money.fromMinor(minor, token.symbol, token.decimals);
+  }
+
+  /**
+   * Re-reads the allow-list: replays SupportedTokenAdded/Removed events since the last scan
+   * and re-checks every known token against `supportedTokens`.
+   */
+  async sync(force: boolean = false): Promise<void> {
+    if (!force && this.lastSyncedAt > 0 && Date.now() - this.lastSyncedAt < this.syncIntervalMs) {
+      return;
+    }
+
+    if (!this.pendingSync) {
+      this.pendingSync = this.refresh().finally(() => {
+        this.pendingSync = null;
+      });
+    }
+    await this.pendingSync;
+  }
+
+  private async refresh(): Promise<void> {
+    const candidates = new Set<string>([
+      ethers.ZeroAddress,
+      ...Object.values(this.knownTokens),
+      ...Array.from(this.tokens.values()).map(info => info.address)
+    ].map(address => ethers.getAddress(address)));
+
+    try {
+      const latestBlock = await this.provider.getBlockNumber();
+      if (latestBlock > this.lastScannedBlock) {
+        const events = [
+          ...await this.escrow.queryFilter(this.escrow.filters.SupportedTokenAdded(), this.lastScannedBlock + 1, latestBlock),
+          ...await this.escrow.queryFilter(this.escrow.filters.SupportedTokenRemoved(), this.lastScannedBlock + 1, latestBlock)
+        ];
+        events.forEach(event => candidates.add(ethers.getAddress((event as ethers.EventLog).args[0])));
+        this.lastScannedBlock = latestBlock;
+      }
+    } catch (error) {
+      // Some RPC endpoints cap log ranges; the supportedTokens checks below still catch changes to known tokens
+      console.warn('⚠️ Could not scan token allow-list events:', error.message);
+    }
+
+    for (const address of candidates) {
+      try {
+        const supported: boolean = await this.escrow.supportedTokens(address);
+        await this.remember(address, supported);
+      } catch (error) {
+        // One broken token contract must not hide the rest of the allow-list
+        console.error(`❌ Failed to sync token ${address}:`, error.message);
+      }
+    }
+
+    this.lastSyncedAt = Date.now();
+  }
+
+  private async remember(address: string, supported: boolean): Promise<TokenInfo> {
+    const key = address.toLowerCase();
+    const existing = this.tokens.get(key);
+
+    const info: TokenInfo = existing
+      ? { ...existing, supported }
+      : { ...await readTokenMetadata(this.provider, address), supported };
+
+    this.tokens.set(key, info);
+    return info;
+  }
+}
+
+async function readTokenMetadata(provider: ethers.Provider, address: string): Promise<Omit<TokenInfo, 'supported'>> {
+  if (address === ethers.ZeroAddress) {
+    return { address: ethers.ZeroAddress, ...NATIVE_TOKEN, native: true };
+  }
+
+  try {
+    const token = new ethers.Contract(address, ERC20_ABI, provider);
+    const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()]);
+
+    return {
+      address: ethers.getAddress(address),
+      symbol: String(symbol),
+      decimals: Number(decimals),
+      native: false
+    };
+  } catch (error) {
+    throw new Error(`Failed to read token metadata for ${address}: ${error.message}`);
+  }
+}
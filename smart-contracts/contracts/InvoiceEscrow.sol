@@ -20,10 +20,17 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
     uint256 public constant MAX_PAYMENT_WINDOW = 90 days;
     uint256 public constant MIN_PAYMENT_WINDOW = 1 days;
     uint256 public constant MAX_EARLY_DISCOUNT_BPS = 1000; // 10% max early payment discount
+    uint256 public constant MAX_GRACE_PERIOD = 30 days;
+    uint256 public constant MAX_DAILY_INTEREST_BPS = 100; // 1% per day
+    uint256 public constant MAX_LATE_FEE_BPS = 2500; // Late fees never exceed 25% of the amount due
+    uint256 public constant APPROVAL_WINDOW = 14 days; // Unapproved payments release to the provider after this
+    uint256 public constant DISPUTE_WINDOW = 30 days;  // Unresolved disputes split by default after this
+    uint256 public constant DEFAULT_DISPUTE_PROVIDER_SHARE_BPS = 5000;
     address public usdcAddressTestnet = 0x70730E92502A851011C5033F1432876049774239;
 
     // State variables
     uint256 public nextInvoiceId = 1;
+    uint256 public nextCreditNoteId = 1;
     address public feeCollector;
     mapping(address => bool) public supportedTokens;
 
@@ -40,6 +47,10 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         uint256 dueDate;
         uint256 paidAt;
         string ipfsHash; // Metadata stored on IPFS
+        uint256 amountPaid; // Principal settled so far by installments
+        uint256 balanceDue; // Principal still owed (amount less credits and installments)
+        uint256 approvalDeadline; // When a paid invoice awaiting approval can be released by anyone
+        uint256 disputeDeadline;  // When an unresolved dispute falls back to the default split
     }
 
     struct PaymentTerms {
@@ -57,15 +68,54 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         Completed,   // Funds released to provider
         Disputed,    // Dispute raised
         Cancelled,   // Invoice cancelled
-        Refunded     // Payment refunded to client
+        Refunded,    // Payment refunded to client
+        Superseded,  // Replaced by an amended version (see supersededBy)
+        PartiallyPaid // Some installments paid and held in escrow, balance still due
+    }
+
+    // Applied to payments made after the due date (all zero: late payments carry no fee)
+    struct LateFeePolicy {
+        uint256 gracePeriod;      // Seconds after the due date during which no fee is charged
+        uint256 flatFeeBps;       // One-off fee once the grace period has passed
+        uint256 dailyInterestBps; // Interest per full day late, counted from the due date
+        uint256 maxFeeBps;        // Cap on flat fee plus interest
+    }
+
+    struct DisputeResolution {
+        uint256 providerShareBps; // Share of the escrow awarded to the provider
+        uint256 providerAmount;   // Paid to the provider, after the platform fee
+        uint256 clientAmount;     // Refunded to the client
+        address resolver;
+        uint256 resolvedAt;
+        string resolution;        // The arbitrator's reasoning
+    }
+
+    struct CreditNote {
+        uint256 id;
+        uint256 invoiceId;
+        uint256 amount;   // Reduction of the invoice amount
+        uint256 refunded; // Portion returned to the client (for invoices that were already paid)
+        uint256 createdAt;
+        string ipfsHash;  // Credit note document (reason, credited line items)
     }
 
     // Storage
-    mapping(uint256 => Invoice) public invoices;
+    mapping(uint256 => Invoice) internal invoices; // Read through getInvoice
     mapping(uint256 => uint256) public escrowBalances;
     mapping(uint256 => string) public disputeReasons;
+    mapping(uint256 => DisputeResolution) public disputeResolutions;
     mapping(address => uint256[]) public providerInvoices;
     mapping(address => uint256[]) public clientInvoices;
+    mapping(uint256 => CreditNote) public creditNotes;
+    mapping(uint256 => uint256[]) public invoiceCreditNotes;
+    mapping(uint256 => uint256) public creditedAmounts; // Total credited against each invoice
+    mapping(uint256 => uint256) public billedAmounts;   // Principal paid once the invoice was settled in full
+    mapping(uint256 => uint256) public paidAmounts;     // Total actually paid across installments (after discounts and late fees)
+    mapping(uint256 => uint256) public supersededBy;    // Original invoice => its amendment
+    mapping(uint256 => uint256) public amendmentOf;     // Amendment => the invoice it replaced
+    mapping(address => LateFeePolicy) public providerLateFeePolicies;
+    mapping(uint256 => LateFeePolicy) public lateFeePolicies; // Provider's policy when the invoice was created
+    mapping(uint256 => uint256) public lateFeesPaid;    // Total late fees across installments
 
     // Events
     event InvoiceCreated(
@@ -81,8 +131,17 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         uint256 indexed invoiceId,
         address indexed payer,
         uint256 amount,
-        uint256 actualAmount, // Amount after discount
-        bool earlyPayment
+        uint256 actualAmount, // Amount after discount or late fee
+        bool earlyPayment,
+        uint256 lateFee
+    );
+
+    event InstallmentPaid(
+        uint256 indexed invoiceId,
+        address indexed payer,
+        uint256 amount,       // Principal settled by this installment
+        uint256 actualAmount, // Amount after discount or late fee
+        uint256 balanceDue
     );
 
     event InvoiceApproved(
@@ -106,7 +165,16 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
     event DisputeResolved(
         uint256 indexed invoiceId,
         address indexed resolver,
-        bool favorProvider
+        uint256 providerShareBps,
+        uint256 providerAmount,
+        uint256 clientAmount,
+        string resolution
+    );
+
+    event DeadlineEnforced(
+        uint256 indexed invoiceId,
+        address indexed caller,
+        InvoiceStatus outcome
     );
 
     event InvoiceCancelled(
@@ -114,6 +182,33 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         address indexed canceller
     );
 
+    event CreditNoteIssued(
+        uint256 indexed creditNoteId,
+        uint256 indexed invoiceId,
+        uint256 amount,
+        uint256 refunded,
+        string ipfsHash
+    );
+
+    event InvoiceAmended(
+        uint256 indexed originalInvoiceId,
+        uint256 indexed newInvoiceId,
+        uint256 amount,
+        string ipfsHash
+    );
+
+    event LateFeePolicyUpdated(
+        address indexed provider,
+        uint256 gracePeriod,
+        uint256 flatFeeBps,
+        uint256 dailyInterestBps,
+        uint256 maxFeeBps
+    );
+
+    event SupportedTokenAdded(address indexed token);
+
+    event SupportedTokenRemoved(address indexed token);
+
     // Modifiers
     modifier validInvoice(uint256 _invoiceId) {
         require(invoices[_invoiceId].id != 0, "Invoice does not exist");
@@ -144,8 +239,8 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         feeCollector = _feeCollector;
         
         // Add some default supported tokens (you'll need to update these with actual Sei network addresses)
-        supportedTokens[address(0)] = true; // Native SEI
-        supportedTokens[usdcAddressTestnet] = true; // Add actual USDC address
+        _setSupportedToken(address(0), true); // Native SEI
+        _setSupportedToken(usdcAddressTestnet, true); // Add actual USDC address
         // supportedTokens[USDT_ADDRESS] = true; // Add actual USDT address
     }
 
@@ -164,6 +259,16 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         PaymentTerms calldata _terms,
         string calldata _ipfsHash
     ) external whenNotPaused nonReentrant returns (uint256) {
+        return _createInvoice(_client, _amount, _token, _terms, _ipfsHash);
+    }
+
+    function _createInvoice(
+        address payable _client,
+        uint256 _amount,
+        address _token,
+        PaymentTerms calldata _terms,
+        string calldata _ipfsHash
+    ) internal returns (uint256) {
         require(_client != address(0), "Invalid client address");
         require(_client != msg.sender, "Provider and client cannot be the same");
         require(_amount > 0, "Amount must be greater than 0");
@@ -197,10 +302,15 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
             createdAt: block.timestamp,
             dueDate: dueDate,
             paidAt: 0,
-            ipfsHash: _ipfsHash
+            ipfsHash: _ipfsHash,
+            amountPaid: 0,
+            balanceDue: _amount,
+            approvalDeadline: 0,
+            disputeDeadline: 0
         });
 
         invoices[invoiceId] = invoice;
+        lateFeePolicies[invoiceId] = providerLateFeePolicies[msg.sender];
         providerInvoices[msg.sender].push(invoiceId);
         clientInvoices[_client].push(invoiceId);
 
@@ -210,7 +320,7 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
     }
 
     /**
-     * @dev Makes payment for an invoice
+     * @dev Pays the remaining balance of an invoice
      * @param _invoiceId ID of the invoice to pay
      */
     function makePayment(uint256 _invoiceId) 
@@ -221,20 +331,36 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         validInvoice(_invoiceId) 
         onlyClient(_invoiceId) 
     {
-        Invoice storage invoice = invoices[_invoiceId];
-        require(invoice.status == InvoiceStatus.Created, "Invoice cannot be paid");
-        require(block.timestamp <= invoice.dueDate, "Invoice has expired");
+        _pay(_invoiceId, invoices[_invoiceId].balanceDue);
+    }
 
-        uint256 paymentAmount = invoice.amount;
-        bool isEarlyPayment = false;
+    /**
+     * @dev Pays one installment of an invoice. Funds stay in escrow until the balance is settled;
+     * any early payment discount or late fee applies to each installment when it is paid.
+     * @param _invoiceId ID of the invoice to pay
+     * @param _amount Principal this installment settles, in the invoice token's base units
+     */
+    function makePartialPayment(uint256 _invoiceId, uint256 _amount)
+        external
+        payable
+        whenNotPaused
+        nonReentrant
+        validInvoice(_invoiceId)
+        onlyClient(_invoiceId)
+    {
+        _pay(_invoiceId, _amount);
+    }
 
-        // Apply early payment discount if applicable
-        if (invoice.terms.earlyPaymentDiscountBps > 0 && 
-            block.timestamp <= invoice.terms.earlyPaymentDeadline) {
-            uint256 discount = (invoice.amount * invoice.terms.earlyPaymentDiscountBps) / 10000;
-            paymentAmount = invoice.amount - discount;
-            isEarlyPayment = true;
-        }
+    function _pay(uint256 _invoiceId, uint256 _amount) internal {
+        Invoice storage invoice = invoices[_invoiceId];
+        require(
+            invoice.status == InvoiceStatus.Created ||
+            invoice.status == InvoiceStatus.PartiallyPaid,
+            "Invoice cannot be paid"
+        );
+        require(_amount > 0 && _amount <= invoice.balanceDue, "Invalid installment amount");
+
+        (uint256 paymentAmount, , uint256 lateFee) = _paymentAmount(_invoiceId, _amount);
 
         if (invoice.token == address(0)) {
             // Native SEI payment
@@ -245,11 +371,41 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
             IERC20(invoice.token).safeTransferFrom(msg.sender, address(this), paymentAmount);
         }
 
-        escrowBalances[_invoiceId] = paymentAmount;
+        escrowBalances[_invoiceId] += paymentAmount;
+        paidAmounts[_invoiceId] += paymentAmount;
+        lateFeesPaid[_invoiceId] += lateFee;
+        invoice.amountPaid += _amount;
+        invoice.balanceDue -= _amount;
+
+        emit InstallmentPaid(_invoiceId, msg.sender, _amount, paymentAmount, invoice.balanceDue);
+
+        if (invoice.balanceDue == 0) {
+            _settle(_invoiceId);
+        } else {
+            invoice.status = InvoiceStatus.PartiallyPaid;
+        }
+    }
+
+    /**
+     * @dev Marks an invoice whose balance has been paid (or credited) down to zero as paid
+     */
+    function _settle(uint256 _invoiceId) internal {
+        Invoice storage invoice = invoices[_invoiceId];
+        billedAmounts[_invoiceId] = invoice.amountPaid;
         invoice.status = invoice.terms.requiresApproval ? InvoiceStatus.Paid : InvoiceStatus.Approved;
         invoice.paidAt = block.timestamp;
+        if (invoice.terms.requiresApproval) {
+            invoice.approvalDeadline = block.timestamp + APPROVAL_WINDOW;
+        }
 
-        emit PaymentMade(_invoiceId, msg.sender, invoice.amount, paymentAmount, isEarlyPayment);
+        emit PaymentMade(
+            _invoiceId,
+            invoice.client,
+            invoice.amountPaid,
+            paidAmounts[_invoiceId],
+            paidAmounts[_invoiceId] < invoice.amountPaid,
+            lateFeesPaid[_invoiceId]
+        );
 
         // Auto-release if no approval required
         if (!invoice.terms.requiresApproval) {
@@ -257,6 +413,64 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         }
     }
 
+    /**
+     * @dev What paying `_amountDue` now costs: less any early payment discount,
+     * or plus the late fee once the due date and grace period have passed
+     */
+    function _paymentAmount(uint256 _invoiceId, uint256 _amountDue)
+        internal
+        view
+        returns (uint256 paymentAmount, bool isEarlyPayment, uint256 lateFee)
+    {
+        Invoice storage invoice = invoices[_invoiceId];
+
+        if (invoice.terms.earlyPaymentDiscountBps > 0 && 
+            block.timestamp <= invoice.terms.earlyPaymentDeadline) {
+            uint256 discount = (_amountDue * invoice.terms.earlyPaymentDiscountBps) / 10000;
+            return (_amountDue - discount, true, 0);
+        }
+
+        lateFee = _lateFee(_invoiceId, _amountDue);
+        return (_amountDue + lateFee, false, lateFee);
+    }
+
+    function _lateFee(uint256 _invoiceId, uint256 _amountDue) internal view returns (uint256) {
+        Invoice storage invoice = invoices[_invoiceId];
+        LateFeePolicy storage policy = lateFeePolicies[_invoiceId];
+        if (block.timestamp <= invoice.dueDate + policy.gracePeriod) {
+            return 0;
+        }
+
+        uint256 daysLate = (block.timestamp - invoice.dueDate) / 1 days;
+        uint256 feeBps = policy.flatFeeBps + daysLate * policy.dailyInterestBps;
+        if (feeBps > policy.maxFeeBps) {
+            feeBps = policy.maxFeeBps;
+        }
+        return (_amountDue * feeBps) / 10000;
+    }
+
+    /**
+     * @dev Sets the late fee policy applied to the caller's future invoices.
+     * Existing invoices keep the policy they were created with.
+     * @param _policy Grace period, flat fee, daily interest and cap
+     */
+    function setLateFeePolicy(LateFeePolicy calldata _policy) external whenNotPaused {
+        require(_policy.gracePeriod <= MAX_GRACE_PERIOD, "Grace period too long");
+        require(_policy.dailyInterestBps <= MAX_DAILY_INTEREST_BPS, "Interest rate too high");
+        require(_policy.maxFeeBps <= MAX_LATE_FEE_BPS, "Late fee cap too high");
+        require(_policy.flatFeeBps <= _policy.maxFeeBps, "Flat fee exceeds cap");
+
+        providerLateFeePolicies[msg.sender] = _policy;
+
+        emit LateFeePolicyUpdated(
+            msg.sender,
+            _policy.gracePeriod,
+            _policy.flatFeeBps,
+            _policy.dailyInterestBps,
+            _policy.maxFeeBps
+        );
+    }
+
     /**
      * @dev Approves the work and allows fund release (if approval required)
      * @param _invoiceId ID of the invoice to approve. Client Address performs this
@@ -288,24 +502,24 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         uint256 escrowAmount = escrowBalances[_invoiceId];
         require(escrowAmount > 0, "No funds in escrow");
 
-        // Calculate platform fee
-        uint256 platformFee = (escrowAmount * PLATFORM_FEE_BPS) / 10000;
-        uint256 providerAmount = escrowAmount - platformFee;
-
         // Update state before transfers
         escrowBalances[_invoiceId] = 0;
         invoice.status = InvoiceStatus.Completed;
 
-        // Transfer funds
-        if (invoice.token == address(0)) {
-            // Native SEI transfers
-            invoice.provider.transfer(providerAmount);
-            payable(feeCollector).transfer(platformFee);
-        } else {
-            // ERC20 token transfers
-            IERC20(invoice.token).safeTransfer(invoice.provider, providerAmount);
-            IERC20(invoice.token).safeTransfer(feeCollector, platformFee);
-        }
+        _payProvider(_invoiceId, escrowAmount);
+    }
+
+    /**
+     * @dev Pays the provider their share of the escrow, less the platform fee
+     * @return providerAmount What the provider received
+     */
+    function _payProvider(uint256 _invoiceId, uint256 _amount) internal returns (uint256 providerAmount) {
+        Invoice storage invoice = invoices[_invoiceId];
+        uint256 platformFee = (_amount * PLATFORM_FEE_BPS) / 10000;
+        providerAmount = _amount - platformFee;
+
+        _transferOut(invoice.token, invoice.provider, providerAmount);
+        _transferOut(invoice.token, payable(feeCollector), platformFee);
 
         emit FundsReleased(_invoiceId, invoice.provider, providerAmount, platformFee);
     }
@@ -324,25 +538,30 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         Invoice storage invoice = invoices[_invoiceId];
         require(
             invoice.status == InvoiceStatus.Paid || 
-            invoice.status == InvoiceStatus.Approved,
+            invoice.status == InvoiceStatus.Approved ||
+            invoice.status == InvoiceStatus.PartiallyPaid,
             "Cannot dispute invoice in current status"
         );
         require(bytes(_reason).length > 0, "Dispute reason required");
 
         invoice.status = InvoiceStatus.Disputed;
+        invoice.disputeDeadline = block.timestamp + DISPUTE_WINDOW;
         disputeReasons[_invoiceId] = _reason;
 
         emit DisputeRaised(_invoiceId, msg.sender, _reason);
     }
 
     /**
-     * @dev Resolves a dispute (only arbitrator can call)
+     * @dev Resolves a dispute by splitting the escrow between provider and client (only arbitrator can call).
+     * The platform fee is taken from the provider's share only.
      * @param _invoiceId ID of the disputed invoice
-     * @param _favorProvider True if ruling in favor of provider, false for client
+     * @param _providerShareBps Provider's share of the escrow in basis points (10000 = all to the provider)
+     * @param _resolution Reasoning for the split, stored on-chain
      */
-    function resolveDispute(uint256 _invoiceId, bool _favorProvider) 
+    function resolveDispute(uint256 _invoiceId, uint256 _providerShareBps, string calldata _resolution) 
         external 
         whenNotPaused 
+        nonReentrant
         validInvoice(_invoiceId) 
     {
         Invoice storage invoice = invoices[_invoiceId];
@@ -352,39 +571,69 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
             msg.sender == owner(),
             "Only arbitrator can resolve dispute"
         );
+        require(_providerShareBps <= 10000, "Invalid provider share");
+        require(bytes(_resolution).length > 0, "Resolution required");
+
+        _resolveDispute(_invoiceId, _providerShareBps, _resolution);
+    }
 
+    function _resolveDispute(uint256 _invoiceId, uint256 _providerShareBps, string memory _resolution) internal {
+        Invoice storage invoice = invoices[_invoiceId];
         uint256 escrowAmount = escrowBalances[_invoiceId];
         require(escrowAmount > 0, "No funds in escrow");
 
+        uint256 providerShare = (escrowAmount * _providerShareBps) / 10000;
+        uint256 clientAmount = escrowAmount - providerShare;
+
         escrowBalances[_invoiceId] = 0;
+        // Anything awarded to the provider completes the invoice; nothing awarded refunds it
+        invoice.status = providerShare > 0 ? InvoiceStatus.Completed : InvoiceStatus.Refunded;
+
+        uint256 providerAmount = providerShare > 0 ? _payProvider(_invoiceId, providerShare) : 0;
+        _transferOut(invoice.token, invoice.client, clientAmount);
+
+        disputeResolutions[_invoiceId] = DisputeResolution({
+            providerShareBps: _providerShareBps,
+            providerAmount: providerAmount,
+            clientAmount: clientAmount,
+            resolver: msg.sender,
+            resolvedAt: block.timestamp,
+            resolution: _resolution
+        });
 
-        if (_favorProvider) {
-            // Release funds to provider
-            invoice.status = InvoiceStatus.Completed;
-            uint256 platformFee = (escrowAmount * PLATFORM_FEE_BPS) / 10000;
-            uint256 providerAmount = escrowAmount - platformFee;
-
-            if (invoice.token == address(0)) {
-                invoice.provider.transfer(providerAmount);
-                payable(feeCollector).transfer(platformFee);
-            } else {
-                IERC20(invoice.token).safeTransfer(invoice.provider, providerAmount);
-                IERC20(invoice.token).safeTransfer(feeCollector, platformFee);
-            }
+        emit DisputeResolved(_invoiceId, msg.sender, _providerShareBps, providerAmount, clientAmount, _resolution);
+    }
 
-            emit FundsReleased(_invoiceId, invoice.provider, providerAmount, platformFee);
-        } else {
-            // Refund to client
-            invoice.status = InvoiceStatus.Refunded;
+    /**
+     * @dev Applies the default outcome once a deadline has passed; anyone can call it.
+     * A payment left unapproved past its approval deadline is released to the provider,
+     * and a dispute left unresolved past its deadline is split DEFAULT_DISPUTE_PROVIDER_SHARE_BPS.
+     * @param _invoiceId ID of the invoice
+     */
+    function enforceDeadline(uint256 _invoiceId)
+        external
+        whenNotPaused
+        nonReentrant
+        validInvoice(_invoiceId)
+    {
+        Invoice storage invoice = invoices[_invoiceId];
 
-            if (invoice.token == address(0)) {
-                invoice.client.transfer(escrowAmount);
-            } else {
-                IERC20(invoice.token).safeTransfer(invoice.client, escrowAmount);
-            }
+        if (invoice.status == InvoiceStatus.Paid) {
+            require(block.timestamp > invoice.approvalDeadline, "Approval deadline not reached");
+            invoice.status = InvoiceStatus.Approved;
+            _releaseFunds(_invoiceId);
+        } else if (invoice.status == InvoiceStatus.Disputed) {
+            require(block.timestamp > invoice.disputeDeadline, "Dispute deadline not reached");
+            _resolveDispute(
+                _invoiceId,
+                DEFAULT_DISPUTE_PROVIDER_SHARE_BPS,
+                "Not resolved before the dispute deadline; default split applied"
+            );
+        } else {
+            revert("No deadline to enforce");
         }
 
-        emit DisputeResolved(_invoiceId, msg.sender, _favorProvider);
+        emit DeadlineEnforced(_invoiceId, msg.sender, invoice.status);
     }
 
     /**
@@ -404,6 +653,144 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         emit InvoiceCancelled(_invoiceId, msg.sender);
     }
 
+    /**
+     * @dev Issues a credit note reducing what the client owes on an invoice.
+     * Unpaid invoices simply owe less (a full credit cancels them, or settles them if installments
+     * were paid). For invoices paid into escrow
+     * the credited share of the payment is refunded from escrow; for completed invoices the
+     * provider funds that refund, since the escrow has already released the payment.
+     * @param _invoiceId ID of the invoice to credit
+     * @param _amount Amount to credit, in the invoice token's base units
+     * @param _ipfsHash IPFS hash of the credit note document
+     */
+    function issueCreditNote(uint256 _invoiceId, uint256 _amount, string calldata _ipfsHash)
+        external
+        payable
+        whenNotPaused
+        nonReentrant
+        validInvoice(_invoiceId)
+        onlyProvider(_invoiceId)
+        returns (uint256)
+    {
+        Invoice storage invoice = invoices[_invoiceId];
+        require(_amount > 0, "Amount must be greater than 0");
+        require(bytes(_ipfsHash).length > 0, "IPFS hash required");
+        require(creditedAmounts[_invoiceId] + _amount <= invoice.amount, "Credit exceeds invoice amount");
+
+        bool unpaid = invoice.status == InvoiceStatus.Created || invoice.status == InvoiceStatus.PartiallyPaid;
+        uint256 refund = 0;
+        if (unpaid) {
+            // Installments already paid stay paid; only the outstanding balance can be credited
+            require(msg.value == 0, "No refund due for unpaid invoice");
+            require(_amount <= invoice.balanceDue, "Credit exceeds balance due");
+        } else if (invoice.status == InvoiceStatus.Paid || invoice.status == InvoiceStatus.Completed) {
+            // A dispute can complete an invoice with part of its balance never paid; only the paid part can be credited
+            require(
+                creditedAmounts[_invoiceId] + _amount <= invoice.amount - invoice.balanceDue,
+                "Credit exceeds amount paid"
+            );
+            refund = _creditRefund(_invoiceId, _amount);
+        } else {
+            revert("Cannot credit invoice in current status");
+        }
+
+        creditedAmounts[_invoiceId] += _amount;
+
+        uint256 creditNoteId = nextCreditNoteId++;
+        creditNotes[creditNoteId] = CreditNote({
+            id: creditNoteId,
+            invoiceId: _invoiceId,
+            amount: _amount,
+            refunded: refund,
+            createdAt: block.timestamp,
+            ipfsHash: _ipfsHash
+        });
+        invoiceCreditNotes[_invoiceId].push(creditNoteId);
+
+        if (unpaid) {
+            invoice.balanceDue -= _amount;
+            if (invoice.balanceDue == 0 && invoice.amountPaid == 0) {
+                invoice.status = InvoiceStatus.Cancelled;
+                emit InvoiceCancelled(_invoiceId, msg.sender);
+            } else if (invoice.balanceDue == 0) {
+                // The installments already paid now cover everything owed
+                _settle(_invoiceId);
+            }
+        } else if (invoice.status == InvoiceStatus.Paid) {
+            require(msg.value == 0, "Refund is paid from escrow");
+            escrowBalances[_invoiceId] -= refund;
+            if (escrowBalances[_invoiceId] == 0) {
+                invoice.status = InvoiceStatus.Refunded;
+            }
+            _transferOut(invoice.token, invoice.client, refund);
+        } else if (invoice.token == address(0)) {
+            require(msg.value == refund, "Incorrect refund amount");
+            _transferOut(invoice.token, invoice.client, refund);
+        } else {
+            require(msg.value == 0, "Should not send ETH for token refund");
+            IERC20(invoice.token).safeTransferFrom(msg.sender, invoice.client, refund);
+        }
+
+        emit CreditNoteIssued(creditNoteId, _invoiceId, _amount, refund, _ipfsHash);
+
+        return creditNoteId;
+    }
+
+    /**
+     * @dev Replaces an unpaid invoice with an amended version for the same client and token.
+     * The original is marked Superseded and linked to the new invoice, keeping the history intact.
+     * @param _invoiceId ID of the invoice to amend
+     * @param _amount Amount of the amended invoice
+     * @param _terms Payment terms of the amended invoice
+     * @param _ipfsHash IPFS hash of the amended invoice metadata
+     */
+    function amendInvoice(
+        uint256 _invoiceId,
+        uint256 _amount,
+        PaymentTerms calldata _terms,
+        string calldata _ipfsHash
+    ) external whenNotPaused nonReentrant validInvoice(_invoiceId) onlyProvider(_invoiceId) returns (uint256) {
+        Invoice storage invoice = invoices[_invoiceId];
+        require(invoice.status == InvoiceStatus.Created, "Can only amend unpaid invoices");
+
+        invoice.status = InvoiceStatus.Superseded;
+        uint256 newInvoiceId = _createInvoice(invoice.client, _amount, invoice.token, _terms, _ipfsHash);
+
+        supersededBy[_invoiceId] = newInvoiceId;
+        amendmentOf[newInvoiceId] = _invoiceId;
+
+        emit InvoiceAmended(_invoiceId, newInvoiceId, _amount, _ipfsHash);
+
+        return newInvoiceId;
+    }
+
+    /**
+     * @dev What crediting `_amount` of a paid invoice refunds: the same share of what the provider
+     * was paid as the credit is of the principal paid. After a dispute split that is the provider's share.
+     */
+    function _creditRefund(uint256 _invoiceId, uint256 _amount) internal view returns (uint256) {
+        Invoice storage invoice = invoices[_invoiceId];
+        DisputeResolution storage resolution = disputeResolutions[_invoiceId];
+        uint256 received = resolution.resolvedAt > 0 ? resolution.providerAmount : paidAmounts[_invoiceId];
+        // Settled invoices record what was billed; a dispute raised part way through installments never settled
+        uint256 billed = billedAmounts[_invoiceId] > 0 ? billedAmounts[_invoiceId] : invoice.amountPaid;
+        require(billed > 0, "Nothing paid to refund");
+        return (received * _amount) / billed;
+    }
+
+    function _transferOut(address _token, address payable _to, uint256 _amount) internal {
+        if (_amount == 0) {
+            return;
+        }
+        if (_token == address(0)) {
+            // call rather than transfer, so smart contract wallets with a receive hook can be paid
+            (bool sent, ) = _to.call{value: _amount}("");
+            require(sent, "Native transfer failed");
+        } else {
+            IERC20(_token).safeTransfer(_to, _amount);
+        }
+    }
+
     // View functions
     function getInvoice(uint256 _invoiceId) 
         external 
@@ -437,6 +824,75 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         return escrowBalances[_invoiceId];
     }
 
+    // What the client still owes on an unpaid invoice, before any early payment discount
+    function getAmountDue(uint256 _invoiceId)
+        external
+        view
+        validInvoice(_invoiceId)
+        returns (uint256)
+    {
+        Invoice storage invoice = invoices[_invoiceId];
+        if (invoice.status != InvoiceStatus.Created && invoice.status != InvoiceStatus.PartiallyPaid) {
+            return 0;
+        }
+        return invoice.balanceDue;
+    }
+
+    // What makePayment would charge right now for the remaining balance, and how much of it is late fee
+    function getPaymentAmount(uint256 _invoiceId)
+        external
+        view
+        validInvoice(_invoiceId)
+        returns (uint256 amount, uint256 lateFee)
+    {
+        Invoice storage invoice = invoices[_invoiceId];
+        if (invoice.status != InvoiceStatus.Created && invoice.status != InvoiceStatus.PartiallyPaid) {
+            return (0, 0);
+        }
+        (amount, , lateFee) = _paymentAmount(_invoiceId, invoice.balanceDue);
+    }
+
+    // What issueCreditNote would refund the client for crediting `_amount` of a paid or completed invoice
+    function getCreditRefund(uint256 _invoiceId, uint256 _amount)
+        external
+        view
+        validInvoice(_invoiceId)
+        returns (uint256)
+    {
+        Invoice storage invoice = invoices[_invoiceId];
+        if (invoice.status != InvoiceStatus.Paid && invoice.status != InvoiceStatus.Completed) {
+            return 0;
+        }
+        return _creditRefund(_invoiceId, _amount);
+    }
+
+    function getCreditNotes(uint256 _invoiceId)
+        external
+        view
+        returns (CreditNote[] memory)
+    {
+        uint256[] storage ids = invoiceCreditNotes[_invoiceId];
+        CreditNote[] memory notes = new CreditNote[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            notes[i] = creditNotes[ids[i]];
+        }
+        return notes;
+    }
+
+    // Follows the amendment chain to the invoice currently in force
+    function getLatestVersion(uint256 _invoiceId)
+        external
+        view
+        validInvoice(_invoiceId)
+        returns (uint256)
+    {
+        uint256 current = _invoiceId;
+        while (supersededBy[current] != 0) {
+            current = supersededBy[current];
+        }
+        return current;
+    }
+
     function getDisputeReason(uint256 _invoiceId) 
         external 
         view 
@@ -445,13 +901,31 @@ contract InvoiceEscrow is ReentrancyGuard, Pausable, Ownable {
         return disputeReasons[_invoiceId];
     }
 
+    function getDisputeResolution(uint256 _invoiceId)
+        external
+        view
+        returns (DisputeResolution memory)
+    {
+        return disputeResolutions[_invoiceId];
+    }
+
     // Admin functions
     function addSupportedToken(address _token) external onlyOwner {
-        supportedTokens[_token] = true;
+        _setSupportedToken(_token, true);
     }
 
     function removeSupportedToken(address _token) external onlyOwner {
-        supportedTokens[_token] = false;
+        _setSupportedToken(_token, false);
+    }
+
+    // Every allow-list change emits an event so off-chain token registries can mirror it
+    function _setSupportedToken(address _token, bool _supported) internal {
+        supportedTokens[_token] = _supported;
+        if (_supported) {
+            emit SupportedTokenAdded(_token);
+        } else {
+            emit SupportedTokenRemoved(_token);
+        }
     }
 
     function setFeeCollector(address _feeCollector) external onlyOwner {
@@ -0,0 +1,78 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { afterPlatformFee, deployEscrowFixture, Status } from "./fixtures";
+
+const { parseEther } = hre.ethers;
+
+describe("InvoiceEscrow", function () {
+  describe("Credit Notes", function () {
+    it("Should refund the credited share of a discounted payment from escrow while it awaits approval", async function () {
+      const { escrow, createInvoice, provider, client } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"), { discountBps: 200, requiresApproval: true });
+      await escrow.connect(client).makePayment(id, { value: parseEther("9.8") });
+
+      // A quarter of the billed amount refunds a quarter of what was actually paid
+      const partial = escrow.connect(provider).issueCreditNote(id, parseEther("2.5"), "ipfs://credit-1");
+      await expect(partial)
+        .to.emit(escrow, "CreditNoteIssued")
+        .withArgs(1n, id, parseEther("2.5"), parseEther("2.45"), "ipfs://credit-1");
+      await expect(partial).to.changeEtherBalances([client, escrow], [parseEther("2.45"), -parseEther("2.45")]);
+      expect((await escrow.getInvoice(id)).status).to.equal(Status.Paid);
+      expect(await escrow.getEscrowBalance(id)).to.equal(parseEther("7.35"));
+
+      await expect(escrow.connect(provider).issueCreditNote(id, parseEther("7.5"), "ipfs://credit-2", { value: 1n }))
+        .to.be.revertedWith("Refund is paid from escrow");
+      await expect(escrow.connect(provider).issueCreditNote(id, parseEther("7.5"), "ipfs://credit-2"))
+        .to.changeEtherBalance(client, parseEther("7.35"));
+
+      expect((await escrow.getInvoice(id)).status).to.equal(Status.Refunded);
+      expect(await escrow.getEscrowBalance(id)).to.equal(0n);
+      expect(await escrow.creditedAmounts(id)).to.equal(parseEther("10"));
+      await expect(escrow.connect(provider).issueCreditNote(id, 1n, "ipfs://credit-3"))
+        .to.be.revertedWith("Credit exceeds invoice amount");
+    });
+
+    it("Should have the provider fund the pro-rata refund on a completed invoice", async function () {
+      const { escrow, createInvoice, provider, client } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"), { discountBps: 200 });
+      await escrow.connect(client).makePayment(id, { value: parseEther("9.8") });
+      expect((await escrow.getInvoice(id)).status).to.equal(Status.Completed);
+
+      await expect(escrow.connect(provider).issueCreditNote(id, parseEther("5"), "ipfs://credit", { value: parseEther("5") }))
+        .to.be.revertedWith("Incorrect refund amount");
+
+      const refund = escrow.connect(provider).issueCreditNote(id, parseEther("5"), "ipfs://credit", { value: parseEther("4.9") });
+      await expect(refund)
+        .to.emit(escrow, "CreditNoteIssued")
+        .withArgs(1n, id, parseEther("5"), parseEther("4.9"), "ipfs://credit");
+      await expect(refund).to.changeEtherBalances([provider, client, escrow], [-parseEther("4.9"), parseEther("4.9"), 0n]);
+
+      const [creditNote] = await escrow.getCreditNotes(id);
+      expect(creditNote.refunded).to.equal(parseEther("4.9"));
+      expect((await escrow.getInvoice(id)).status).to.equal(Status.Completed);
+    });
+
+    it("Should refund only from the provider's share of a dispute settled part way through installments", async function () {
+      const { escrow, createInvoice, provider, client, arbitrator } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"));
+      await escrow.connect(client).makePartialPayment(id, parseEther("4"), { value: parseEther("4") });
+      await escrow.connect(client).raiseDispute(id, "The first milestone was late");
+      await escrow.connect(arbitrator).resolveDispute(id, 5000, "Half of the first milestone was usable");
+      expect((await escrow.getInvoice(id)).status).to.equal(Status.Completed);
+      expect(await escrow.billedAmounts(id)).to.equal(0n);
+
+      // Only the 4 paid can be credited, and half of it refunds half of the provider's 2 less fee
+      await expect(escrow.connect(provider).issueCreditNote(id, parseEther("4.5"), "ipfs://credit"))
+        .to.be.revertedWith("Credit exceeds amount paid");
+      const refundAmount = afterPlatformFee(parseEther("2")) / 2n;
+      expect(await escrow.getCreditRefund(id, parseEther("2"))).to.equal(refundAmount);
+
+      const refund = escrow.connect(provider).issueCreditNote(id, parseEther("2"), "ipfs://credit", { value: refundAmount });
+      await expect(refund)
+        .to.emit(escrow, "CreditNoteIssued")
+        .withArgs(1n, id, parseEther("2"), refundAmount, "ipfs://credit");
+      await expect(refund).to.changeEtherBalances([provider, client], [-refundAmount, refundAmount]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { afterPlatformFee, deployEscrowFixture, Status } from "./fixtures";
+
+const { parseEther } = hre.ethers;
+
+describe("InvoiceEscrow", function () {
+  describe("Deadlines", function () {
+    it("Should release an unapproved payment to the provider once the approval deadline passes", async function () {
+      const { escrow, createInvoice, provider, client, keeper } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"), { requiresApproval: true });
+      await escrow.connect(client).makePayment(id, { value: parseEther("10") });
+
+      await expect(escrow.connect(keeper).enforceDeadline(id)).to.be.revertedWith("Approval deadline not reached");
+
+      await time.increaseTo((await escrow.getInvoice(id)).approvalDeadline);
+      const enforce = escrow.connect(keeper).enforceDeadline(id);
+      await expect(enforce).to.emit(escrow, "DeadlineEnforced").withArgs(id, keeper.address, Status.Completed);
+      await expect(enforce).to.changeEtherBalance(provider, afterPlatformFee(parseEther("10")));
+      expect((await escrow.getInvoice(id)).status).to.equal(Status.Completed);
+    });
+
+    it("Should apply the default split to a dispute left unresolved past its deadline", async function () {
+      const { escrow, createInvoice, provider, client, keeper } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"), { requiresApproval: true });
+      await escrow.connect(client).makePayment(id, { value: parseEther("10") });
+      await escrow.connect(provider).raiseDispute(id, "The client will not approve delivered work");
+
+      await expect(escrow.connect(keeper).enforceDeadline(id)).to.be.revertedWith("Dispute deadline not reached");
+
+      await time.increaseTo((await escrow.getInvoice(id)).disputeDeadline);
+      const enforce = escrow.connect(keeper).enforceDeadline(id);
+      await expect(enforce).to.emit(escrow, "DeadlineEnforced").withArgs(id, keeper.address, Status.Completed);
+      await expect(enforce).to.changeEtherBalances(
+        [provider, client],
+        [afterPlatformFee(parseEther("5")), parseEther("5")]
+      );
+
+      const resolution = await escrow.getDisputeResolution(id);
+      expect(resolution.providerShareBps).to.equal(5000n);
+      expect(resolution.resolver).to.equal(keeper.address);
+    });
+
+    it("Should refuse invoices with no deadline to enforce", async function () {
+      const { escrow, createInvoice, keeper } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"));
+
+      await expect(escrow.connect(keeper).enforceDeadline(id)).to.be.revertedWith("No deadline to enforce");
+    });
+  });
+});
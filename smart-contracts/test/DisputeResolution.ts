@@ -0,0 +1,48 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { afterPlatformFee, deployEscrowFixture, Status } from "./fixtures";
+
+const { parseEther } = hre.ethers;
+
+describe("InvoiceEscrow", function () {
+  describe("Dispute Resolution", function () {
+    it("Should split the escrow by basis points and take the platform fee from the provider's share only", async function () {
+      const { escrow, createInvoice, provider, client, arbitrator, feeCollector } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"), { requiresApproval: true });
+      await escrow.connect(client).makePayment(id, { value: parseEther("10") });
+      await escrow.connect(client).raiseDispute(id, "Only part of the work was delivered");
+
+      await expect(escrow.connect(client).resolveDispute(id, 7000, "Client decides"))
+        .to.be.revertedWith("Only arbitrator can resolve dispute");
+      await expect(escrow.connect(arbitrator).resolveDispute(id, 10001, "Too much"))
+        .to.be.revertedWith("Invalid provider share");
+
+      const providerAmount = afterPlatformFee(parseEther("7"));
+      const resolve = escrow.connect(arbitrator).resolveDispute(id, 7000, "70% of the milestones were delivered");
+      await expect(resolve)
+        .to.emit(escrow, "DisputeResolved")
+        .withArgs(id, arbitrator.address, 7000n, providerAmount, parseEther("3"), "70% of the milestones were delivered");
+      await expect(resolve).to.changeEtherBalances(
+        [provider, client, feeCollector],
+        [providerAmount, parseEther("3"), parseEther("7") - providerAmount]
+      );
+
+      const resolution = await escrow.getDisputeResolution(id);
+      expect(resolution.providerShareBps).to.equal(7000n);
+      expect(resolution.resolver).to.equal(arbitrator.address);
+      expect((await escrow.getInvoice(id)).status).to.equal(Status.Completed);
+    });
+
+    it("Should refund the client in full, with no fee, when the provider is awarded nothing", async function () {
+      const { escrow, createInvoice, client, arbitrator, feeCollector } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"), { requiresApproval: true });
+      await escrow.connect(client).makePayment(id, { value: parseEther("10") });
+      await escrow.connect(client).raiseDispute(id, "Nothing was delivered");
+
+      await expect(escrow.connect(arbitrator).resolveDispute(id, 0, "No work was delivered"))
+        .to.changeEtherBalances([client, feeCollector], [parseEther("10"), 0n]);
+      expect((await escrow.getInvoice(id)).status).to.equal(Status.Refunded);
+    });
+  });
+});
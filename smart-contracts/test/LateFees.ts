@@ -0,0 +1,52 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { DAY, deployEscrowFixture } from "./fixtures";
+
+const { parseEther } = hre.ethers;
+
+describe("InvoiceEscrow", function () {
+  describe("Late Fees", function () {
+    const policy = { gracePeriod: 5 * DAY, flatFeeBps: 200, dailyInterestBps: 50, maxFeeBps: 1000 };
+
+    it("Should charge nothing until the grace period has passed, then the flat fee plus daily interest", async function () {
+      const { escrow, createInvoice, provider, client } = await loadFixture(deployEscrowFixture);
+      await escrow.connect(provider).setLateFeePolicy(policy);
+      const id = await createInvoice(parseEther("10"), { paymentWindow: 10 * DAY });
+      const graceEnd = (await escrow.getInvoice(id)).dueDate + BigInt(policy.gracePeriod);
+
+      // The last second of the grace period is still free
+      await time.setNextBlockTimestamp(graceEnd);
+      await expect(escrow.connect(client).makePartialPayment(id, parseEther("5"), { value: parseEther("5") }))
+        .to.emit(escrow, "InstallmentPaid")
+        .withArgs(id, client.address, parseEther("5"), parseEther("5"), parseEther("5"));
+
+      // One second later: 2% flat + 5 full days at 0.5% = 4.5% of the installment
+      await time.setNextBlockTimestamp(graceEnd + 1n);
+      await expect(escrow.connect(client).makePayment(id, { value: parseEther("5") }))
+        .to.be.revertedWith("Incorrect payment amount");
+
+      await time.setNextBlockTimestamp(graceEnd + 2n);
+      await expect(escrow.connect(client).makePayment(id, { value: parseEther("5.225") }))
+        .to.emit(escrow, "PaymentMade")
+        .withArgs(id, client.address, parseEther("10"), parseEther("10.225"), false, parseEther("0.225"));
+      expect(await escrow.lateFeesPaid(id)).to.equal(parseEther("0.225"));
+    });
+
+    it("Should cap the late fee at the policy maximum", async function () {
+      const { escrow, createInvoice, provider, client } = await loadFixture(deployEscrowFixture);
+      await escrow.connect(provider).setLateFeePolicy(policy);
+      const id = await createInvoice(parseEther("10"), { paymentWindow: 10 * DAY });
+
+      // 2% + 30 days at 0.5% would be 17%; the cap is 10%
+      await time.increaseTo((await escrow.getInvoice(id)).dueDate + BigInt(30 * DAY));
+      const [amount, lateFee] = await escrow.getPaymentAmount(id);
+      expect(lateFee).to.equal(parseEther("1"));
+      expect(amount).to.equal(parseEther("11"));
+
+      await expect(escrow.connect(client).makePayment(id, { value: parseEther("11") }))
+        .to.emit(escrow, "PaymentMade")
+        .withArgs(id, client.address, parseEther("10"), parseEther("11"), false, parseEther("1"));
+    });
+  });
+});
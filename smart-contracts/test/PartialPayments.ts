@@ -0,0 +1,46 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { afterPlatformFee, deployEscrowFixture, Status } from "./fixtures";
+
+const { parseEther } = hre.ethers;
+
+describe("InvoiceEscrow", function () {
+  describe("Partial Payments", function () {
+    it("Should hold installments in escrow until a credit note settles the rest", async function () {
+      const { escrow, createInvoice, provider, client, feeCollector } = await loadFixture(deployEscrowFixture);
+      const id = await createInvoice(parseEther("10"));
+
+      await expect(escrow.connect(client).makePartialPayment(id, parseEther("4"), { value: parseEther("4") }))
+        .to.emit(escrow, "InstallmentPaid")
+        .withArgs(id, client.address, parseEther("4"), parseEther("4"), parseEther("6"));
+      await escrow.connect(client).makePartialPayment(id, parseEther("3"), { value: parseEther("3") });
+
+      let invoice = await escrow.getInvoice(id);
+      expect(invoice.status).to.equal(Status.PartiallyPaid);
+      expect(invoice.amountPaid).to.equal(parseEther("7"));
+      expect(invoice.balanceDue).to.equal(parseEther("3"));
+      expect(await escrow.getEscrowBalance(id)).to.equal(parseEther("7"));
+
+      await expect(escrow.connect(provider).issueCreditNote(id, parseEther("4"), "ipfs://credit"))
+        .to.be.revertedWith("Credit exceeds balance due");
+
+      // Crediting the balance settles the invoice on what was paid, and releases it
+      const settle = escrow.connect(provider).issueCreditNote(id, parseEther("3"), "ipfs://credit");
+      await expect(settle)
+        .to.emit(escrow, "PaymentMade")
+        .withArgs(id, client.address, parseEther("7"), parseEther("7"), false, 0n);
+      await expect(settle).to.emit(escrow, "CreditNoteIssued").withArgs(1n, id, parseEther("3"), 0n, "ipfs://credit");
+      await expect(settle).to.changeEtherBalances(
+        [provider, feeCollector, client],
+        [afterPlatformFee(parseEther("7")), parseEther("7") - afterPlatformFee(parseEther("7")), 0n]
+      );
+
+      invoice = await escrow.getInvoice(id);
+      expect(invoice.status).to.equal(Status.Completed);
+      expect(invoice.balanceDue).to.equal(0n);
+      expect(await escrow.billedAmounts(id)).to.equal(parseEther("7"));
+      expect(await escrow.getEscrowBalance(id)).to.equal(0n);
+    });
+  });
+});
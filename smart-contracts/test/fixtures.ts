@@ -0,0 +1,33 @@
+import hre from "hardhat";
+
+export const DAY = 24 * 60 * 60;
+
+// InvoiceEscrow.InvoiceStatus
+export const Status = { Created: 0n, Paid: 1n, Approved: 2n, Completed: 3n, Disputed: 4n, Cancelled: 5n, Refunded: 6n, PartiallyPaid: 8n };
+
+export async function deployEscrowFixture() {
+  const [owner, feeCollector, provider, client, arbitrator, keeper] = await hre.ethers.getSigners();
+
+  const InvoiceEscrow = await hre.ethers.getContractFactory("InvoiceEscrow");
+  const escrow = await InvoiceEscrow.deploy(feeCollector.address);
+
+  // Native SEI invoice from provider to client; returns its ID
+  async function createInvoice(amount: bigint, options: { paymentWindow?: number; discountBps?: number; requiresApproval?: boolean } = {}) {
+    const terms = {
+      paymentWindow: options.paymentWindow ?? 30 * DAY,
+      earlyPaymentDiscountBps: options.discountBps ?? 0,
+      earlyPaymentDeadline: 0,
+      requiresApproval: options.requiresApproval ?? false,
+      arbitrator: arbitrator.address
+    };
+    await escrow.connect(provider).createInvoice(client.address, amount, hre.ethers.ZeroAddress, terms, "ipfs://invoice");
+    return (await escrow.nextInvoiceId()) - 1n;
+  }
+
+  return { escrow, createInvoice, owner, feeCollector, provider, client, arbitrator, keeper };
+}
+
+// What the provider receives from a release of `amount`, after the 0.5% platform fee
+export function afterPlatformFee(amount: bigint) {
+  return amount - (amount * 50n) / 10000n;
+}